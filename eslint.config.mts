@@ -22,6 +22,13 @@ export default tseslint.config(
 		},
 	},
 	...obsidianmd.configs.recommended,
+	{
+		files: ["package.json"],
+		rules: {
+			// moment backs the obsidian test mock (Obsidian bundles it at runtime)
+			"depend/ban-dependencies": ["error", { allowed: ["moment"] }],
+		},
+	},
 	globalIgnores([
 		"node_modules",
 		"dist",
@@ -2,6 +2,9 @@
  * Minimal Obsidian API mock for unit tests.
  */
 import { parse, stringify } from "yaml";
+import moment from "moment";
+
+export { moment };
 
 // ── YAML ──
 
@@ -16,7 +19,8 @@ export function stringifyYaml(obj: unknown): string {
 // ── Path ──
 
 export function normalizePath(path: string): string {
-	return path.replace(/\\/g, "/").replace(/\/+/g, "/");
+	const normalized = path.replace(/\\/g, "/").replace(/\/+/g, "/").replace(/^\/|\/$/g, "");
+	return normalized || "/";
 }
 
 // ── Notice (trackable in tests) ──
@@ -100,6 +104,64 @@ export class Vault {
 	async createFolder(path: string): Promise<void> {
 		this.folders.add(normalizePath(path));
 	}
+
+	getMarkdownFiles(): TFile[] {
+		return [...this.files.keys()]
+			.filter((p) => p.endsWith(".md"))
+			.map((p) => new TFile(p));
+	}
+
+	private handlers = new Map<string, ((...args: unknown[]) => void)[]>();
+
+	/** Handlers are only invoked through `_trigger()`. */
+	on(name: string, callback: (...args: any[]) => void): EventRef {
+		const list = this.handlers.get(name) ?? [];
+		list.push(callback);
+		this.handlers.set(name, list);
+		return {};
+	}
+
+	/** Emit a vault event (for testing). */
+	_trigger(name: string, ...args: unknown[]): void {
+		for (const callback of this.handlers.get(name) ?? []) {
+			callback(...args);
+		}
+	}
+}
+
+// ── Events ──
+
+export type EventRef = Record<string, never>;
+
+// ── Mock MetadataCache (parses frontmatter on demand) ──
+
+export interface CachedMetadata {
+	frontmatter?: Record<string, unknown>;
+}
+
+class MetadataCache {
+	private vault: Vault;
+
+	constructor(vault: Vault) {
+		this.vault = vault;
+	}
+
+	getFileCache(file: TFile): CachedMetadata | null {
+		const content = this.vault._getFile(file.path);
+		if (content === undefined) {
+			return null;
+		}
+		const fmMatch = content.match(/^---\n([\s\S]*?)\n---/);
+		if (!fmMatch) {
+			return {};
+		}
+		return { frontmatter: parse(fmMatch[1]) as Record<string, unknown> };
+	}
+
+	/** Events are not emitted in tests. */
+	on(): EventRef {
+		return {};
+	}
 }
 
 // ── Mock FileManager ──
@@ -164,10 +226,12 @@ class FileManager {
 export class App {
 	vault: Vault;
 	fileManager: FileManager;
+	metadataCache: MetadataCache;
 
 	constructor() {
 		this.vault = new Vault();
 		this.fileManager = new FileManager(this.vault);
+		this.metadataCache = new MetadataCache(this.vault);
 	}
 }
 
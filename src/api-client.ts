@@ -9,9 +9,13 @@ import type {
 	TagsRegistryResponse,
 	TagsRegistry,
 	TokenPairResponse,
+	ReconcileArchivedRequest,
 	ReconcileArchivedResponse,
 	UserSettingsResponse,
 	UserSettingsUpdateRequest,
+	UnsyncedQuery,
+	VaultPathsUpdateRequest,
+	VaultPathsUpdateResponse,
 } from "./types";
 import type { ArchivistBotSettings } from "./settings";
 
@@ -30,7 +34,7 @@ export class RefreshTokenExpiredError extends Error {
  * Extract HTTP status code from requestUrl error string.
  * requestUrl throws strings like "Error: Request failed, status 401".
  */
-function extractHttpStatus(error: unknown): number | null {
+export function extractHttpStatus(error: unknown): number | null {
 	const match = String(error).match(/status (\d+)/);
 	return match ? parseInt(match[1]) : null;
 }
@@ -287,9 +291,24 @@ export class ArchivistApiClient {
 
 	// ── Notes ──
 
-	async fetchUnsynced(): Promise<SyncResponse> {
+	/**
+	 * Fetch one page of unsynced notes.
+	 * Without a query, the server returns the whole backlog (legacy behavior).
+	 */
+	async fetchUnsynced(query: UnsyncedQuery = {}): Promise<SyncResponse> {
+		const params = new URLSearchParams();
+		if (query.cursor) {
+			params.set("cursor", query.cursor);
+		}
+		if (query.limit) {
+			params.set("limit", String(query.limit));
+		}
+		if (query.since) {
+			params.set("since", query.since);
+		}
+		const qs = params.toString();
 		return this.request<SyncResponse>({
-			url: `${this.baseUrl}/v1/notes/unsynced`,
+			url: `${this.baseUrl}/v1/notes/unsynced${qs ? `?${qs}` : ""}`,
 		});
 	}
 
@@ -310,6 +329,18 @@ export class ArchivistApiClient {
 		});
 	}
 
+	/**
+	 * Report new vault paths of notes the user renamed or moved.
+	 */
+	async updateVaultPaths(vaultPaths: Record<string, string>): Promise<VaultPathsUpdateResponse> {
+		const payload: VaultPathsUpdateRequest = { vault_paths: vaultPaths };
+		return this.request<VaultPathsUpdateResponse>({
+			url: `${this.baseUrl}/v1/notes/vault-paths`,
+			method: "POST",
+			body: JSON.stringify(payload),
+		});
+	}
+
 	// ── Plugin init ──
 
 	async pluginInit(
@@ -356,11 +387,15 @@ export class ArchivistApiClient {
 
 	// ── Archive reconciliation ──
 
-	async reconcileArchived(vaultPaths: string[]): Promise<ReconcileArchivedResponse> {
+	/**
+	 * Report archived notes (original vault paths) with their resolution
+	 * details, so the server drops them from the digest inbox.
+	 */
+	async reconcileArchived(payload: ReconcileArchivedRequest): Promise<ReconcileArchivedResponse> {
 		return this.request<ReconcileArchivedResponse>({
 			url: `${this.baseUrl}/v1/notes/reconcile-archived`,
 			method: "POST",
-			body: JSON.stringify({ vault_paths: vaultPaths }),
+			body: JSON.stringify(payload),
 		});
 	}
 
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { parsePlacementRules, placeAddition, placementFor, toCallout } from "./append-placement";
+import type { AppendPlacement } from "./append-placement";
+
+const END: AppendPlacement = { mode: "end", heading: "## Updates" };
+
+describe("parsePlacementRules", () => {
+	it("parses one rule per line", () => {
+		const { rules, errors } = parsePlacementRules(
+			"# comment\nwork/meetings: heading ## Decisions\n\nideas: reply-note\n",
+		);
+
+		expect(errors).toEqual([]);
+		expect(rules).toEqual({
+			"work/meetings": { mode: "heading", heading: "## Decisions" },
+			ideas: { mode: "reply-note", heading: "" },
+		});
+	});
+
+	it("reports invalid lines and skips them", () => {
+		const { rules, errors } = parsePlacementRules("work: bottom\nideas: callout ## X\nno colon\nhome: heading Notes");
+
+		expect(rules).toEqual({});
+		expect(errors).toEqual([
+			'Line 1: unknown mode "bottom"',
+			"Line 2: only the heading mode takes a heading",
+			'Line 3: expected "category: mode"',
+			"Line 4: heading must start with #",
+		]);
+	});
+});
+
+describe("placementFor", () => {
+	const rules = parsePlacementRules("work: callout\nwork/meetings: heading").rules;
+
+	it("uses the most specific category rule", () => {
+		expect(placementFor("work/meetings/weekly", rules, END)).toEqual({ mode: "heading", heading: "## Updates" });
+		expect(placementFor("work/travel", rules, END).mode).toBe("callout");
+	});
+
+	it("falls back for categories without a rule", () => {
+		expect(placementFor("ideas", rules, END)).toEqual(END);
+	});
+});
+
+describe("placeAddition", () => {
+	it("adds to the end of an existing section", () => {
+		const content = "---\na: 1\n---\n\nText\n\n## Updates\n\nOld\n\n## Tasks\n\n- [ ] x";
+
+		expect(placeAddition(content, "New", { mode: "heading", heading: "## Updates" }))
+			.toBe("---\na: 1\n---\n\nText\n\n## Updates\n\nOld\n\nNew\n\n## Tasks\n\n- [ ] x");
+	});
+
+	it("creates the heading when missing", () => {
+		expect(placeAddition("Text\n", "New", { mode: "heading", heading: "## Updates" }))
+			.toBe("Text\n\n## Updates\n\nNew");
+	});
+
+	it("prepends after the frontmatter", () => {
+		expect(placeAddition("---\na: 1\n---\n\nText", "New", { mode: "prepend", heading: "" }))
+			.toBe("---\na: 1\n---\n\nNew\n\n---\n\nText");
+	});
+});
+
+describe("toCallout", () => {
+	it("quotes every line, keeping blank lines inside the callout", () => {
+		expect(toCallout("Addition", "a\n\nb")).toBe("> [!note]- Addition\n> a\n>\n> b");
+	});
+});
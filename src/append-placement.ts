@@ -0,0 +1,118 @@
+// src/append-placement.ts
+import { appendToSection } from "./markdown-sections";
+import { t } from "./i18n";
+
+/**
+ * Where an addition (reply) goes in the note it targets:
+ * - end: at the end of the file, after a horizontal rule
+ * - heading: at the end of the section under a named heading
+ * - prepend: right after the frontmatter (newest first)
+ * - callout: at the end, as a collapsed callout
+ * - reply-note: into a separate note linked from the parent
+ */
+export type AppendMode = "end" | "heading" | "prepend" | "callout" | "reply-note";
+
+export const APPEND_MODES: AppendMode[] = ["end", "heading", "prepend", "callout", "reply-note"];
+
+/** Default heading of the "heading" mode. */
+export const DEFAULT_APPEND_HEADING = "## Updates";
+
+export interface AppendPlacement {
+	mode: AppendMode;
+	/** Heading line of the "heading" mode, e.g. "## Updates" */
+	heading: string;
+}
+
+/**
+ * Parse per-category placement rules, one `category: mode [heading]` per line:
+ *
+ * ```
+ * work/meetings: heading ## Decisions
+ * ideas: reply-note
+ * ```
+ *
+ * Blank lines and lines starting with `#` are ignored. Invalid lines are
+ * skipped and reported.
+ */
+export function parsePlacementRules(text: string): { rules: Record<string, AppendPlacement>; errors: string[] } {
+	const rules: Record<string, AppendPlacement> = {};
+	const errors: string[] = [];
+
+	text.split("\n").forEach((raw, i) => {
+		const line = raw.trim();
+		if (!line || line.startsWith("#")) {
+			return;
+		}
+		const match = line.match(/^([^:]+):\s*(\S+)(?:\s+(.+))?$/);
+		if (!match) {
+			errors.push(t("parse.expected", { line: i + 1, format: "category: mode" }));
+			return;
+		}
+		const [, category, mode, heading] = match;
+		if (!APPEND_MODES.includes(mode as AppendMode)) {
+			errors.push(t("parse.unknownMode", { line: i + 1, mode }));
+			return;
+		}
+		if (heading && mode !== "heading") {
+			errors.push(t("parse.headingOnlyInHeadingMode", { line: i + 1 }));
+			return;
+		}
+		if (heading && !/^#{1,6}\s+\S/.test(heading)) {
+			errors.push(t("parse.headingHash", { line: i + 1 }));
+			return;
+		}
+		rules[category.trim().replace(/^\/+|\/+$/g, "")] = {
+			mode: mode as AppendMode,
+			heading: heading?.trim() ?? "",
+		};
+	});
+
+	return { rules, errors };
+}
+
+/**
+ * Placement for a category: the rule of the category itself or of its
+ * closest parent (`work` applies to `work/meetings`), `fallback` otherwise.
+ * Rules without a heading use the fallback heading.
+ */
+export function placementFor(
+	category: string,
+	rules: Record<string, AppendPlacement>,
+	fallback: AppendPlacement,
+): AppendPlacement {
+	const parts = category.split("/");
+	for (let n = parts.length; n > 0; n--) {
+		const rule = rules[parts.slice(0, n).join("/")];
+		if (rule) {
+			return { mode: rule.mode, heading: rule.heading || fallback.heading || DEFAULT_APPEND_HEADING };
+		}
+	}
+	return { mode: fallback.mode, heading: fallback.heading || DEFAULT_APPEND_HEADING };
+}
+
+/**
+ * Insert a rendered addition block into note content
+ * ("heading" and "prepend" modes; other modes add it at the end).
+ */
+export function placeAddition(content: string, block: string, placement: AppendPlacement): string {
+	switch (placement.mode) {
+		case "heading":
+			return appendToSection(content, placement.heading, block);
+		case "prepend": {
+			const frontmatter = content.match(/^---\n[\s\S]*?\n---\n?/)?.[0] ?? "";
+			const body = content.slice(frontmatter.length).trim();
+			const head = frontmatter ? `${frontmatter.trimEnd()}\n\n` : "";
+			return body ? `${head}${block}\n\n---\n\n${body}` : `${head}${block}`;
+		}
+		default:
+			return `${content.trimEnd()}\n\n${block}`;
+	}
+}
+
+/**
+ * Wrap text as a collapsed Obsidian callout: `> [!note]- title`.
+ */
+export function toCallout(title: string, body: string): string {
+	const lines = body.split("\n").map((line) => (line ? `> ${line}` : ">"));
+	return [`> [!note]- ${title}`, ...lines].join("\n");
+}
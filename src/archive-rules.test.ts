@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { App, TFile } from "obsidian";
+import { ArchiveRuleEngine, allTasksDone, parseArchiveRules, ruleFor, taskProgress } from "./archive-rules";
+import { defaultResolutions } from "./resolutions-manager";
+import type { NoteArchiver } from "./archiver";
+import { setLocale } from "./i18n";
+
+describe("parseArchiveRules", () => {
+	it("parses conditions, resolutions and actions", () => {
+		const { rules, errors } = parseArchiveRules([
+			"# comment",
+			"*: tasks-done realized auto",
+			"",
+			"/ideas/: idle-30d outdated",
+		].join("\n"));
+
+		expect(errors).toEqual([]);
+		expect(rules).toEqual([
+			{ category: "*", condition: "tasks-done", days: 0, resolution: "realized", action: "auto" },
+			{ category: "ideas", condition: "idle", days: 30, resolution: "outdated", action: "prompt" },
+		]);
+	});
+
+	it("reports invalid lines", () => {
+		const { rules, errors } = parseArchiveRules([
+			"work tasks-done realized",
+			"work: finished realized",
+			"work: idle-0d outdated",
+			"work: tasks-done realized later",
+		].join("\n"));
+
+		expect(rules).toEqual([]);
+		expect(errors).toHaveLength(4);
+		expect(errors[1]).toContain("Line 2");
+	});
+});
+
+describe("ruleFor", () => {
+	const { rules } = parseArchiveRules([
+		"*: tasks-done realized",
+		"work: tasks-done dropped auto",
+		"work/meetings: idle-7d outdated",
+	].join("\n"));
+
+	it("prefers the closest parent category, then *", () => {
+		expect(ruleFor("work/meetings", "tasks-done", rules)?.resolution).toBe("dropped");
+		expect(ruleFor("ideas", "tasks-done", rules)?.resolution).toBe("realized");
+		expect(ruleFor("work/meetings/weekly", "idle", rules)?.days).toBe(7);
+		expect(ruleFor("work", "idle", rules)).toBeNull();
+	});
+});
+
+describe("taskProgress", () => {
+	it("counts done and open tasks of the task section", () => {
+		expect(taskProgress("## Tasks\n- [x] One\n- [ ] Two\n- [>] Three\n\n## Related\n- [ ] Other"))
+			.toEqual({ done: 2, total: 3 });
+		expect(taskProgress("# Note\n- [x] Not in the task section")).toEqual({ done: 0, total: 0 });
+	});
+});
+
+describe("allTasksDone", () => {
+	it("requires at least one task, all checked", () => {
+		expect(allTasksDone("## Tasks\n- [x] One\n- [-] Two\n\n## Related\n- [ ] Other")).toBe(true);
+		expect(allTasksDone("## Задачи\n- [x] Один\n- [ ] Два")).toBe(false);
+		expect(allTasksDone("## Tasks\n\n## Related")).toBe(false);
+		expect(allTasksDone("# Note\n- [x] Not in the task section")).toBe(false);
+	});
+});
+
+describe("ArchiveRuleEngine", () => {
+	let app: App;
+	let archiver: { [K in "canArchive" | "categoryOf" | "getResolutions" | "archive" | "archiveMany"]: ReturnType<typeof vi.fn> };
+	let engine: ArchiveRuleEngine;
+
+	beforeEach(() => {
+		setLocale("en");
+		app = new App();
+		archiver = {
+			canArchive: vi.fn(() => true),
+			categoryOf: vi.fn(() => "work"),
+			getResolutions: vi.fn(async () => defaultResolutions()),
+			archive: vi.fn(async () => true),
+			archiveMany: vi.fn(async () => 0),
+		};
+		engine = new ArchiveRuleEngine(app, archiver as unknown as NoteArchiver);
+	});
+
+	function addNote(path: string, body: string): TFile {
+		(app.vault as any)._addFile(path, `---\narchivist_id: "n1"\n---\n${body}`);
+		return new TFile(path);
+	}
+
+	it("archives a note with all tasks done by an auto rule", async () => {
+		engine.setRules(parseArchiveRules("work: tasks-done realized auto").rules);
+		const file = addNote("VoiceNotes/work/Note.md", "## Tasks\n- [x] Done");
+
+		expect(await engine.noteModified(file)).toBe(true);
+		expect(archiver.archive).toHaveBeenCalledWith(file, {
+			resolution: expect.objectContaining({ value: "realized" }),
+		});
+	});
+
+	it("prompts once until the note stops matching", async () => {
+		engine.setRules(parseArchiveRules("*: tasks-done realized").rules);
+		archiver.archive.mockResolvedValue(false);
+		const file = addNote("VoiceNotes/work/Note.md", "## Tasks\n- [x] Done");
+
+		await engine.noteModified(file);
+		await engine.noteModified(file);
+		expect(archiver.archive).toHaveBeenCalledTimes(1);
+		expect(archiver.archive).toHaveBeenCalledWith(file, {
+			suggestion: { resolution: "realized", reason: "Note: all tasks are done" },
+		});
+
+		(app.vault as any)._addFile(file.path, `---\narchivist_id: "n1"\n---\n## Tasks\n- [ ] Reopened`);
+		await engine.noteModified(file);
+		(app.vault as any)._addFile(file.path, `---\narchivist_id: "n1"\n---\n## Tasks\n- [x] Reopened`);
+		await engine.noteModified(file);
+		expect(archiver.archive).toHaveBeenCalledTimes(2);
+	});
+
+	it("leaves auto rules to the device the gate allows", async () => {
+		engine.setRules(parseArchiveRules("work: tasks-done realized auto").rules);
+		const gate = vi.fn(async () => false);
+		engine.setAutoGate(gate);
+		const file = addNote("VoiceNotes/work/Note.md", "## Tasks\n- [x] Done");
+
+		expect(await engine.noteModified(file)).toBe(false);
+		expect(archiver.archive).not.toHaveBeenCalled();
+
+		gate.mockResolvedValue(true);
+		expect(await engine.noteModified(file)).toBe(true);
+	});
+
+	it("prompts once per idle rule for all its notes", async () => {
+		engine.setRules(parseArchiveRules("work: idle-30d outdated").rules);
+		const files = ["A", "B"].map((name) => Object.assign(addNote(`VoiceNotes/work/${name}.md`, ""), { stat: { mtime: 0 } }));
+		vi.spyOn(app.vault, "getMarkdownFiles").mockReturnValue(files);
+		archiver.archiveMany.mockResolvedValue(2);
+
+		expect(await engine.checkIdle(31 * 24 * 60 * 60 * 1000)).toBe(2);
+		expect(await engine.checkIdle(31 * 24 * 60 * 60 * 1000)).toBe(0);
+		expect(archiver.archive).not.toHaveBeenCalled();
+		expect(archiver.archiveMany.mock.calls).toEqual([[files, {
+			suggestion: { resolution: "outdated", reason: "no edits for 30 days: A, B" },
+		}]]);
+	});
+
+	it("ignores notes without an archivist_id and unknown resolutions", async () => {
+		engine.setRules(parseArchiveRules("*: tasks-done merged auto").rules);
+		const own = new TFile("VoiceNotes/work/Own.md");
+		(app.vault as any)._addFile(own.path, "## Tasks\n- [x] Done");
+		const synced = addNote("VoiceNotes/work/Note.md", "## Tasks\n- [x] Done");
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		expect(await engine.noteModified(own)).toBe(false);
+		expect(await engine.noteModified(synced)).toBe(false);
+		expect(archiver.archive).not.toHaveBeenCalled();
+		expect(warn).toHaveBeenCalled();
+		warn.mockRestore();
+	});
+});
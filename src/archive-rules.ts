@@ -0,0 +1,269 @@
+// src/archive-rules.ts
+import { App, TFile } from "obsidian";
+import type { NoteArchiver } from "./archiver";
+import { ARCHIVIST_ID_KEY } from "./note-index";
+import { allTranslations, t } from "./i18n";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Note names listed in the prompt of an idle rule that matched several notes. */
+const PROMPT_NAMES_MAX = 5;
+
+/**
+ * Decides whether this device may archive by auto rules (the sync leader,
+ * when leader election is on), so devices sharing the vault don't race.
+ */
+export type AutoArchiveGate = () => Promise<boolean>;
+
+/**
+ * When a rule fires:
+ * - tasks-done: every task in the note's task section is checked
+ * - idle: the note has not been edited for `days` days
+ */
+export type ArchiveCondition = "tasks-done" | "idle";
+
+/** Archive right away (auto) or ask with the resolution preselected (prompt). */
+export type RuleAction = "auto" | "prompt";
+
+export interface ArchiveRule {
+	/** Category the rule applies to (and its subcategories), "*" for all */
+	category: string;
+	condition: ArchiveCondition;
+	/** Idle days (idle condition) */
+	days: number;
+	/** Resolution value to archive with */
+	resolution: string;
+	action: RuleAction;
+}
+
+/**
+ * Parse archive rules, one `category: condition resolution [auto|prompt]`
+ * per line; `*` matches all categories, conditions are `tasks-done` and
+ * `idle-<days>d`:
+ *
+ * ```
+ * *: tasks-done realized auto
+ * ideas: idle-30d outdated
+ * ```
+ *
+ * Rules prompt unless marked `auto`. Blank lines and lines starting with
+ * `#` are ignored. Invalid lines are skipped and reported.
+ */
+export function parseArchiveRules(text: string): { rules: ArchiveRule[]; errors: string[] } {
+	const rules: ArchiveRule[] = [];
+	const errors: string[] = [];
+
+	text.split("\n").forEach((raw, i) => {
+		const line = raw.trim();
+		if (!line || line.startsWith("#")) {
+			return;
+		}
+		const match = line.match(/^([^:]+):\s*(\S+)\s+(\S+)(?:\s+(\S+))?$/);
+		if (!match) {
+			errors.push(t("parse.expected", { line: i + 1, format: "category: condition resolution" }));
+			return;
+		}
+		const [, category, condition, resolution, action = "prompt"] = match;
+		const idle = condition.match(/^idle-(\d+)d$/);
+		if (condition !== "tasks-done" && !(idle && Number(idle[1]) > 0)) {
+			errors.push(t("parse.unknownCondition", { line: i + 1, condition }));
+			return;
+		}
+		if (action !== "auto" && action !== "prompt") {
+			errors.push(t("parse.unknownAction", { line: i + 1, action }));
+			return;
+		}
+		rules.push({
+			category: category.trim().replace(/^\/+|\/+$/g, ""),
+			condition: idle ? "idle" : "tasks-done",
+			days: idle ? Number(idle[1]) : 0,
+			resolution,
+			action,
+		});
+	});
+
+	return { rules, errors };
+}
+
+/**
+ * The rule with `condition` for a category: the rule of the category
+ * itself or of its closest parent, the `*` rule otherwise.
+ */
+export function ruleFor(category: string, condition: ArchiveCondition, rules: ArchiveRule[]): ArchiveRule | null {
+	const parts = category.split("/");
+	for (let n = parts.length; n > 0; n--) {
+		const prefix = parts.slice(0, n).join("/");
+		const rule = rules.find((r) => r.condition === condition && r.category === prefix);
+		if (rule) {
+			return rule;
+		}
+	}
+	return rules.find((r) => r.condition === condition && r.category === "*") ?? null;
+}
+
+/**
+ * Count the tasks in a note's task section (heading in any language);
+ * any status but a space counts as done.
+ */
+export function taskProgress(content: string): { done: number; total: number } {
+	const headings = allTranslations("note.tasks").map((h) => `## ${h}`);
+	const lines = content.split("\n");
+	const start = lines.findIndex((line) => headings.includes(line.trim()));
+	const progress = { done: 0, total: 0 };
+	if (start === -1) {
+		return progress;
+	}
+
+	for (const line of lines.slice(start + 1)) {
+		if (/^#{1,2}\s/.test(line)) {
+			break;
+		}
+		const task = line.match(/^\s*- \[(.)\]/);
+		if (task) {
+			progress.total++;
+			if (task[1] !== " ") {
+				progress.done++;
+			}
+		}
+	}
+	return progress;
+}
+
+/**
+ * Check that a note's task section has tasks and all of them are checked.
+ */
+export function allTasksDone(content: string): boolean {
+	const { done, total } = taskProgress(content);
+	return total > 0 && done === total;
+}
+
+/**
+ * Evaluates archive rules and archives matching notes through the
+ * `NoteArchiver` (same frontmatter, folders and index updates as by hand).
+ *
+ * A note fires a rule once per session: a dismissed prompt is not shown
+ * again until the note stops matching (e.g. a task is unchecked).
+ */
+export class ArchiveRuleEngine {
+	private rules: ArchiveRule[] = [];
+	/** Paths whose rule already fired in this session */
+	private fired = new Set<string>();
+	private autoGate: AutoArchiveGate | null = null;
+
+	constructor(
+		private app: App,
+		private archiver: NoteArchiver,
+	) {}
+
+	/**
+	 * Set the rules to evaluate.
+	 */
+	setRules(rules: ArchiveRule[]): void {
+		this.rules = rules;
+	}
+
+	/**
+	 * Set the check auto rules wait for. Without it every device archives.
+	 */
+	setAutoGate(gate: AutoArchiveGate): void {
+		this.autoGate = gate;
+	}
+
+	/**
+	 * Evaluate the tasks-done rule of a modified note.
+	 * @returns Whether the note was archived
+	 */
+	async noteModified(file: TFile): Promise<boolean> {
+		const category = this.categoryOf(file);
+		const rule = category !== null ? ruleFor(category, "tasks-done", this.rules) : null;
+		if (!rule) {
+			return false;
+		}
+
+		if (!allTasksDone(await this.app.vault.read(file))) {
+			this.fired.delete(file.path);
+			return false;
+		}
+		if (this.fired.has(file.path) || (rule.action === "auto" && !(await this.mayAutoArchive()))) {
+			return false;
+		}
+		this.fired.add(file.path);
+		return (await this.apply([file], rule, t("rules.tasksDone"))) > 0;
+	}
+
+	/**
+	 * Evaluate idle rules over all synced notes.
+	 * @returns Number of archived notes
+	 */
+	async checkIdle(now = Date.now()): Promise<number> {
+		const byRule = new Map<ArchiveRule, TFile[]>();
+		let autoAllowed: boolean | null = null;
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const category = this.categoryOf(file);
+			const rule = category !== null ? ruleFor(category, "idle", this.rules) : null;
+			if (!rule || this.fired.has(file.path) || now - file.stat.mtime < rule.days * DAY_MS) {
+				continue;
+			}
+			if (rule.action === "auto") {
+				autoAllowed ??= await this.mayAutoArchive();
+				if (!autoAllowed) {
+					continue;
+				}
+			}
+			this.fired.add(file.path);
+			byRule.set(rule, [...(byRule.get(rule) ?? []), file]);
+		}
+
+		let archived = 0;
+		for (const [rule, files] of byRule) {
+			archived += await this.apply(files, rule, t("rules.idle", { days: rule.days }));
+		}
+		return archived;
+	}
+
+	/**
+	 * Archive notes by a rule: all at once (auto) or after one prompt for
+	 * all of them; a single note gets the dialog with its preview.
+	 * @returns Number of archived notes
+	 */
+	private async apply(files: TFile[], rule: ArchiveRule, reason: string): Promise<number> {
+		const resolution = (await this.archiver.getResolutions()).find((r) => r.value === rule.resolution);
+		if (!resolution) {
+			console.warn(`[ArchivistBot] Archive rule uses unknown resolution "${rule.resolution}"`);
+			return 0;
+		}
+
+		if (rule.action === "auto") {
+			return files.length === 1
+				? Number(await this.archiver.archive(files[0], { resolution }))
+				: this.archiver.archiveMany(files, { resolution });
+		}
+
+		if (files.length === 1) {
+			const suggestion = { resolution: resolution.value, reason: `${files[0].basename}: ${reason}` };
+			return Number(await this.archiver.archive(files[0], { suggestion }));
+		}
+		const names = files.slice(0, PROMPT_NAMES_MAX).map((f) => f.basename).join(", ");
+		const more = files.length > PROMPT_NAMES_MAX ? ", …" : "";
+		const suggestion = { resolution: resolution.value, reason: `${reason}: ${names}${more}` };
+		return this.archiver.archiveMany(files, { suggestion });
+	}
+
+	/**
+	 * Whether auto rules may archive on this device.
+	 */
+	private async mayAutoArchive(): Promise<boolean> {
+		return this.autoGate ? this.autoGate() : true;
+	}
+
+	/**
+	 * Category of a synced, archivable note; null for other files.
+	 */
+	private categoryOf(file: TFile): string | null {
+		if (!this.archiver.canArchive(file)) {
+			return null;
+		}
+		const id: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.[ARCHIVIST_ID_KEY];
+		return typeof id === "string" && id ? this.archiver.categoryOf(file) : null;
+	}
+}
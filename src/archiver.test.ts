@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { App, Notice, TFile } from "obsidian";
+import { NoteArchiver } from "./archiver";
+import { defaultResolutions } from "./resolutions-manager";
+import { setLocale } from "./i18n";
+
+function createArchiver(): { app: App; archiver: NoteArchiver } {
+	const app = new App();
+	return { app, archiver: new NoteArchiver(app, "VoiceNotes") };
+}
+
+function addNote(app: App, path: string, id?: string): TFile {
+	(app.vault as any)._addFile(path, id ? `---\narchivist_id: "${id}"\n---\nText` : "Text");
+	return new TFile(path);
+}
+
+describe("NoteArchiver", () => {
+	const [realized] = defaultResolutions();
+
+	beforeEach(() => {
+		setLocale("en");
+		Notice.calls = [];
+	});
+
+	describe("canArchive", () => {
+		it("rejects plugin files, index notes and archived notes", () => {
+			const { app, archiver } = createArchiver();
+
+			expect(archiver.canArchive(addNote(app, "VoiceNotes/work/Note.md", "n1"))).toBe(true);
+			expect(archiver.canArchive(addNote(app, "VoiceNotes/Own note.md"))).toBe(true);
+			for (const name of ["categories.md", "tags_registry.md", "resolutions.md", "sync_leader.md"]) {
+				expect(archiver.canArchive(addNote(app, `VoiceNotes/${name}`))).toBe(false);
+			}
+			expect(archiver.canArchive(addNote(app, "VoiceNotes/work/_index.md"))).toBe(false);
+			expect(archiver.canArchive(addNote(app, "VoiceNotes/_archive/work/Old.md", "n2"))).toBe(false);
+		});
+	});
+
+	describe("vault root as base path", () => {
+		it("archives into _archive/ at the root and restores from it", async () => {
+			const app = new App();
+			const archiver = new NoteArchiver(app, "");
+			const note = addNote(app, "work/a.md", "a");
+
+			expect(archiver.canArchive(note)).toBe(true);
+			expect(await archiver.archiveMany([note], { resolution: realized })).toBe(1);
+
+			const archived = new TFile("_archive/work/a.md");
+			expect((app.vault as any)._getFile(archived.path)).toContain("archived_from: work/a.md");
+			expect(archiver.canArchive(archived)).toBe(false);
+			expect(archiver.canRestore(archived)).toBe(true);
+		});
+	});
+
+	describe("archiveMany", () => {
+		it("archives synced notes and skips other files", async () => {
+			const { app, archiver } = createArchiver();
+			const files = [
+				addNote(app, "VoiceNotes/work/a.md", "a"),
+				addNote(app, "VoiceNotes/ideas/b.md", "b"),
+				addNote(app, "VoiceNotes/work/own.md"),
+				addNote(app, "VoiceNotes/categories.md"),
+			];
+
+			expect(archiver.archivable(files).map((f) => f.path)).toEqual(["VoiceNotes/work/a.md", "VoiceNotes/ideas/b.md"]);
+			expect(await archiver.archiveMany(files, { resolution: realized })).toBe(2);
+
+			expect((app.vault as any)._getFile("VoiceNotes/_archive/work/a.md")).toContain("resolution: realized");
+			expect((app.vault as any)._getFile("VoiceNotes/_archive/ideas/b.md")).toContain("archived_from: VoiceNotes/ideas/b.md");
+			expect((app.vault as any)._getFile("VoiceNotes/work/own.md")).toBe("Text");
+			expect((app.vault as any)._getFile("VoiceNotes/categories.md")).toBe("Text");
+			expect(Notice.calls).toEqual([
+				"Archived 2 notes: Realized\nSkipped 2 files that can't be archived",
+			]);
+		});
+
+		it("reports per-file failures and archives the rest", async () => {
+			const { app, archiver } = createArchiver();
+			const files = [addNote(app, "VoiceNotes/work/a.md", "a"), addNote(app, "VoiceNotes/work/b.md", "b")];
+			const rename = app.fileManager.renameFile.bind(app.fileManager);
+			vi.spyOn(app.fileManager, "renameFile").mockImplementation(async (file, newPath) => {
+				if (file.path === "VoiceNotes/work/b.md") {
+					throw new Error("disk full");
+				}
+				await rename(file, newPath);
+			});
+			const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+			expect(await archiver.archiveMany(files, { resolution: realized })).toBe(1);
+
+			expect(Notice.calls).toEqual([
+				"Archived 1 notes: Realized\nFailed to archive 1 notes:\nVoiceNotes/work/b.md: disk full",
+			]);
+			error.mockRestore();
+		});
+
+		it("archives under a numbered name when the archive already holds one", async () => {
+			const { app, archiver } = createArchiver();
+			addNote(app, "VoiceNotes/_archive/work/a.md", "old");
+			addNote(app, "VoiceNotes/_archive/work/a 2.md", "older");
+
+			expect(await archiver.archiveMany([addNote(app, "VoiceNotes/work/a.md", "a")], { resolution: realized })).toBe(1);
+
+			expect((app.vault as any)._getFile("VoiceNotes/_archive/work/a 3.md")).toContain("archived_from: VoiceNotes/work/a.md");
+			expect((app.vault as any)._getFile("VoiceNotes/_archive/work/a.md")).toContain('archivist_id: "old"');
+		});
+
+		it("archives nothing without synced notes", async () => {
+			const { app, archiver } = createArchiver();
+
+			expect(await archiver.archiveMany([addNote(app, "VoiceNotes/work/own.md")], { resolution: realized })).toBe(0);
+
+			expect(Notice.calls).toEqual(["No notes to archive"]);
+		});
+	});
+});
@@ -6,28 +6,86 @@ import {
 	Modal,
 	normalizePath,
 	TFolder,
+	Setting,
 	setIcon,
 } from "obsidian";
+import { t } from "./i18n";
+import { taskProgress } from "./archive-rules";
+import {
+	ARCHIVED_FROM_KEY,
+	archiveFolder,
+	archivedFromPath,
+	categoryForPath,
+	isArchivedPath,
+	logRestore,
+	partitionFolder,
+} from "./vault-layout";
+import type { DatePartition, FolderMapping, RestoreHandler } from "./vault-layout";
+import { INDEX_FILENAME } from "./category-index";
+import type { CategoryIndexer } from "./category-index";
+import { LOCK_FILENAME } from "./sync-leader";
+import { CATEGORIES_FILENAME } from "./categories-manager";
+import { TAGS_FILENAME } from "./tags-manager";
+import { ARCHIVIST_ID_KEY } from "./note-index";
+import { RESOLUTIONS_FILENAME, defaultResolutions } from "./resolutions-manager";
+import type { ArchiveResolution, ResolutionsManager } from "./resolutions-manager";
+
+/** Plugin files in the base path, never archived. */
+const PLUGIN_FILES = [CATEGORIES_FILENAME, TAGS_FILENAME, RESOLUTIONS_FILENAME, LOCK_FILENAME];
+
+/** A resolution proposed by an archive rule, with the reason shown in the dialog. */
+export interface ArchiveSuggestion {
+	/** Resolution value */
+	resolution: string;
+	reason: string;
+}
 
-const RESOLUTIONS = [
-	{ value: "realized", label: "Realized", icon: "check-circle-2" },
-	{ value: "dropped", label: "Dropped", icon: "x-circle" },
-	{ value: "outdated", label: "Outdated", icon: "clock" },
-] as const;
+/** Optional details written next to the resolution. */
+export interface ArchiveDetails {
+	/** Free-text comment (`resolution_note`) */
+	comment?: string;
+	/** Follow-up date, YYYY-MM-DD (`follow_up`) */
+	followUp?: string;
+}
+
+/** Called with the vault path of a note moved to the trash by a trash resolution. */
+export type TrashHandler = (vaultPath: string) => void;
 
-type Resolution = (typeof RESOLUTIONS)[number]["value"];
+/** What the note is about, shown in the archive dialog. */
+interface NotePreview {
+	summary: string;
+	tags: string[];
+	tasksDone: number;
+	tasksTotal: number;
+}
 
 /**
- * Modal for selecting resolution when archiving.
+ * Modal for selecting resolution when archiving, with an optional comment
+ * and follow-up date. Keys 1–9 pick the resolution with that number
+ * (outside the text fields).
  */
 class ArchiveModal extends Modal {
-	private resolve: ((value: Resolution | null) => void) | null = null;
+	private resolve: ((value: (ArchiveDetails & { resolution: ArchiveResolution }) | null) => void) | null = null;
+	private comment = "";
+	private followUp = "";
 
-	constructor(app: App) {
+	/**
+	 * @param resolutions Resolutions to offer, in button order
+	 * @param count Number of notes being archived (bulk archiving)
+	 * @param suggestion Resolution to highlight, with the reason
+	 * @param preview Summary, tags and tasks of the note (single note)
+	 */
+	constructor(
+		app: App,
+		private resolutions: ArchiveResolution[],
+		private count = 1,
+		private suggestion: ArchiveSuggestion | null = null,
+		private preview: NotePreview | null = null,
+	) {
 		super(app);
 	}
 
-	pick(): Promise<Resolution | null> {
+	pick(): Promise<(ArchiveDetails & { resolution: ArchiveResolution }) | null> {
 		return new Promise((resolve) => {
 			this.resolve = resolve;
 			this.open();
@@ -38,28 +96,85 @@ class ArchiveModal extends Modal {
 		const { contentEl } = this;
 		contentEl.addClass("archivistbot-archive-modal");
 
-		contentEl.createEl("h3", { text: "Archive note" });
+		contentEl.createEl("h3", {
+			text: this.count > 1 ? t("archive.titleMany", { count: this.count }) : t("archive.title"),
+		});
 		contentEl.createEl("p", {
-			text: "Select resolution:",
+			text: this.suggestion ? this.suggestion.reason : t("archive.selectResolution"),
 			cls: "archivistbot-archive-hint",
 		});
 
+		if (this.preview) {
+			this.renderPreview(contentEl, this.preview);
+		}
+
+		new Setting(contentEl)
+			.setName(t("archive.comment"))
+			.addTextArea((area) =>
+				area
+					.setPlaceholder(t("archive.commentPlaceholder"))
+					.onChange((value) => {
+						this.comment = value.trim();
+					})
+			);
+		new Setting(contentEl)
+			.setName(t("archive.followUp"))
+			.setDesc(t("archive.followUpDesc"))
+			.addText((text) => {
+				text.inputEl.type = "date";
+				text.onChange((value) => {
+					this.followUp = value;
+				});
+			});
+
 		const btnRow = contentEl.createDiv({ cls: "archivistbot-archive-buttons" });
 
-		for (const { value, label, icon } of RESOLUTIONS) {
+		this.resolutions.forEach((resolution, i) => {
 			const btn = btnRow.createEl("button", {
-				cls: "archivistbot-resolution-btn",
+				cls: resolution.value === this.suggestion?.resolution
+					? "archivistbot-resolution-btn mod-cta"
+					: "archivistbot-resolution-btn",
 			});
 			const iconEl = btn.createSpan({ cls: "archivistbot-resolution-icon" });
-			setIcon(iconEl, icon);
-			btn.createSpan({ text: label });
-			btn.addEventListener("click", () => {
-				this.resolve?.(value);
-				this.close();
+			setIcon(iconEl, resolution.icon);
+			btn.createSpan({ text: resolution.label });
+			btn.addEventListener("click", () => this.choose(resolution));
+
+			if (i < 9) {
+				btn.createSpan({ text: String(i + 1), cls: "archivistbot-resolution-key" });
+				this.scope.register([], String(i + 1), (evt) => {
+					if (evt.target instanceof HTMLInputElement || evt.target instanceof HTMLTextAreaElement) {
+						return true; // Typing a digit
+					}
+					this.choose(resolution);
+					return false;
+				});
+			}
+		});
+	}
+
+	private renderPreview(parent: HTMLElement, preview: NotePreview): void {
+		const el = parent.createDiv({ cls: "archivistbot-archive-preview" });
+		if (preview.summary) {
+			el.createDiv({ text: preview.summary, cls: "archivistbot-archive-summary" });
+		}
+		if (preview.tags.length > 0) {
+			el.createDiv({ text: preview.tags.map((tag) => `#${tag}`).join(" "), cls: "archivistbot-archive-tags" });
+		}
+		if (preview.tasksTotal > 0) {
+			el.createDiv({
+				text: t("archive.tasks", { done: preview.tasksDone, total: preview.tasksTotal }),
+				cls: "archivistbot-archive-tasks",
 			});
 		}
 	}
 
+	private choose(resolution: ArchiveResolution): void {
+		this.resolve?.({ resolution, comment: this.comment, followUp: this.followUp });
+		this.resolve = null;
+		this.close();
+	}
+
 	onClose(): void {
 		// If closed without selection
 		this.resolve?.(null);
@@ -72,6 +187,13 @@ class ArchiveModal extends Modal {
  * Replaces Templater script Archive Note.md.
  */
 export class NoteArchiver {
+	private folderMappings: FolderMapping[] = [];
+	private datePartition: DatePartition = "none";
+	private categoryIndex: CategoryIndexer | null = null;
+	private resolutions: ResolutionsManager | null = null;
+	private onTrashed: TrashHandler | null = null;
+	private onRestored: RestoreHandler | null = null;
+
 	constructor(
 		private app: App,
 		private basePath: string // "VoiceNotes"
@@ -85,66 +207,322 @@ export class NoteArchiver {
 	}
 
 	/**
-	 * Check if a file can be archived.
+	 * Set category → folder mappings (notes in mapped folders can be archived).
+	 */
+	setFolderMappings(mappings: FolderMapping[]): void {
+		this.folderMappings = mappings;
+	}
+
+	/**
+	 * Set date subfolders of the archive (same layout as synced notes).
+	 */
+	setDatePartition(partition: DatePartition): void {
+		this.datePartition = partition;
+	}
+
+	/**
+	 * Set category index notes updated after archiving (null: none).
+	 */
+	setCategoryIndex(indexer: CategoryIndexer | null): void {
+		this.categoryIndex = indexer;
+	}
+
+	/**
+	 * Set the source of user-defined resolutions (resolutions.md).
+	 * Without it the default resolutions are offered.
+	 */
+	setResolutions(manager: ResolutionsManager): void {
+		this.resolutions = manager;
+	}
+
+	/**
+	 * Set callback invoked when a trash resolution deleted a note, so the
+	 * server can be told about it (the note leaves no trace in _archive/).
+	 */
+	setTrashHandler(handler: TrashHandler): void {
+		this.onTrashed = handler;
+	}
+
+	/**
+	 * Set callback invoked after a note was restored, so the server can be
+	 * told that it is active again.
+	 */
+	setRestoreHandler(handler: RestoreHandler): void {
+		this.onRestored = handler;
+	}
+
+	/**
+	 * Resolutions currently offered when archiving.
+	 */
+	async getResolutions(): Promise<ArchiveResolution[]> {
+		return this.resolutions ? this.resolutions.read() : defaultResolutions();
+	}
+
+	/**
+	 * Category of a note by its location, null outside the synced folders.
+	 */
+	categoryOf(file: TFile): string | null {
+		return categoryForPath(this.basePath, this.folderMappings, file.path);
+	}
+
+	/**
+	 * Check if a file can be archived: a note in the synced folders, not
+	 * archived, not an index note or a plugin file (categories.md, …).
 	 */
 	canArchive(file: TFile): boolean {
-		if (!file.path.startsWith(this.basePath + "/")) {
+		if (isArchivedPath(this.basePath, file.path) || file.name === INDEX_FILENAME) {
+			return false;
+		}
+		if (PLUGIN_FILES.some((name) => file.path === normalizePath(`${this.basePath}/${name}`))) {
+			return false;
+		}
+		return categoryForPath(this.basePath, this.folderMappings, file.path) !== null;
+	}
+
+	/**
+	 * Notes among `files` that bulk archiving applies to: archivable
+	 * notes written by the plugin (with an `archivist_id`).
+	 */
+	archivable(files: TFile[]): TFile[] {
+		return files.filter((file) => this.bulkCategory(file) !== null);
+	}
+
+	/**
+	 * Check if a file is an archived note that can be restored.
+	 */
+	canRestore(file: TFile): boolean {
+		return file.extension === "md" && isArchivedPath(this.basePath, file.path);
+	}
+
+	/**
+	 * Restore an archived note to its path before archiving (`archived_from`),
+	 * recreating folders. `resolution` and `archived_at` move to `archive_history`.
+	 * @returns Whether the note was restored
+	 */
+	async restore(file: TFile): Promise<boolean> {
+		if (!this.canRestore(file)) {
+			new Notice(t("notice.notArchived"));
 			return false;
 		}
-		if (file.path.includes("/_archive/")) {
+
+		const archivedPath = file.path;
+		const originalPath = archivedFromPath(this.app, this.basePath, file);
+		if (this.app.vault.getAbstractFileByPath(originalPath)) {
+			new Notice(t("notice.restoreConflict", { path: originalPath }));
 			return false;
 		}
+
+		const restoredAt = new Date().toISOString().slice(0, 19); // YYYY-MM-DDTHH:mm:ss
+		await this.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
+			logRestore(fm, restoredAt);
+		});
+		await this.ensureFolder(originalPath.slice(0, originalPath.lastIndexOf("/")));
+		await this.app.fileManager.renameFile(file, originalPath);
+		this.onRestored?.(originalPath);
+
+		try {
+			await this.categoryIndex?.noteRestored(file, archivedPath);
+		} catch (e) {
+			console.warn("[ArchivistBot] Failed to update category index:", e);
+		}
+
+		new Notice(t("notice.restored", { path: originalPath }));
 		return true;
 	}
 
 	/**
 	 * Archive a note: select resolution → update frontmatter → move.
+	 * @param options.resolution Resolution to apply without asking (commands, auto rules)
+	 * @param options.suggestion Resolution to highlight in the dialog (prompting rules)
+	 * @returns Whether the note was archived
 	 */
-	async archive(file: TFile): Promise<void> {
+	async archive(
+		file: TFile,
+		options: { resolution?: ArchiveResolution; suggestion?: ArchiveSuggestion } = {},
+	): Promise<boolean> {
 		// 1. Check: not already in archive
-		if (file.path.includes("/_archive/")) {
-			new Notice("Note is already archived");
-			return;
+		if (isArchivedPath(this.basePath, file.path)) {
+			new Notice(t("notice.alreadyArchived"));
+			return false;
 		}
 
-		// 2. Check: file is inside basePath
-		if (!file.path.startsWith(this.basePath + "/")) {
-			new Notice("Not an archivistbot note");
-			return;
+		// 2. Check: file is inside basePath or a mapped folder
+		const category = categoryForPath(this.basePath, this.folderMappings, file.path);
+		if (category === null) {
+			new Notice(t("notice.notArchivistNote"));
+			return false;
 		}
 
 		// 3. Select resolution
-		const modal = new ArchiveModal(this.app);
-		const resolution = await modal.pick();
-		if (!resolution) {
-			return; // Cancelled
+		const choice = options.resolution
+			? { resolution: options.resolution }
+			: await new ArchiveModal(
+				this.app,
+				await this.getResolutions(),
+				1,
+				options.suggestion,
+				await this.notePreview(file),
+			).pick();
+		if (!choice) {
+			return false; // Cancelled
 		}
 
-		// 4. Update frontmatter
-		await this.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
-			fm.resolution = resolution;
-			fm.archived_at = new Date().toISOString().slice(0, 19); // YYYY-MM-DDTHH:mm:ss
+		const { resolution } = choice;
+		await this.applyResolution(file, category, resolution, choice);
+		new Notice(t(resolution.trash ? "notice.trashed" : "notice.archived", { resolution: resolution.label }));
+		return true;
+	}
+
+	/**
+	 * Archive several notes with one resolution. Files that are not
+	 * archivable synced notes are skipped; failures are reported per
+	 * file in the summary.
+	 * @param options.resolution Resolution to apply without asking (auto rules)
+	 * @param options.suggestion Resolution to highlight in the dialog (prompting rules)
+	 * @returns Number of archived notes
+	 */
+	async archiveMany(
+		files: TFile[],
+		options: { resolution?: ArchiveResolution; suggestion?: ArchiveSuggestion } = {},
+	): Promise<number> {
+		const archivable = files.flatMap((file) => {
+			const category = this.bulkCategory(file);
+			return category === null ? [] : [{ file, category }];
 		});
+		const skipped = files.length - archivable.length;
+		if (archivable.length === 0) {
+			new Notice(t("notice.nothingToArchive"));
+			return 0;
+		}
 
-		// 5. Calculate archive path
-		const relativePath = file.path.slice(this.basePath.length + 1);
-		// relativePath = "work/meetings/note.md"
-		const lastSlash = relativePath.lastIndexOf("/");
-		const categoryPath =
-			lastSlash > 0 ? relativePath.slice(0, lastSlash) : "uncategorized";
+		const choice = options.resolution
+			? { resolution: options.resolution }
+			: await new ArchiveModal(this.app, await this.getResolutions(), archivable.length, options.suggestion).pick();
+		if (!choice) {
+			return 0; // Cancelled
+		}
 
-		const archiveDir = normalizePath(
-			`${this.basePath}/_archive/${categoryPath}`
-		);
-		const archivePath = normalizePath(`${archiveDir}/${file.name}`);
+		const { resolution } = choice;
+		let archived = 0;
+		const failures: string[] = [];
+		for (const { file, category } of archivable) {
+			const path = file.path;
+			try {
+				await this.applyResolution(file, category, resolution, choice);
+				archived++;
+			} catch (e) {
+				console.error(`[ArchivistBot] Failed to archive ${path}:`, e);
+				failures.push(`${path}: ${e instanceof Error ? e.message : String(e)}`);
+			}
+		}
+
+		const lines = [t("notice.archivedMany", { count: archived, resolution: resolution.label })];
+		if (skipped > 0) {
+			lines.push(t("notice.archiveSkipped", { count: skipped }));
+		}
+		if (failures.length > 0) {
+			lines.push(t("notice.archiveFailed", { count: failures.length }), ...failures);
+		}
+		new Notice(lines.join("\n"), failures.length > 0 ? 0 : undefined);
+		return archived;
+	}
+
+	/**
+	 * Category of a note bulk archiving applies to, null for other files.
+	 */
+	private bulkCategory(file: TFile): string | null {
+		if (!this.canArchive(file)) {
+			return null;
+		}
+		const id: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.[ARCHIVIST_ID_KEY];
+		return typeof id === "string" && id ? this.categoryOf(file) : null;
+	}
+
+	/**
+	 * Summary and tags from the frontmatter, task completion from the body.
+	 */
+	private async notePreview(file: TFile): Promise<NotePreview> {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+		const summary: unknown = fm.summary;
+		const tags: unknown = fm.tags;
+		const { done, total } = taskProgress(await this.app.vault.cachedRead(file));
+		return {
+			summary: typeof summary === "string" ? summary : "",
+			tags: Array.isArray(tags) ? tags.map(String) : typeof tags === "string" ? tags.split(/[\s,]+/).filter(Boolean) : [],
+			tasksDone: done,
+			tasksTotal: total,
+		};
+	}
+
+	/**
+	 * Set resolution (and the optional comment and follow-up date) in
+	 * frontmatter and move the note to the archive (or to the trash, for
+	 * trash resolutions).
+	 */
+	private async applyResolution(
+		file: TFile,
+		category: string,
+		resolution: ArchiveResolution,
+		details: ArchiveDetails = {},
+	): Promise<void> {
+		const originalPath = file.path;
+		if (resolution.trash) {
+			await this.app.fileManager.trashFile(file);
+			this.onTrashed?.(originalPath);
+			try {
+				await this.categoryIndex?.noteRemoved(category, originalPath);
+			} catch (e) {
+				console.warn("[ArchivistBot] Failed to update category index:", e);
+			}
+			return;
+		}
+
+		// 4. Update frontmatter (original path: restore and reconciliation)
+		const archivedAt = new Date().toISOString();
+		let created = archivedAt;
+		await this.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
+			fm.resolution = resolution.value;
+			fm.archived_at = archivedAt.slice(0, 19); // YYYY-MM-DDTHH:mm:ss
+			fm[ARCHIVED_FROM_KEY] = file.path;
+			if (details.comment) {
+				fm.resolution_note = details.comment;
+			}
+			if (details.followUp) {
+				fm.follow_up = details.followUp;
+			}
+			if (typeof fm.created === "string" && fm.created) {
+				created = fm.created;
+			}
+		});
+
+		// 5. Calculate archive path: _archive/<category or resolution folder>[/<date partition>]/<name>
+		const partition = partitionFolder(created, this.datePartition);
+		const archiveDir = archiveFolder(this.basePath, resolution.folder || category, partition);
 
 		// 6. Create folders recursively
 		await this.ensureFolder(archiveDir);
 
-		// 7. Move file
-		await this.app.fileManager.renameFile(file, archivePath);
+		// 7. Move file, next to any note archived earlier under the same name
+		await this.app.fileManager.renameFile(file, this.freeArchivePath(archiveDir, file));
+
+		// 8. Move the entry to "recently archived" in the category index
+		try {
+			await this.categoryIndex?.noteArchived(file, originalPath, resolution);
+		} catch (e) {
+			console.warn("[ArchivistBot] Failed to update category index:", e);
+		}
+	}
 
-		new Notice(`Archived: ${resolution}`);
+	/**
+	 * Free path for `file` in `dir`: its own name, or "Name 2.md",
+	 * "Name 3.md", … when that name is taken.
+	 */
+	private freeArchivePath(dir: string, file: TFile): string {
+		let path = normalizePath(`${dir}/${file.name}`);
+		for (let counter = 2; this.app.vault.getAbstractFileByPath(path); counter++) {
+			path = normalizePath(`${dir}/${file.basename} ${counter}.${file.extension}`);
+		}
+		return path;
 	}
 
 	private async ensureFolder(path: string): Promise<void> {
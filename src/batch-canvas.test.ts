@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { App } from "obsidian";
+import { BatchCanvas } from "./batch-canvas";
+import { NoteWriter } from "./note-writer";
+import { setLocale } from "./i18n";
+import type { NoteResponse } from "./types";
+
+function makeNote(id: string, name: string): NoteResponse {
+	return {
+		id,
+		name,
+		content: "content",
+		category: "work",
+		tags: [],
+		summary: `About ${name}`,
+		created_at: "2026-02-11T12:00:00Z",
+		source_batch_id: "batch-1",
+	};
+}
+
+interface Canvas {
+	nodes: { id: string; type: string; file?: string; text?: string }[];
+	edges: { fromNode: string; toNode: string }[];
+}
+
+function readCanvas(app: App, batchId = "batch-1"): Canvas | null {
+	const content = (app.vault as any)._getFile(`VoiceNotes/_batches/${batchId}.canvas`) as string | undefined;
+	return content ? (JSON.parse(content) as Canvas) : null;
+}
+
+async function writeNotes(writer: NoteWriter, notes: NoteResponse[]): Promise<{ note: NoteResponse; path: string }[]> {
+	const written = [];
+	for (const note of notes) {
+		written.push({ note, path: (await writer.write(note))! });
+	}
+	return written;
+}
+
+describe("BatchCanvas", () => {
+	beforeEach(() => {
+		setLocale("en");
+	});
+
+	it("links the notes of a batch to a summary node", async () => {
+		const app = new App();
+		const writer = new NoteWriter(app, "VoiceNotes");
+		const canvas = new BatchCanvas(app, "VoiceNotes");
+
+		const written = await writeNotes(writer, [makeNote("a", "Plan"), makeNote("b", "Budget")]);
+		await canvas.addNotes("batch-1", written);
+
+		const data = readCanvas(app)!;
+		expect(data.nodes.filter((n) => n.type === "file").map((n) => n.file)).toEqual(written.map((w) => w.path));
+		expect(data.edges).toEqual([
+			expect.objectContaining({ fromNode: "batch-summary", toNode: "a" }),
+			expect.objectContaining({ fromNode: "batch-summary", toNode: "b" }),
+		]);
+		const summary = data.nodes.find((n) => n.id === "batch-summary")!;
+		expect(summary.text).toContain("## Notes from one message");
+		expect(summary.text).toContain("- Plan_20260211_120000: About Plan");
+	});
+
+	it("creates no canvas for a single note", async () => {
+		const app = new App();
+		const writer = new NoteWriter(app, "VoiceNotes");
+		const canvas = new BatchCanvas(app, "VoiceNotes");
+
+		await canvas.addNotes("batch-1", await writeNotes(writer, [makeNote("a", "Plan")]));
+
+		expect(readCanvas(app)).toBeNull();
+	});
+
+	it("creates the canvas when a batch arrives one note per sync", async () => {
+		const app = new App();
+		const writer = new NoteWriter(app, "VoiceNotes");
+		const canvas = new BatchCanvas(app, "VoiceNotes");
+
+		await canvas.addNotes("batch-1", await writeNotes(writer, [makeNote("a", "Plan")]));
+		await canvas.addNotes("batch-1", await writeNotes(writer, [makeNote("b", "Budget")]));
+
+		const data = readCanvas(app)!;
+		expect(data.nodes.filter((n) => n.type === "file").map((n) => n.id)).toEqual(["a", "b"]);
+	});
+
+	it("keeps earlier notes when a batch grows", async () => {
+		const app = new App();
+		const writer = new NoteWriter(app, "VoiceNotes");
+		const canvas = new BatchCanvas(app, "VoiceNotes");
+
+		await canvas.addNotes("batch-1", await writeNotes(writer, [makeNote("a", "Plan"), makeNote("b", "Budget")]));
+		await canvas.addNotes("batch-1", await writeNotes(writer, [makeNote("c", "Hiring")]));
+
+		expect(readCanvas(app)!.nodes.map((n) => n.id)).toEqual(["batch-summary", "a", "b", "c"]);
+	});
+
+	it("builds a canvas from the notes in the vault", async () => {
+		const app = new App();
+		const writer = new NoteWriter(app, "VoiceNotes");
+		const canvas = new BatchCanvas(app, "VoiceNotes");
+		await writeNotes(writer, [makeNote("a", "Plan"), { ...makeNote("x", "Other"), source_batch_id: "batch-2" }]);
+
+		const file = await canvas.build("batch-1");
+
+		expect(file.path).toBe("VoiceNotes/_batches/batch-1.canvas");
+		expect(readCanvas(app)!.nodes.map((n) => n.id)).toEqual(["batch-summary", "a"]);
+	});
+});
@@ -0,0 +1,219 @@
+// src/batch-canvas.ts
+import { App, TFile, TFolder, moment, normalizePath } from "obsidian";
+import type { NoteResponse } from "./types";
+import { ARCHIVIST_ID_KEY } from "./note-index";
+import { readFrontmatter } from "./note-writer";
+import { t } from "./i18n";
+
+/** Folder (under the base path) holding batch canvases. */
+const CANVAS_FOLDER = "_batches";
+
+/** Id of the summary text node in the middle of a batch canvas. */
+const SUMMARY_NODE_ID = "batch-summary";
+
+const SUMMARY_SIZE = { width: 400, height: 240 };
+const NOTE_SIZE = { width: 400, height: 300 };
+
+/** Node of an Obsidian `.canvas` file (JSON Canvas). */
+interface CanvasNode {
+	id: string;
+	type: "text" | "file";
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	text?: string;
+	file?: string;
+}
+
+interface CanvasEdge {
+	id: string;
+	fromNode: string;
+	toNode: string;
+}
+
+interface CanvasData {
+	nodes: CanvasNode[];
+	edges: CanvasEdge[];
+}
+
+/** A note written in this sync run and where it was written to. */
+export interface WrittenNote {
+	note: NoteResponse;
+	path: string;
+}
+
+/**
+ * Generates an Obsidian canvas per smart-split batch (notes sharing a
+ * `source_batch_id`): the notes as file nodes around a summary text node,
+ * each connected to it by an edge.
+ *
+ * Canvases live in `<basePath>/_batches/<batch id>.canvas` and are
+ * regenerated (layout included) whenever notes are added to a batch.
+ */
+export class BatchCanvas {
+	constructor(
+		private app: App,
+		private basePath: string,
+	) {}
+
+	/**
+	 * Update the base path (when settings change).
+	 */
+	setBasePath(basePath: string): void {
+		this.basePath = basePath;
+	}
+
+	/**
+	 * Vault path of the canvas of a batch.
+	 */
+	canvasPath(batchId: string): string {
+		const name = batchId.replace(/[\\/:*?"<>|#^[\]]/g, "_");
+		return normalizePath(`${this.basePath}/${CANVAS_FOLDER}/${name}.canvas`);
+	}
+
+	/**
+	 * Add written notes of a batch to its canvas. A canvas is only
+	 * created once the batch has at least two notes; without one, notes
+	 * of the batch written in earlier sync runs are found in the vault.
+	 */
+	async addNotes(batchId: string, notes: WrittenNote[]): Promise<void> {
+		const existing = this.app.vault.getAbstractFileByPath(this.canvasPath(batchId));
+		const files = existing instanceof TFile ? new Map<string, string>() : this.batchFiles(batchId);
+		if (existing instanceof TFile) {
+			for (const node of parseCanvas(await this.app.vault.read(existing)).nodes) {
+				if (node.type === "file" && node.file) {
+					files.set(node.id, node.file);
+				}
+			}
+		}
+		for (const { note, path } of notes) {
+			files.set(note.id, path);
+		}
+
+		if (files.size < 2 && !(existing instanceof TFile)) {
+			return;
+		}
+		await this.write(batchId, files);
+	}
+
+	/**
+	 * Generate the canvas of a batch from the notes in the vault
+	 * with this `source_batch_id` (any number of notes).
+	 */
+	async build(batchId: string): Promise<TFile> {
+		return this.write(batchId, this.batchFiles(batchId));
+	}
+
+	/**
+	 * Notes in the vault with this `source_batch_id`: note id → path.
+	 */
+	private batchFiles(batchId: string): Map<string, string> {
+		const files = new Map<string, string>();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (fm?.source_batch_id === batchId) {
+				const id: unknown = fm[ARCHIVIST_ID_KEY];
+				files.set(typeof id === "string" && id ? id : file.path, file.path);
+			}
+		}
+		return files;
+	}
+
+	/**
+	 * Write the canvas for note id → path: summary in the middle,
+	 * notes on a circle around it.
+	 */
+	private async write(batchId: string, files: Map<string, string>): Promise<TFile> {
+		const entries = [...files.entries()];
+		const radius = Math.max(500, entries.length * 130);
+		const data: CanvasData = {
+			nodes: [{
+				id: SUMMARY_NODE_ID,
+				type: "text",
+				text: await this.summaryText(entries.map(([, path]) => path)),
+				x: -SUMMARY_SIZE.width / 2,
+				y: -SUMMARY_SIZE.height / 2,
+				...SUMMARY_SIZE,
+			}],
+			edges: [],
+		};
+
+		entries.forEach(([id, path], i) => {
+			const angle = (2 * Math.PI * i) / entries.length - Math.PI / 2;
+			data.nodes.push({
+				id,
+				type: "file",
+				file: path,
+				x: Math.round(radius * Math.cos(angle) - NOTE_SIZE.width / 2),
+				y: Math.round(radius * Math.sin(angle) - NOTE_SIZE.height / 2),
+				...NOTE_SIZE,
+			});
+			data.edges.push({ id: `edge-${id}`, fromNode: SUMMARY_NODE_ID, toNode: id });
+		});
+
+		const path = this.canvasPath(batchId);
+		const content = JSON.stringify(data, null, "\t");
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, content);
+			return existing;
+		}
+		await this.ensureFolder(path.slice(0, path.lastIndexOf("/")));
+		return this.app.vault.create(path, content);
+	}
+
+	/**
+	 * Summary node text: message time and the summary of every note.
+	 */
+	private async summaryText(paths: string[]): Promise<string> {
+		const lines: string[] = [];
+		let created: string | null = null;
+		for (const path of paths) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			const fm = file instanceof TFile ? readFrontmatter(await this.app.vault.read(file)) : null;
+			const name = path.slice(path.lastIndexOf("/") + 1).replace(/\.md$/, "");
+			const summary = typeof fm?.summary === "string" && fm.summary ? `: ${fm.summary}` : "";
+			lines.push(`- ${name}${summary}`);
+			if (typeof fm?.created === "string" && (!created || fm.created < created)) {
+				created = fm.created;
+			}
+		}
+
+		const header = [`## ${t("canvas.title")}`];
+		if (created) {
+			header.push(moment.utc(created).local().format("YYYY-MM-DD HH:mm"));
+		}
+		return [...header, "", ...lines].join("\n");
+	}
+
+	private async ensureFolder(path: string): Promise<void> {
+		if (!path || this.app.vault.getAbstractFileByPath(path) instanceof TFolder) {
+			return;
+		}
+
+		const parts = path.split("/");
+		let current = "";
+		for (const part of parts) {
+			current = current ? `${current}/${part}` : part;
+			if (!this.app.vault.getAbstractFileByPath(current)) {
+				await this.app.vault.createFolder(current);
+			}
+		}
+	}
+}
+
+/**
+ * Parse canvas JSON, an empty canvas when invalid.
+ */
+function parseCanvas(content: string): CanvasData {
+	try {
+		const data = JSON.parse(content) as Partial<CanvasData>;
+		return {
+			nodes: Array.isArray(data.nodes) ? data.nodes : [],
+			edges: Array.isArray(data.edges) ? data.edges : [],
+		};
+	} catch {
+		return { nodes: [], edges: [] };
+	}
+}
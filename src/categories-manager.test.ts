@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { Vault, Notice } from "obsidian";
 import { CategoriesManager } from "./categories-manager";
+import { setLocale } from "./i18n";
 
 function createManager(): { vault: Vault; manager: CategoriesManager } {
 	const vault = new Vault();
@@ -264,6 +265,40 @@ describe("CategoriesManager", () => {
 		});
 	});
 
+	describe("localization", () => {
+		afterEach(() => {
+			setLocale("en");
+		});
+
+		it("writes header and legend in the current language", async () => {
+			setLocale("ru");
+			const { vault, manager } = createManager();
+
+			await manager.ensureExists();
+
+			const content = (vault as any)._getFile("VoiceNotes/categories.md");
+			expect(content).toContain("| Категория | Описание | Напоминание | Календарь |");
+			expect(content).toContain("| work | Рабочие задачи | daily | google |");
+		});
+
+		it("parses tables with localized headers", async () => {
+			const { vault, manager } = createManager();
+			const content = [
+				"| Категория | Описание | Напоминание | Календарь |",
+				"| --- | --- | --- | --- |",
+				"| work | Работа | daily | google |",
+				"",
+			].join("\n");
+			(vault as any)._addFile("VoiceNotes/categories.md", content);
+
+			const result = await manager.read();
+
+			expect(result).toEqual([
+				{ name: "work", description: "Работа", reminder: "daily", calendar: "google" },
+			]);
+		});
+	});
+
 	describe("read without file", () => {
 		it("returns default categories when file does not exist", async () => {
 			const { manager } = createManager();
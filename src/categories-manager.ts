@@ -1,15 +1,19 @@
 // src/categories-manager.ts
 import { Vault, TFile, normalizePath, Notice } from "obsidian";
 import type { CategoryItem } from "./types";
-
-const CATEGORIES_FILENAME = "categories.md";
-
-const DEFAULT_CATEGORIES: CategoryItem[] = [
-	{ name: "work", description: "Рабочие задачи", reminder: "daily", calendar: "google" },
-	{ name: "personal", description: "Личные дела", reminder: "weekly" },
-	{ name: "ideas", description: "Идеи и мысли", reminder: "monthly" },
-	{ name: "health", description: "Здоровье, спорт", reminder: "weekly" },
-];
+import { t } from "./i18n";
+
+export const CATEGORIES_FILENAME = "categories.md";
+
+/** Default categories, descriptions in the current language. */
+function defaultCategories(): CategoryItem[] {
+	return [
+		{ name: "work", description: t("categories.default.work"), reminder: "daily", calendar: "google" },
+		{ name: "personal", description: t("categories.default.personal"), reminder: "weekly" },
+		{ name: "ideas", description: t("categories.default.ideas"), reminder: "monthly" },
+		{ name: "health", description: t("categories.default.health"), reminder: "weekly" },
+	];
+}
 
 /**
  * Manages categories.md file in vault root.
@@ -60,7 +64,7 @@ export class CategoriesManager {
 			await this.vault.createFolder(this.basePath);
 		}
 
-		const content = this.formatAsMarkdown(DEFAULT_CATEGORIES);
+		const content = this.formatAsMarkdown(defaultCategories());
 		await this.vault.create(this.filePath, content);
 	}
 
@@ -70,7 +74,7 @@ export class CategoriesManager {
 	async read(): Promise<CategoryItem[]> {
 		const file = this.vault.getAbstractFileByPath(this.filePath);
 		if (!(file instanceof TFile)) {
-			return DEFAULT_CATEGORIES;
+			return defaultCategories();
 		}
 
 		const content = await this.vault.read(file);
@@ -108,6 +112,8 @@ export class CategoriesManager {
 	/**
 	 * Parse markdown table into CategoryItem array.
 	 * Supports both 2-column (name, description) and 3-column (name, description, reminder) tables.
+	 * The header row is recognized by the separator row below it,
+	 * so localized (or renamed) column titles work.
 	 */
 	private parseMarkdown(content: string): CategoryItem[] {
 		const categories: CategoryItem[] = [];
@@ -116,15 +122,15 @@ export class CategoriesManager {
 		// Detect number of columns from the header row
 		let headerColumnCount = 0;
 
-		for (const line of lines) {
+		for (const [index, line] of lines.entries()) {
 			const trimmed = line.trim();
 			// Skip non-table lines
 			if (!trimmed.startsWith("|")) {
 				continue;
 			}
 
-			// Detect header line to count columns
-			if (trimmed.startsWith("| Category")) {
+			// Detect header line (followed by a separator row) to count columns
+			if (isSeparatorRow(lines[index + 1] ?? "")) {
 				headerColumnCount = trimmed.split("|").map((p) => p.trim()).filter((p, i, arr) => i > 0 && i < arr.length - 1).length;
 				continue;
 			}
@@ -149,7 +155,7 @@ export class CategoriesManager {
 					} else if (CategoriesManager.VALID_REMINDERS.has(parts[3])) {
 						cat.reminder = parts[3] as CategoryItem["reminder"];
 					} else {
-						new Notice(`⚠️ Invalid reminder "${parts[3]}" for category "${parts[1]}" — ignored`);
+						new Notice(t("categories.invalidReminder", { value: parts[3], category: parts[1] }));
 					}
 				}
 				// Only parse calendar if header has 4+ columns (Calendar column exists)
@@ -157,7 +163,7 @@ export class CategoriesManager {
 					if (CategoriesManager.VALID_CALENDARS.has(parts[4])) {
 						cat.calendar = parts[4];
 					} else {
-						new Notice(`⚠️ Invalid calendar "${parts[4]}" for category "${parts[1]}" — ignored`);
+						new Notice(t("categories.invalidCalendar", { value: parts[4], category: parts[1] }));
 					}
 				}
 				categories.push(cat);
@@ -168,11 +174,12 @@ export class CategoriesManager {
 	}
 
 	/**
-	 * Format categories as markdown table (3-column with Reminder).
+	 * Format categories as markdown table (4-column with Reminder and Calendar),
+	 * header and legend in the current language.
 	 */
 	private formatAsMarkdown(categories: CategoryItem[]): string {
 		const lines = [
-			"| Category | Description | Reminder | Calendar |",
+			t("categories.header"),
 			"|----------|-------------|----------|----------|",
 		];
 
@@ -186,18 +193,15 @@ export class CategoriesManager {
 		lines.push("");
 		lines.push("---");
 		lines.push("");
-		lines.push("**Reminder** — как часто получать дайджест непрочитанных заметок в Telegram:");
-		lines.push("- *(пусто)* или `off` — не напоминать");
-		lines.push("- `daily` — каждый день");
-		lines.push("- `weekly` — раз в неделю");
-		lines.push("- `monthly` — раз в месяц");
-		lines.push("");
-		lines.push("**Calendar** — автоматически создавать событие, если в заметке есть дата/время:");
-		lines.push("- *(пусто)* — не создавать");
-		lines.push("- `google` — Google Calendar");
-		lines.push("");
-		lines.push("Подкатегории: `work/meetings`, `projects/coding` и т.д. — добавляйте когда появится реальная потребность.");
+		lines.push(t("categories.legend"));
 
 		return lines.join("\n") + "\n";
 	}
 }
+
+/**
+ * Check for a table separator row: |---|---| or | :--- | ---: |
+ */
+function isSeparatorRow(line: string): boolean {
+	return /^\|(\s*:?-+:?\s*\|)+$/.test(line.trim());
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { App, TFile } from "obsidian";
+import { CategoryIndexer } from "./category-index";
+import { NoteWriter } from "./note-writer";
+import { setLocale } from "./i18n";
+import type { NoteResponse } from "./types";
+
+function makeNote(overrides: Partial<NoteResponse> = {}): NoteResponse {
+	return {
+		id: "note-1",
+		name: "Plan",
+		content: "content",
+		category: "work",
+		tags: ["q1"],
+		summary: "Quarter plan",
+		// Midday mid-month: the same local date in every timezone
+		created_at: "2026-02-11T12:00:00Z",
+		...overrides,
+	};
+}
+
+function setup(): { app: App; writer: NoteWriter; indexer: CategoryIndexer } {
+	const app = new App();
+	const writer = new NoteWriter(app, "VoiceNotes");
+	const indexer = new CategoryIndexer(app, "VoiceNotes");
+	writer.setCategoryIndex(indexer);
+	return { app, writer, indexer };
+}
+
+function indexOf(app: App, category = "work"): string {
+	return (app.vault as any)._getFile(`VoiceNotes/${category}/_index.md`) as string;
+}
+
+describe("CategoryIndexer", () => {
+	beforeEach(() => {
+		setLocale("en");
+	});
+
+	it("lists written notes by month with summary, tags and open tasks", async () => {
+		const { app, writer } = setup();
+
+		await writer.write(makeNote({ action_items: ["Draft", "Review"] }));
+		await writer.write(makeNote({ id: "note-2", name: "Old", created_at: "2026-01-15T12:00:00Z", tags: [] }));
+
+		expect(indexOf(app)).toBe([
+			"---",
+			'archivist_index: "work"',
+			"---",
+			"",
+			"# work",
+			"",
+			"## Open notes",
+			"",
+			"### 2026-02",
+			"",
+			"- 2026-02-11 [[VoiceNotes/work/Plan_20260211_120000|Plan_20260211_120000]] — Quarter plan · #q1 · open tasks: 2",
+			"",
+			"### 2026-01",
+			"",
+			"- 2026-01-15 [[VoiceNotes/work/Old_20260115_120000|Old_20260115_120000]] — Quarter plan",
+			"",
+		].join("\n"));
+	});
+
+	it("refreshes the entry of an appended note instead of adding one", async () => {
+		const { app, writer } = setup();
+		const path = await writer.write(makeNote());
+
+		await writer.write(makeNote({ id: "reply", action_items: ["Call back"], append_to: path! }));
+
+		const index = indexOf(app);
+		expect(index.match(/Plan_20260211_120000\|/g)).toHaveLength(1);
+		expect(index).toContain("open tasks: 1");
+	});
+
+	it("moves archived notes to the recently archived section", async () => {
+		const { app, writer, indexer } = setup();
+		const path = await writer.write(makeNote());
+		const content = (app.vault as any)._getFile(path!) as string;
+		const archivedPath = "VoiceNotes/_archive/work/Plan_20260211_120000.md";
+		(app.vault as any)._addFile(archivedPath, content);
+
+		const delegated = { value: "delegated", label: "Handed off", icon: "send", folder: "", trash: false };
+		await indexer.noteArchived(new TFile(archivedPath), path!, delegated);
+
+		const index = indexOf(app);
+		expect(index).toContain("No open notes.");
+		expect(index).toMatch(
+			/## Recently archived\n\n- \d{4}-\d{2}-\d{2} \[\[VoiceNotes\/_archive\/work\/Plan_20260211_120000\|Plan_20260211_120000\]\] — Handed off\n$/,
+		);
+	});
+
+	it("rebuilds all indexes from a vault scan", async () => {
+		const { app, indexer } = setup();
+		(app.vault as any)._addFile("VoiceNotes/work/a.md", "---\narchivist_id: a\ncategory: work\ncreated: 2026-02-11T12:00:00Z\n---\n\n- [ ] open\n- [x] done");
+		(app.vault as any)._addFile("VoiceNotes/ideas/b.md", "---\narchivist_id: b\ncategory: ideas\ncreated: 2026-02-11T12:00:00Z\n---\n\nText");
+		(app.vault as any)._addFile(
+			"VoiceNotes/_archive/ideas/c.md",
+			"---\narchivist_id: c\ncategory: ideas\nresolution: dropped\narchived_at: 2026-02-20T10:00:00\n---\n",
+		);
+		(app.vault as any)._addFile("VoiceNotes/work/manual.md", "No frontmatter");
+
+		expect(await indexer.rebuildAll()).toBe(2);
+
+		expect(indexOf(app)).toContain("- 2026-02-11 [[VoiceNotes/work/a|a]] · open tasks: 1");
+		expect(indexOf(app)).not.toContain("manual");
+		expect(indexOf(app, "ideas")).toContain("- 2026-02-20 [[VoiceNotes/_archive/ideas/c|c]] — Dropped");
+	});
+
+	it("lists archived notes with the configured resolution labels", async () => {
+		const { app, indexer } = setup();
+		const archived = (id: string, resolution: string) =>
+			`---\narchivist_id: ${id}\ncategory: ideas\nresolution: ${resolution}\narchived_at: 2026-02-20T10:00:00\n---\n`;
+		(app.vault as any)._addFile("VoiceNotes/_archive/ideas/c.md", archived("c", "dropped"));
+		(app.vault as any)._addFile("VoiceNotes/_archive/ideas/d.md", archived("d", "merged"));
+
+		await indexer.rebuildAll([{ value: "dropped", label: "Let go", icon: "x", folder: "", trash: false }]);
+
+		expect(indexOf(app, "ideas")).toContain("[[VoiceNotes/_archive/ideas/c|c]] — Let go");
+		expect(indexOf(app, "ideas")).toContain("[[VoiceNotes/_archive/ideas/d|d]] — merged");
+	});
+});
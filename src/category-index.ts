@@ -0,0 +1,316 @@
+// src/category-index.ts
+import { App, TFile, TFolder, moment, normalizePath } from "obsidian";
+import { ARCHIVIST_ID_KEY } from "./note-index";
+import { readFrontmatter } from "./note-writer";
+import { categoryFolder, categoryForPath, isArchivedPath } from "./vault-layout";
+import type { FolderMapping } from "./vault-layout";
+import { allTranslations, t } from "./i18n";
+import { defaultResolutions } from "./resolutions-manager";
+import type { ArchiveResolution } from "./resolutions-manager";
+
+/** File name of the index note in each category folder. */
+export const INDEX_FILENAME = "_index.md";
+
+/** Frontmatter key marking an index note (value: its category). */
+const INDEX_KEY = "archivist_index";
+
+/** Recently archived notes listed per index. */
+const MAX_ARCHIVED = 20;
+
+/** One list line of an index note. */
+interface IndexEntry {
+	/** YYYY-MM-DD: created (open notes) or archived (archived notes) */
+	date: string;
+	/** Vault path the entry links to */
+	path: string;
+	line: string;
+}
+
+interface IndexModel {
+	open: IndexEntry[];
+	archived: IndexEntry[];
+}
+
+/** Entry line: `- 2026-02-11 [[path|name]] …` */
+const ENTRY_LINE = /^- (\d{4}-\d{2}-\d{2}) \[\[([^|\]]+)(?:\|[^\]]*)?\]\]/;
+
+/**
+ * Maintains an index note (`_index.md`) in each category folder:
+ * open notes grouped by month with summary, tags and open action-item
+ * count, and the recently archived notes with their resolution.
+ *
+ * Updates are incremental — one entry is replaced per written or
+ * archived note; `rebuildAll()` regenerates every index from a vault scan.
+ */
+export class CategoryIndexer {
+	private folderMappings: FolderMapping[] = [];
+
+	constructor(
+		private app: App,
+		private basePath: string,
+	) {}
+
+	/**
+	 * Update the base path (when settings change).
+	 */
+	setBasePath(basePath: string): void {
+		this.basePath = basePath;
+	}
+
+	/**
+	 * Set category → folder mappings (index notes live in category folders).
+	 */
+	setFolderMappings(mappings: FolderMapping[]): void {
+		this.folderMappings = mappings;
+	}
+
+	/**
+	 * Vault path of the index note of a category.
+	 */
+	indexPath(category: string): string {
+		return normalizePath(`${categoryFolder(this.basePath, this.folderMappings, category)}/${INDEX_FILENAME}`);
+	}
+
+	/**
+	 * Add or refresh the entry of a created or appended note.
+	 */
+	async noteWritten(path: string): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			return;
+		}
+		const note = await this.readNote(file);
+		if (!note) {
+			return;
+		}
+		await this.update(note.category, (model) => {
+			model.open = model.open.filter((e) => e.path !== file.path);
+			model.open.push(this.openEntry(file, note.frontmatter, note.content));
+		});
+	}
+
+	/**
+	 * Move a note's entry from the open notes to the recently archived ones.
+	 *
+	 * @param file The note at its archive location
+	 * @param originalPath Path of the note before archiving
+	 * @param resolution Resolution the note was archived with (its label is listed)
+	 */
+	async noteArchived(file: TFile, originalPath: string, resolution: ArchiveResolution): Promise<void> {
+		const note = await this.readNote(file);
+		if (!note) {
+			return;
+		}
+		await this.update(note.category, (model) => {
+			model.open = model.open.filter((e) => e.path !== originalPath);
+			model.archived = model.archived.filter((e) => e.path !== file.path);
+			model.archived.push(archivedEntry(file, resolution.label, new Date().toISOString()));
+		});
+	}
+
+	/**
+	 * Move a note's entry from the recently archived notes back to the open ones.
+	 *
+	 * @param file The note at its restored location
+	 * @param archivedPath Path of the note in the archive
+	 */
+	async noteRestored(file: TFile, archivedPath: string): Promise<void> {
+		const note = await this.readNote(file);
+		if (!note) {
+			return;
+		}
+		await this.update(note.category, (model) => {
+			model.archived = model.archived.filter((e) => e.path !== archivedPath);
+			model.open = model.open.filter((e) => e.path !== file.path);
+			model.open.push(this.openEntry(file, note.frontmatter, note.content));
+		});
+	}
+
+	/**
+	 * Drop the entry of a note that was deleted (trash resolutions).
+	 */
+	async noteRemoved(category: string, path: string): Promise<void> {
+		await this.update(category, (model) => {
+			model.open = model.open.filter((e) => e.path !== path);
+		});
+	}
+
+	/**
+	 * Regenerate the index notes of all categories from the notes in the vault.
+	 * @param resolutions Resolutions whose labels archived notes are listed with
+	 *   (other values are listed as is)
+	 * @returns Number of index notes written
+	 */
+	async rebuildAll(resolutions: ArchiveResolution[] = defaultResolutions()): Promise<number> {
+		const labels = new Map(resolutions.map((r) => [r.value, r.label]));
+		const models = new Map<string, IndexModel>();
+		const modelOf = (category: string): IndexModel => {
+			let model = models.get(category);
+			if (!model) {
+				model = { open: [], archived: [] };
+				models.set(category, model);
+			}
+			return model;
+		};
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (file.name === INDEX_FILENAME) {
+				continue;
+			}
+			const note = await this.readNote(file);
+			if (!note) {
+				continue;
+			}
+			if (isArchivedPath(this.basePath, file.path)) {
+				const { resolution, archived_at } = note.frontmatter;
+				if (typeof resolution === "string") {
+					const archivedAt = typeof archived_at === "string" ? archived_at : "";
+					modelOf(note.category).archived.push(archivedEntry(file, labels.get(resolution) ?? resolution, archivedAt));
+				}
+			} else {
+				modelOf(note.category).open.push(this.openEntry(file, note.frontmatter, note.content));
+			}
+		}
+
+		for (const [category, model] of models) {
+			await this.writeIndex(category, model);
+		}
+		return models.size;
+	}
+
+	/**
+	 * Read a synced note (one with `archivist_id`), null for other files.
+	 */
+	private async readNote(file: TFile): Promise<{
+		category: string;
+		frontmatter: Record<string, unknown>;
+		content: string;
+	} | null> {
+		const content = await this.app.vault.read(file);
+		const frontmatter = readFrontmatter(content);
+		if (!frontmatter || typeof frontmatter[ARCHIVIST_ID_KEY] !== "string") {
+			return null;
+		}
+		const category = typeof frontmatter.category === "string" && frontmatter.category
+			? frontmatter.category
+			: categoryForPath(this.basePath, this.folderMappings, file.path);
+		return category ? { category, frontmatter, content } : null;
+	}
+
+	private openEntry(file: TFile, fm: Record<string, unknown>, content: string): IndexEntry {
+		const created = typeof fm.created === "string"
+			? moment.utc(fm.created).local().format("YYYY-MM-DD")
+			: "0000-00-00";
+		const parts = [`- ${created} ${wikilink(file)}`];
+		if (typeof fm.summary === "string" && fm.summary) {
+			parts.push(`— ${fm.summary}`);
+		}
+		const details: string[] = [];
+		if (Array.isArray(fm.tags) && fm.tags.length > 0) {
+			details.push(fm.tags.map((tag) => `#${String(tag)}`).join(" "));
+		}
+		const openTasks = content.split("\n").filter((line) => /^\s*- \[ \]/.test(line)).length;
+		if (openTasks > 0) {
+			details.push(t("index.openTasks", { count: openTasks }));
+		}
+		const line = details.length > 0 ? `${parts.join(" ")} · ${details.join(" · ")}` : parts.join(" ");
+		return { date: created, path: file.path, line };
+	}
+
+	/**
+	 * Read the index of a category, apply `change` and write it back.
+	 */
+	private async update(category: string, change: (model: IndexModel) => void): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(this.indexPath(category));
+		const model = file instanceof TFile
+			? parseIndex(await this.app.vault.read(file))
+			: { open: [], archived: [] };
+		change(model);
+		await this.writeIndex(category, model);
+	}
+
+	private async writeIndex(category: string, model: IndexModel): Promise<void> {
+		const content = renderIndex(category, model);
+		const path = this.indexPath(category);
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (file instanceof TFile) {
+			await this.app.vault.modify(file, content);
+		} else {
+			await this.ensureFolder(path.slice(0, path.lastIndexOf("/")));
+			await this.app.vault.create(path, content);
+		}
+	}
+
+	private async ensureFolder(path: string): Promise<void> {
+		if (!path || this.app.vault.getAbstractFileByPath(path) instanceof TFolder) {
+			return;
+		}
+
+		const parts = path.split("/");
+		let current = "";
+		for (const part of parts) {
+			current = current ? `${current}/${part}` : part;
+			if (!this.app.vault.getAbstractFileByPath(current)) {
+				await this.app.vault.createFolder(current);
+			}
+		}
+	}
+}
+
+function wikilink(file: TFile): string {
+	return `[[${file.path.replace(/\.md$/, "")}|${file.basename}]]`;
+}
+
+function archivedEntry(file: TFile, label: string, archivedAt: string): IndexEntry {
+	const date = archivedAt.slice(0, 10) || "0000-00-00";
+	return { date, path: file.path, line: `- ${date} ${wikilink(file)} — ${label}` };
+}
+
+/**
+ * Read entries back from an index note. Sections are recognized by their
+ * headings in any language; other lines are regenerated on write.
+ */
+function parseIndex(content: string): IndexModel {
+	const model: IndexModel = { open: [], archived: [] };
+	const archivedHeadings = allTranslations("index.archived").map((h) => `## ${h}`);
+	let inArchived = false;
+
+	for (const line of content.split("\n")) {
+		if (/^## /.test(line)) {
+			inArchived = archivedHeadings.includes(line.trim());
+			continue;
+		}
+		const match = line.match(ENTRY_LINE);
+		if (match) {
+			(inArchived ? model.archived : model.open).push({ date: match[1], path: `${match[2]}.md`, line });
+		}
+	}
+	return model;
+}
+
+/**
+ * Render an index note: open notes by month (newest first),
+ * then the most recently archived notes.
+ */
+function renderIndex(category: string, model: IndexModel): string {
+	const byDateDesc = (a: IndexEntry, b: IndexEntry) => b.date.localeCompare(a.date) || a.path.localeCompare(b.path);
+	const lines = ["---", `${INDEX_KEY}: ${JSON.stringify(category)}`, "---", "", `# ${category}`, "", `## ${t("index.open")}`];
+
+	let month = "";
+	for (const entry of [...model.open].sort(byDateDesc)) {
+		if (entry.date.slice(0, 7) !== month) {
+			month = entry.date.slice(0, 7);
+			lines.push("", `### ${month}`, "");
+		}
+		lines.push(entry.line);
+	}
+	if (model.open.length === 0) {
+		lines.push("", t("index.empty"));
+	}
+
+	const archived = [...model.archived].sort(byDateDesc).slice(0, MAX_ARCHIVED);
+	if (archived.length > 0) {
+		lines.push("", `## ${t("index.archived")}`, "", ...archived.map((e) => e.line));
+	}
+	return lines.join("\n") + "\n";
+}
@@ -4,6 +4,7 @@ import { RefreshTokenExpiredError } from "./api-client";
 import type { ArchivistApiClient } from "./api-client";
 import { CategoriesManager } from "./categories-manager";
 import { TagsManager } from "./tags-manager";
+import { t } from "./i18n";
 
 export type SyncStatus = "synced" | "pending" | "error" | "offline";
 
@@ -51,6 +52,14 @@ export class ConfigSync {
 		return this.status;
 	}
 
+	/**
+	 * Read category names from categories.md.
+	 */
+	async getCategoryNames(): Promise<string[]> {
+		const categories = await this.categoriesManager.read();
+		return categories.map((c) => c.name);
+	}
+
 	/**
 	 * Initialize: create default files, send init to server, pull tags.
 	 *
@@ -73,11 +82,9 @@ export class ConfigSync {
 				const result = await this.client.pluginInit(localCategories);
 
 				if (result.pending_notes > 0) {
-					new Notice(
-						`Plugin connected! ${result.pending_notes} pending notes will be processed.`
-					);
+					new Notice(t("notice.connectedPending", { count: result.pending_notes }));
 				} else {
-					new Notice("Plugin connected!");
+					new Notice(t("notice.connected"));
 				}
 			} else {
 				// Server already has categories — pull them
@@ -91,7 +98,7 @@ export class ConfigSync {
 			this.setStatus("synced");
 		} catch (e) {
 			if (e instanceof RefreshTokenExpiredError) {
-				new Notice("Auth token expired. Use /newtoken in Telegram to get a new one.");
+				new Notice(t("notice.tokenExpired"));
 				this.setStatus("error");
 				return;
 			}
@@ -156,7 +163,7 @@ export class ConfigSync {
 			this.setStatus("synced");
 		} catch (e) {
 			if (e instanceof RefreshTokenExpiredError) {
-				new Notice("Auth token expired. Use /newtoken in Telegram to get a new one.");
+				new Notice(t("notice.tokenExpired"));
 				this.setStatus("error");
 				return;
 			}
@@ -183,7 +190,7 @@ export class ConfigSync {
 				}
 				await this.client.updateCategories(categories);
 				this.lastPushedCategories = hash;
-				new Notice("Categories synced to server");
+				new Notice(t("notice.categoriesSynced"));
 			} else if (filePath === tagsPath) {
 				const registry = await this.tagsManager.read();
 				const hash = JSON.stringify(registry);
@@ -193,19 +200,19 @@ export class ConfigSync {
 				}
 				await this.client.updateTags(registry);
 				this.lastPushedTags = hash;
-				new Notice("Tags synced to server");
+				new Notice(t("notice.tagsSynced"));
 			}
 
 			this.setStatus("synced");
 		} catch (e) {
 			if (e instanceof RefreshTokenExpiredError) {
-				new Notice("Auth token expired. Use /newtoken in Telegram to get a new one.");
+				new Notice(t("notice.tokenExpired"));
 				this.setStatus("error");
 				return;
 			}
 			console.error("[ArchivistBot] Failed to push config to server:", e);
 			this.setStatus("error");
-			new Notice("Failed to sync config to server");
+			new Notice(t("notice.configPushFailed"));
 		}
 	}
 
@@ -217,7 +224,7 @@ export class ConfigSync {
 		await this.pullFromServer();
 
 		if (this.status === "synced") {
-			new Notice("Config synced from server");
+			new Notice(t("notice.configPulled"));
 		}
 	}
 
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { App, moment } from "obsidian";
+import { DailyNoteLogger } from "./daily-notes";
+import { setLocale } from "./i18n";
+import type { NoteResponse } from "./types";
+
+function makeNote(overrides: Partial<NoteResponse> = {}): NoteResponse {
+	return {
+		id: "note-1",
+		name: "Standup",
+		content: "content",
+		category: "work",
+		tags: [],
+		summary: "Sprint planning",
+		created_at: "2026-02-07T12:00:00Z",
+		...overrides,
+	};
+}
+
+function createLogger(folder = "Daily", format = ""): { app: App; logger: DailyNoteLogger } {
+	const app = new App();
+	const logger = new DailyNoteLogger(app, { heading: "## Voice notes", folder, format });
+	return { app, logger };
+}
+
+/** Local date / time of the default created_at (tests run in any timezone). */
+const created = moment.utc("2026-02-07T12:00:00Z").local();
+const DAY = created.format("YYYY-MM-DD");
+const TIME = created.format("HH:mm");
+
+describe("DailyNoteLogger", () => {
+	beforeEach(() => {
+		setLocale("en");
+	});
+
+	it("creates the daily note with an entry under the heading", async () => {
+		const { app, logger } = createLogger();
+
+		await logger.record(makeNote(), "VoiceNotes/work/Standup.md", "created");
+
+		expect((app.vault as any)._getFile(`Daily/${DAY}.md`)).toBe(
+			`## Voice notes\n\n- ${TIME} [[VoiceNotes/work/Standup|Standup]] · work — Sprint planning %%archivist:note-1%%`,
+		);
+	});
+
+	it("adds entries after existing ones, keeping the rest of the note", async () => {
+		const { app, logger } = createLogger();
+		(app.vault as any)._addFile(
+			`Daily/${DAY}.md`,
+			"# Today\n\n## Voice notes\n\n- 08:00 earlier entry\n\n## Journal\n\nText",
+		);
+
+		await logger.record(makeNote(), "VoiceNotes/work/Standup.md", "created");
+
+		const lines = (app.vault as any)._getFile(`Daily/${DAY}.md`).split("\n");
+		expect(lines[5]).toContain("[[VoiceNotes/work/Standup|Standup]]");
+		expect(lines.slice(6)).toEqual(["", "## Journal", "", "Text"]);
+	});
+
+	it("does not list the same note twice", async () => {
+		const { app, logger } = createLogger();
+
+		await logger.record(makeNote(), "VoiceNotes/work/Standup.md", "created");
+		await logger.record(makeNote(), "VoiceNotes/work/Standup.md", "created");
+
+		const content = (app.vault as any)._getFile(`Daily/${DAY}.md`);
+		expect(content.match(/archivist:note-1/g)).toHaveLength(1);
+	});
+
+	it("describes appended replies as additions", async () => {
+		const { app, logger } = createLogger();
+
+		await logger.record(makeNote({ id: "reply-1" }), "VoiceNotes/work/Standup.md", "appended");
+
+		expect((app.vault as any)._getFile(`Daily/${DAY}.md`)).toContain(
+			`- ${TIME} Reply added to [[VoiceNotes/work/Standup|Standup]] — Sprint planning %%archivist:reply-1%%`,
+		);
+	});
+
+	it("uses the core daily notes folder and format unless overridden", () => {
+		const { app, logger } = createLogger("", "");
+		(app as any).internalPlugins = {
+			getPluginById: () => ({ enabled: true, instance: { options: { folder: "Journal", format: "YYYY/MM/DD" } } }),
+		};
+
+		expect(logger.getDailyNotePath(moment.utc("2026-02-07"))).toBe("Journal/2026/02/07.md");
+
+		logger.setOptions({ heading: "## Voice notes", folder: "Days", format: "DD.MM.YYYY" });
+		expect(logger.getDailyNotePath(moment.utc("2026-02-07"))).toBe("Days/07.02.2026.md");
+	});
+
+	it("falls back to the vault root and YYYY-MM-DD", () => {
+		const { logger } = createLogger("", "");
+
+		expect(logger.getDailyNotePath(moment.utc("2026-02-07"))).toBe("2026-02-07.md");
+	});
+});
@@ -0,0 +1,121 @@
+// src/daily-notes.ts
+import { App, TFile, TFolder, moment, normalizePath } from "obsidian";
+import type { NoteResponse } from "./types";
+import { insertUnderHeading } from "./markdown-sections";
+import { t } from "./i18n";
+
+/** Where entries go; empty folder/format fall back to the core Daily notes settings. */
+export interface DailyNoteOptions {
+	/** Heading line entries are listed under, e.g. "## Voice notes" */
+	heading: string;
+	folder: string;
+	/** moment.js format of daily note file names */
+	format: string;
+}
+
+/** Kind of vault change an entry describes. */
+export type DailyNoteEntryKind = "created" | "appended";
+
+/** Core Daily notes plugin options (not part of the public API). */
+interface CoreDailyNotesOptions {
+	folder?: string;
+	format?: string;
+}
+
+interface AppWithInternalPlugins {
+	internalPlugins?: {
+		getPluginById(id: string): { enabled: boolean; instance?: { options?: CoreDailyNotesOptions } } | null;
+	};
+}
+
+/** Default daily note file name format (same as the core plugin). */
+export const DEFAULT_DAILY_NOTE_FORMAT = "YYYY-MM-DD";
+
+/**
+ * Lists synced notes in the daily note of their creation day.
+ *
+ * Each entry carries a hidden `%%archivist:<id>%%` marker, so re-syncs
+ * of the same note never list it twice.
+ */
+export class DailyNoteLogger {
+	constructor(
+		private app: App,
+		private options: DailyNoteOptions,
+	) {}
+
+	/**
+	 * Update options (when settings change).
+	 */
+	setOptions(options: DailyNoteOptions): void {
+		this.options = options;
+	}
+
+	/**
+	 * Add an entry for a written note to its daily note (created if missing).
+	 *
+	 * @param path Vault path the note was written (or appended) to
+	 */
+	async record(note: NoteResponse, path: string, kind: DailyNoteEntryKind): Promise<void> {
+		const created = moment.utc(note.created_at).local();
+		const dailyPath = this.getDailyNotePath(created);
+		const marker = `%%archivist:${note.id}%%`;
+
+		const existing = this.app.vault.getAbstractFileByPath(dailyPath);
+		let file: TFile;
+		if (existing instanceof TFile) {
+			file = existing;
+		} else {
+			await this.ensureFolder(dailyPath.slice(0, dailyPath.lastIndexOf("/")));
+			file = await this.app.vault.create(dailyPath, "");
+		}
+		const content = await this.app.vault.read(file);
+		if (content.includes(marker)) {
+			return;
+		}
+
+		const link = `[[${path.replace(/\.md$/, "")}|${basename(path)}]]`;
+		const summary = note.summary ? ` — ${note.summary}` : "";
+		const entry = kind === "created"
+			? `- ${created.format("HH:mm")} ${link} · ${note.category}${summary} ${marker}`
+			: `- ${created.format("HH:mm")} ${t("daily.replyAdded")} ${link}${summary} ${marker}`;
+
+		const heading = this.options.heading.trim();
+		const updated = insertUnderHeading(content, [heading], [entry], /^\s*- /, heading);
+		await this.app.vault.modify(file, updated);
+	}
+
+	/**
+	 * Vault path of the daily note for a (local) date.
+	 */
+	getDailyNotePath(date: moment.Moment): string {
+		const core = this.coreOptions();
+		const folder = this.options.folder || core.folder || "";
+		const format = this.options.format || core.format || DEFAULT_DAILY_NOTE_FORMAT;
+		const name = `${date.format(format)}.md`;
+		return normalizePath(folder ? `${folder}/${name}` : name);
+	}
+
+	private coreOptions(): CoreDailyNotesOptions {
+		const plugin = (this.app as unknown as AppWithInternalPlugins).internalPlugins?.getPluginById("daily-notes");
+		return plugin?.enabled ? plugin.instance?.options ?? {} : {};
+	}
+
+	private async ensureFolder(path: string): Promise<void> {
+		if (!path || this.app.vault.getAbstractFileByPath(path) instanceof TFolder) {
+			return;
+		}
+
+		const parts = path.split("/");
+		let current = "";
+		for (const part of parts) {
+			current = current ? `${current}/${part}` : part;
+			if (!this.app.vault.getAbstractFileByPath(current)) {
+				await this.app.vault.createFolder(current);
+			}
+		}
+	}
+}
+
+function basename(path: string): string {
+	return path.slice(path.lastIndexOf("/") + 1).replace(/\.md$/, "");
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_FILE_NAME_PATTERN, formatFileName, validateFileNamePattern } from "./file-name";
+import type { NoteResponse } from "./types";
+
+function makeNote(overrides: Partial<NoteResponse> = {}): NoteResponse {
+	return {
+		id: "abcdef12-3456-7890-abcd-ef1234567890",
+		name: "Test Note",
+		content: "content",
+		category: "work/meetings",
+		tags: [],
+		summary: "summary",
+		created_at: "2026-02-07T10:05:09Z",
+		...overrides,
+	};
+}
+
+describe("formatFileName", () => {
+	it("reproduces the legacy name with the default pattern", () => {
+		expect(formatFileName(DEFAULT_FILE_NAME_PATTERN, makeNote())).toBe("Test Note_20260207_100509");
+	});
+
+	it("substitutes all tokens", () => {
+		const note = makeNote({ source_batch_id: "batch999-0000" });
+
+		const name = formatFileName("{date:YYYY-MM-DD} {time} {category} {id8} {batch} {name}", note);
+
+		expect(name).toBe("2026-02-07 100509 work-meetings abcdef12 batch999 Test Note");
+	});
+
+	it("uses YYYY-MM-DD for {date} without a format", () => {
+		expect(formatFileName("{date}", makeNote())).toBe("2026-02-07");
+	});
+
+	it("drops separators left by empty tokens", () => {
+		expect(formatFileName("{name}_{batch}", makeNote())).toBe("Test Note");
+	});
+
+	it("sanitizes characters from formats and names", () => {
+		expect(formatFileName("{name} {date:HH:mm}", makeNote({ name: "a/b" }))).toBe("a_b 10_05");
+	});
+});
+
+describe("validateFileNamePattern", () => {
+	it("accepts the default pattern", () => {
+		expect(validateFileNamePattern(DEFAULT_FILE_NAME_PATTERN)).toEqual([]);
+	});
+
+	it("reports unknown tokens, misplaced formats and folders", () => {
+		expect(validateFileNamePattern("{title}/{id8:x}")).toEqual([
+			"Unknown token {title}",
+			"Token {id8} does not take a format",
+			"Pattern must not contain folders (/)",
+		]);
+	});
+});
@@ -0,0 +1,80 @@
+// src/file-name.ts
+import { moment } from "obsidian";
+import type { NoteResponse } from "./types";
+
+/** Default pattern — `{sanitized_name}_{YYYYMMDD_HHmmss}` as before patterns existed. */
+export const DEFAULT_FILE_NAME_PATTERN = "{name}_{date:YYYYMMDD_HHmmss}";
+
+/** Default format of `{date}` without an explicit format. */
+const DEFAULT_DATE_FORMAT = "YYYY-MM-DD";
+
+/** Max length of the `{name}` token. */
+const MAX_NAME_LENGTH = 100;
+
+const TOKEN = /\{([a-z0-9]+)(?::([^}]*))?\}/g;
+
+const TOKENS = ["name", "date", "time", "category", "id8", "batch"];
+
+/**
+ * Build a file name (without extension) for a note from a pattern.
+ *
+ * Tokens: `{name}`, `{date}` / `{date:FORMAT}` (moment.js format),
+ * `{time}` (HHmmss), `{category}`, `{id8}` (first 8 chars of the note id),
+ * `{batch}` (first 8 chars of the source batch id, empty when none).
+ *
+ * @param useUtc Format date/time in UTC (default) or local time
+ */
+export function formatFileName(pattern: string, note: NoteResponse, useUtc = true): string {
+	const created = useUtc ? moment.utc(note.created_at) : moment.utc(note.created_at).local();
+
+	const name = pattern.replace(TOKEN, (match, token: string, format?: string) => {
+		switch (token) {
+			case "name":
+				return sanitizeFileName(note.name).slice(0, MAX_NAME_LENGTH);
+			case "date":
+				return created.format(format || DEFAULT_DATE_FORMAT);
+			case "time":
+				return created.format("HHmmss");
+			case "category":
+				return note.category.replace(/\//g, "-");
+			case "id8":
+				return note.id.slice(0, 8);
+			case "batch":
+				return (note.source_batch_id ?? "").slice(0, 8);
+			default:
+				return match;
+		}
+	});
+
+	// Separators left dangling by empty tokens (e.g. `{name}_{batch}`)
+	return sanitizeFileName(name).replace(/^[\s_-]+|[\s_-]+$/g, "") || "note";
+}
+
+/**
+ * Check a file name pattern for mistakes.
+ * @returns Human-readable problems, empty when the pattern is usable
+ */
+export function validateFileNamePattern(pattern: string): string[] {
+	const errors: string[] = [];
+	for (const [, token, format] of pattern.matchAll(TOKEN)) {
+		if (!TOKENS.includes(token)) {
+			errors.push(`Unknown token {${token}}`);
+		} else if (format !== undefined && token !== "date") {
+			errors.push(`Token {${token}} does not take a format`);
+		}
+	}
+	if (pattern.replace(TOKEN, "").includes("/")) {
+		errors.push("Pattern must not contain folders (/)");
+	}
+	return errors;
+}
+
+/**
+ * Sanitize a file name: replace illegal characters, collapse whitespace, trim.
+ */
+export function sanitizeFileName(name: string): string {
+	return name
+		.replace(/[\\/:*?"<>|#^[\]]/g, "_")
+		.replace(/\s+/g, " ")
+		.trim();
+}
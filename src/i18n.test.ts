@@ -0,0 +1,26 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { allTranslations, getLocale, setLocale, t } from "./i18n";
+
+describe("i18n", () => {
+	afterEach(() => {
+		setLocale("en");
+	});
+
+	it("translates into the current locale", () => {
+		expect(t("note.tasks")).toBe("Tasks");
+
+		setLocale("ru");
+
+		expect(getLocale()).toBe("ru");
+		expect(t("note.tasks")).toBe("Задачи");
+	});
+
+	it("substitutes variables and keeps unknown placeholders", () => {
+		expect(t("notice.synced", { count: 3 })).toBe("Archivistbot: synced 3 note(s)");
+		expect(t("settings.fileNamePatternDesc")).toContain("{name}");
+	});
+
+	it("lists a message in every language", () => {
+		expect(allTranslations("note.addition")).toEqual(["Addition", "Дополнение"]);
+	});
+});
@@ -0,0 +1,573 @@
+// src/i18n.ts
+
+/** Supported languages of generated notes and plugin UI. */
+export type Locale = "en" | "ru";
+
+/** Language setting: a fixed locale or "auto" (follow Obsidian). */
+export type LanguageSetting = "auto" | Locale;
+
+const en = {
+	// ── Generated notes ──
+	"note.tasks": "Tasks",
+	"note.addition": "Addition",
+	"note.related": "Related notes:",
+	"daily.replyAdded": "Reply added to",
+
+	// ── Category index notes ──
+	"index.open": "Open notes",
+	"index.archived": "Recently archived",
+	"index.empty": "No open notes.",
+	"index.openTasks": "open tasks: {count}",
+	"canvas.title": "Notes from one message",
+
+	// ── categories.md ──
+	"categories.header": "| Category | Description | Reminder | Calendar |",
+	"categories.legend":
+		"**Reminder** — how often to receive a digest of unread notes in Telegram:\n" +
+		"- *(empty)* or `off` — no reminders\n" +
+		"- `daily` — every day\n" +
+		"- `weekly` — once a week\n" +
+		"- `monthly` — once a month\n" +
+		"\n" +
+		"**Calendar** — create an event automatically when a note contains a date/time:\n" +
+		"- *(empty)* — don't create\n" +
+		"- `google` — Google Calendar\n" +
+		"\n" +
+		"Subcategories: `work/meetings`, `projects/coding` etc. — add them when you actually need them.",
+	"categories.default.work": "Work tasks",
+	"categories.default.personal": "Personal matters",
+	"categories.default.ideas": "Ideas and thoughts",
+	"categories.default.health": "Health, sports",
+	"categories.invalidReminder": "⚠️ Invalid reminder \"{value}\" for category \"{category}\" — ignored",
+	"categories.invalidCalendar": "⚠️ Invalid calendar \"{value}\" for category \"{category}\" — ignored",
+
+	// ── resolutions.md ──
+	"resolutions.header": "| Resolution | Label | Icon | Folder | Trash |",
+	"resolutions.legend":
+		"Resolutions offered when archiving a note, in this order (keys 1–9 in the archive dialog):\n" +
+		"- **Resolution** — value written to the note's `resolution` field (letters, digits, `-`, `_`)\n" +
+		"- **Label** — button text\n" +
+		"- **Icon** — [Lucide](https://lucide.dev) icon name\n" +
+		"- **Folder** — archive subfolder instead of the note's category, e.g. `duplicates` → `_archive/duplicates/`\n" +
+		"- **Trash** — `yes` to delete the note (move it to the trash) instead of archiving it",
+	"resolutions.invalidValue": "⚠️ Invalid or duplicate resolution \"{value}\" in resolutions.md — skipped",
+	"resolutions.invalidFolder": "⚠️ Invalid folder \"{folder}\" of resolution \"{value}\" — skipped",
+
+	// ── Notices ──
+	"notice.tokenExpired": "Auth token expired. Use /newtoken in Telegram to get a new one.",
+	"notice.pasteToken": "Paste an auth token first",
+	"notice.connected": "Plugin connected!",
+	"notice.connectedPending": "Plugin connected! {count} pending notes will be processed.",
+	"notice.categoriesSynced": "Categories synced to server",
+	"notice.tagsSynced": "Tags synced to server",
+	"notice.configPushFailed": "Failed to sync config to server",
+	"notice.configPulled": "Config synced from server",
+	"notice.serverOk": "Server ok (v{version})",
+	"notice.serverUnreachable": "Server unreachable — {error}",
+	"notice.reminderSaveFailed": "Failed to save reminder settings: {error}",
+	"notice.syncCancelled": "Archivistbot: sync cancelled after {count} note(s)",
+	"notice.synced": "Archivistbot: synced {count} note(s)",
+	"notice.syncInProgress": "Archivistbot: sync already in progress",
+	"notice.noNewNotes": "Archivistbot: no new notes",
+	"notice.notLeader": "Archivistbot: another device is the sync leader",
+	"notice.syncFailed": "Archivistbot: sync failed — {error}",
+	"notice.syncProgress": "Archivistbot: syncing backlog — {count} note(s) fetched",
+	"notice.syncStopping": "Archivistbot: stopping after current page...",
+	"notice.indexesRebuilt": "Archivistbot: category indexes rebuilt: {count}",
+	"notice.cancel": "Cancel",
+	"notice.alreadyArchived": "Note is already archived",
+	"notice.notArchivistNote": "Not an archivistbot note",
+	"notice.archived": "Archived: {resolution}",
+	"notice.archivedMany": "Archived {count} notes: {resolution}",
+	"notice.archiveSkipped": "Skipped {count} files that can't be archived",
+	"notice.archiveFailed": "Failed to archive {count} notes:",
+	"notice.nothingToArchive": "No notes to archive",
+	"notice.trashed": "Moved to trash: {resolution}",
+	"notice.restored": "Restored: {path}",
+	"notice.notArchived": "Note is not in the archive",
+	"notice.restoreConflict": "Can't restore: {path} already exists",
+	"notice.templateIgnored": "Archivistbot: template ignored ({kind}), using the built-in layout — {error}",
+
+	// ── Archive modal ──
+	"archive.title": "Archive note",
+	"archive.titleMany": "Archive {count} notes",
+	"archive.selectResolution": "Select resolution:",
+	"archive.tasks": "Tasks done: {done} of {total}",
+	"archive.comment": "Comment",
+	"archive.commentPlaceholder": "Why the note is closed (optional)",
+	"archive.followUp": "Follow up",
+	"archive.followUpDesc": "Date to come back to it (optional)",
+	"rules.tasksDone": "all tasks are done",
+	"rules.idle": "no edits for {days} days",
+	"resolution.realized": "Realized",
+	"resolution.dropped": "Dropped",
+	"resolution.outdated": "Outdated",
+
+	// ── Commands and status bar ──
+	"command.syncNow": "Sync notes now",
+	"command.syncConfig": "Sync categories and tags",
+	"command.openSyncLog": "Open sync log",
+	"command.clearSyncLog": "Clear sync log",
+	"command.previewTemplate": "Preview note template",
+	"command.rebuildIndexes": "Rebuild category indexes",
+	"command.openBatchCanvas": "Open batch canvas",
+	"command.checkConnection": "Check server connection",
+	"command.archiveNote": "Archive note",
+	"command.archiveAs": "Archive note as: {label}",
+	"command.restoreNote": "Restore from archive",
+	"command.checkArchiveRules": "Check archive rules",
+	"ribbon.syncNow": "Sync now",
+	"menu.archive": "Archive (archivistbot)",
+	"menu.archiveMany": "Archive {count} notes (archivistbot)",
+	"menu.restore": "Restore from archive (archivistbot)",
+	"status.awaitingAck": "{count} notes awaiting acknowledgement",
+	"status.leader": "sync leader",
+	"status.passive": "passive (leader: {device})",
+
+	// ── Review modal ──
+	"review.title": "Review incoming notes ({count})",
+	"review.hint": "Accept, edit, reject or defer each note before it is written to the vault.",
+	"review.deferAll": "Defer all",
+	"review.apply": "Apply",
+	"review.appendsTo": "Appends to: {path}",
+	"review.category": "Category",
+	"review.tags": "Tags",
+	"review.tagsDesc": "Comma-separated",
+	"review.action": "Action",
+	"review.accept": "Accept",
+	"review.reject": "Reject (acknowledge without writing)",
+	"review.defer": "Defer (keep on server)",
+
+	// ── Sync log view ──
+	"syncLog.title": "Archivistbot sync log",
+	"syncLog.empty": "No sync runs recorded yet.",
+	"syncLog.status.ok": "ok",
+	"syncLog.status.error": "error",
+	"syncLog.status.cancelled": "cancelled",
+	"syncLog.summary": "{time} · {status} · {fetched} fetched, {written} written",
+	"syncLog.times": "Started {started}, finished {finished}",
+	"syncLog.reconciliation": "Archive reconciliation: {result}",
+	"syncLog.notRun": "not run",
+	"syncLog.removed": "{count} removed",
+	"syncLog.backoff": "Backoff multiplier: ×{multiplier}",
+	"syncLog.error": "Error: {error}",
+	"syncLog.created": "Created ({count})",
+	"syncLog.appended": "Appended ({count})",
+	"syncLog.deduplicated": "Deduplicated ({count})",
+	"syncLog.review": "Review: {rejected} rejected, {deferred} deferred",
+	"syncLog.writeErrors": "Write errors ({count})",
+
+	// ── Template preview ──
+	"templatePreview.title": "Template preview",
+	"templatePreview.note": "New note",
+	"templatePreview.append": "Addition",
+	"templatePreview.template": "Template: {path}",
+	"templatePreview.builtIn": "Built-in layout",
+	"templatePreview.invalid": "Invalid template — notes are written with the built-in layout.",
+
+	// ── Rule parsing (settings text areas) ──
+	"parse.expected": "Line {line}: expected \"{format}\"",
+	"parse.unknownMode": "Line {line}: unknown mode \"{mode}\"",
+	"parse.headingOnlyInHeadingMode": "Line {line}: only the heading mode takes a heading",
+	"parse.headingHash": "Line {line}: heading must start with #",
+	"parse.invalidFolder": "Line {line}: folder must not contain \"..\" or \"_archive\"",
+	"parse.unknownCondition": "Line {line}: unknown condition \"{condition}\"",
+	"parse.unknownAction": "Line {line}: unknown action \"{action}\"",
+
+	// ── Settings ──
+	"settings.language": "Language",
+	"settings.languageDesc": "Language of generated note sections, categories.md and plugin messages",
+	"settings.languageAuto": "Same as Obsidian",
+	"settings.serverUrl": "Server URL",
+	"settings.serverUrlDesc": "API endpoint for the server",
+	"settings.authToken": "Auth token",
+	"settings.authTokenDesc": "Token from Telegram bot (/start or /newtoken)",
+	"settings.authTokenPlaceholder": "Paste token from Telegram...",
+	"settings.connect": "Connect",
+	"settings.connectDesc": "Validate token and sync configuration with server",
+	"settings.connecting": "Connecting...",
+	"settings.syncInterval": "Sync interval",
+	"settings.syncIntervalDesc": "Seconds between sync checks (10-300)",
+	"settings.basePath": "Vault base path",
+	"settings.basePathDesc": "Folder for synced notes",
+	"settings.folderMappings": "Category folders",
+	"settings.folderMappingsDesc": "Route categories to any vault folder, one per line: \"category: folder\". \"category/*: folder\" also routes subcategories into subfolders.",
+	"settings.folderMappingsPlaceholder": "work/*: Areas/Work\nideas: Inbox/Ideas",
+	"settings.datePartition": "Date folders",
+	"settings.datePartitionDesc": "Place notes (and archived notes) in date subfolders of their category folder, by creation date in your timezone",
+	"settings.datePartition.none": "None",
+	"settings.datePartition.month": "Year / month (2026/02)",
+	"settings.datePartition.week": "Year / week (2026/W06)",
+	"settings.categoryIndexes": "Category index notes",
+	"settings.categoryIndexesDesc": "Keep an _index.md in each category folder: open notes by month and recently archived notes",
+	"settings.batchCanvas": "Batch canvases",
+	"settings.batchCanvasDesc": "Also lay out notes split from one message on a canvas (in the _batches folder)",
+	"settings.autoSync": "Auto sync",
+	"settings.autoSyncDesc": "Automatically sync notes on interval",
+	"settings.leaderElection": "Single sync leader",
+	"settings.leaderElectionDesc": "For vaults shared between devices: only one device syncs at a time, others take over when it goes quiet",
+	"settings.reviewIncoming": "Review incoming notes",
+	"settings.reviewIncomingDesc": "Show fetched notes in a dialog to accept, edit, reject or defer them before they are written",
+	"settings.fileNamePattern": "File name pattern",
+	"settings.fileNamePatternDesc": "Tokens: {name}, {date:YYYY-MM-DD}, {time}, {category}, {id8}, {batch}",
+	"settings.fileNameUtc": "Universal time in file names",
+	"settings.fileNameUtcDesc": "Format {date} and {time} in UTC. Turn off to use local time.",
+	"settings.taskFormat": "Action items format",
+	"settings.taskFormatDesc": "Tasks format adds a category tag, the created date (➕) and a due date (📅) parsed from the item text",
+	"settings.taskFormatCheckbox": "Checkboxes",
+	"settings.taskFormatTasks": "Obsidian Tasks",
+	"settings.appendMode": "Reply placement",
+	"settings.appendModeDesc": "Where replies go in the note they add to (categories without a rule below)",
+	"settings.appendMode.end": "At the end",
+	"settings.appendMode.heading": "Under a heading",
+	"settings.appendMode.prepend": "At the top",
+	"settings.appendMode.callout": "Collapsed callout",
+	"settings.appendMode.replyNote": "Separate linked note",
+	"settings.appendHeading": "Reply heading",
+	"settings.appendHeadingDesc": "Heading of the \"under a heading\" placement (created when missing)",
+	"settings.appendRules": "Reply placement by category",
+	"settings.appendRulesDesc": "One rule per line: \"category: mode\", modes: end, heading [## Heading], prepend, callout, reply-note. Rules apply to subcategories too.",
+	"settings.appendRulesPlaceholder": "work/meetings: heading ## Decisions\nideas: reply-note",
+	"settings.archiveRules": "Archive rules",
+	"settings.archiveRulesDesc": "One rule per line: \"category: condition resolution [auto]\", conditions: tasks-done (every task checked), idle-30d (no edits for 30 days). \"*\" matches all categories. Rules ask before archiving unless marked auto.",
+	"settings.archiveRulesPlaceholder": "*: tasks-done realized auto\nideas: idle-30d outdated",
+	"settings.dailyNotes": "Daily note entries",
+	"settings.dailyNotesDesc": "List every synced note (time, link, category, summary) in the daily note of its day",
+	"settings.dailyNotesHeading": "Daily note heading",
+	"settings.dailyNotesHeadingDesc": "Entries are added under this heading (created when missing)",
+	"settings.dailyNotesFolder": "Daily notes folder",
+	"settings.dailyNotesFolderDesc": "Leave empty to use the core Daily notes plugin settings",
+	"settings.dailyNotesFormat": "Daily note date format",
+	"settings.dailyNotesFormatDesc": "Moment.js format of daily note names. Leave empty to use the core Daily notes plugin settings.",
+	"settings.noteTemplate": "Note template",
+	"settings.noteTemplateDesc": "Template file for the body of new notes, e.g. templates/note.md. Leave empty for the built-in layout.",
+	"settings.appendTemplate": "Append template",
+	"settings.appendTemplateDesc": "Template file for additions appended to existing notes. Leave empty for the built-in separator.",
+	"settings.reminders": "Digest reminders",
+	"settings.remindersLoading": "Loading reminder settings...",
+	"settings.remindersLoadFailed": "Failed to load reminder settings",
+	"settings.remindersEnabled": "Enable digest reminders",
+	"settings.remindersEnabledDesc": "Receive periodic summaries of unarchived notes in Telegram",
+	"settings.sendTime": "Send time",
+	"settings.sendTimeDesc": "Hour of day to receive digests (0-23)",
+	"settings.timezone": "Timezone",
+	"settings.timezoneDesc": "IANA timezone for digest scheduling",
+	"settings.weeklyDay": "Weekly digest day",
+	"settings.weeklyDayDesc": "Day of week for weekly reminders",
+	"settings.monthlyDay": "Monthly digest day",
+	"settings.monthlyDayDesc": "Day of month for monthly reminders (1-28)",
+	"settings.status.synced": "Connected",
+	"settings.status.pending": "Syncing...",
+	"settings.status.error": "Connection error",
+	"settings.status.offline": "Server unreachable",
+	"weekday.monday": "Monday",
+	"weekday.tuesday": "Tuesday",
+	"weekday.wednesday": "Wednesday",
+	"weekday.thursday": "Thursday",
+	"weekday.friday": "Friday",
+	"weekday.saturday": "Saturday",
+	"weekday.sunday": "Sunday",
+};
+
+/** Message keys (the English catalog is the reference). */
+export type MessageKey = keyof typeof en;
+
+const ru: Record<MessageKey, string> = {
+	"note.tasks": "Задачи",
+	"note.addition": "Дополнение",
+	"note.related": "Связанные заметки:",
+	"daily.replyAdded": "Дополнение к",
+
+	"index.open": "Открытые заметки",
+	"index.archived": "Недавно в архиве",
+	"index.empty": "Открытых заметок нет.",
+	"index.openTasks": "открытых задач: {count}",
+	"canvas.title": "Заметки из одного сообщения",
+
+	"categories.header": "| Категория | Описание | Напоминание | Календарь |",
+	"categories.legend":
+		"**Напоминание** — как часто получать дайджест непрочитанных заметок в Telegram:\n" +
+		"- *(пусто)* или `off` — не напоминать\n" +
+		"- `daily` — каждый день\n" +
+		"- `weekly` — раз в неделю\n" +
+		"- `monthly` — раз в месяц\n" +
+		"\n" +
+		"**Календарь** — автоматически создавать событие, если в заметке есть дата/время:\n" +
+		"- *(пусто)* — не создавать\n" +
+		"- `google` — Google Calendar\n" +
+		"\n" +
+		"Подкатегории: `work/meetings`, `projects/coding` и т.д. — добавляйте когда появится реальная потребность.",
+	"categories.default.work": "Рабочие задачи",
+	"categories.default.personal": "Личные дела",
+	"categories.default.ideas": "Идеи и мысли",
+	"categories.default.health": "Здоровье, спорт",
+	"categories.invalidReminder": "⚠️ Неверное напоминание \"{value}\" у категории \"{category}\" — пропущено",
+	"categories.invalidCalendar": "⚠️ Неверный календарь \"{value}\" у категории \"{category}\" — пропущен",
+
+	"resolutions.header": "| Итог | Название | Иконка | Папка | Корзина |",
+	"resolutions.legend":
+		"Итоги, предлагаемые при архивации заметки, в этом порядке (клавиши 1–9 в окне архивации):\n" +
+		"- **Итог** — значение поля `resolution` заметки (буквы, цифры, `-`, `_`)\n" +
+		"- **Название** — текст кнопки\n" +
+		"- **Иконка** — название иконки [Lucide](https://lucide.dev)\n" +
+		"- **Папка** — подпапка архива вместо категории заметки, например `duplicates` → `_archive/duplicates/`\n" +
+		"- **Корзина** — `yes`, чтобы удалить заметку (в корзину) вместо архивации",
+	"resolutions.invalidValue": "⚠️ Неверный или повторяющийся итог \"{value}\" в resolutions.md — пропущен",
+	"resolutions.invalidFolder": "⚠️ Неверная папка \"{folder}\" у итога \"{value}\" — пропущен",
+
+	"notice.tokenExpired": "Токен авторизации истёк. Получите новый командой /newtoken в Telegram.",
+	"notice.pasteToken": "Сначала вставьте токен авторизации",
+	"notice.connected": "Плагин подключён!",
+	"notice.connectedPending": "Плагин подключён! Ожидающих заметок: {count}, они будут обработаны.",
+	"notice.categoriesSynced": "Категории отправлены на сервер",
+	"notice.tagsSynced": "Теги отправлены на сервер",
+	"notice.configPushFailed": "Не удалось отправить настройки на сервер",
+	"notice.configPulled": "Настройки получены с сервера",
+	"notice.serverOk": "Сервер доступен (v{version})",
+	"notice.serverUnreachable": "Сервер недоступен — {error}",
+	"notice.reminderSaveFailed": "Не удалось сохранить настройки напоминаний: {error}",
+	"notice.syncCancelled": "Archivistbot: синхронизация остановлена, получено заметок: {count}",
+	"notice.synced": "Archivistbot: синхронизировано заметок: {count}",
+	"notice.syncInProgress": "Archivistbot: синхронизация уже идёт",
+	"notice.noNewNotes": "Archivistbot: новых заметок нет",
+	"notice.notLeader": "Archivistbot: синхронизирует другое устройство",
+	"notice.syncFailed": "Archivistbot: ошибка синхронизации — {error}",
+	"notice.syncProgress": "Archivistbot: загрузка накопившихся заметок — получено {count}",
+	"notice.syncStopping": "Archivistbot: остановка после текущей страницы...",
+	"notice.indexesRebuilt": "Archivistbot: оглавлений категорий обновлено: {count}",
+	"notice.cancel": "Отмена",
+	"notice.alreadyArchived": "Заметка уже в архиве",
+	"notice.notArchivistNote": "Это не заметка Archivistbot",
+	"notice.archived": "В архиве: {resolution}",
+	"notice.archivedMany": "В архиве заметок: {count}, итог: {resolution}",
+	"notice.archiveSkipped": "Пропущено файлов, которые нельзя архивировать: {count}",
+	"notice.archiveFailed": "Не удалось архивировать заметок: {count}",
+	"notice.nothingToArchive": "Нет заметок для архивации",
+	"notice.trashed": "Перемещено в корзину: {resolution}",
+	"notice.restored": "Восстановлено: {path}",
+	"notice.notArchived": "Заметка не в архиве",
+	"notice.restoreConflict": "Не удалось восстановить: {path} уже существует",
+	"notice.templateIgnored": "Archivistbot: шаблон не используется ({kind}), заметки записываются по встроенному макету — {error}",
+
+	"archive.title": "Архивировать заметку",
+	"archive.titleMany": "Архивировать заметки ({count})",
+	"archive.selectResolution": "Выберите итог:",
+	"archive.tasks": "Выполнено задач: {done} из {total}",
+	"archive.comment": "Комментарий",
+	"archive.commentPlaceholder": "Почему заметка закрыта (необязательно)",
+	"archive.followUp": "Вернуться",
+	"archive.followUpDesc": "Дата, когда вернуться к заметке (необязательно)",
+	"rules.tasksDone": "все задачи выполнены",
+	"rules.idle": "не редактировалась {days} дн.",
+	"resolution.realized": "Выполнено",
+	"resolution.dropped": "Отменено",
+	"resolution.outdated": "Устарело",
+
+	// ── Commands and status bar ──
+	"command.syncNow": "Синхронизировать заметки",
+	"command.syncConfig": "Синхронизировать категории и теги",
+	"command.openSyncLog": "Открыть журнал синхронизации",
+	"command.clearSyncLog": "Очистить журнал синхронизации",
+	"command.previewTemplate": "Предпросмотр шаблона заметки",
+	"command.rebuildIndexes": "Пересобрать индексы категорий",
+	"command.openBatchCanvas": "Открыть холст пакета",
+	"command.checkConnection": "Проверить подключение к серверу",
+	"command.archiveNote": "Архивировать заметку",
+	"command.archiveAs": "Архивировать заметку как: {label}",
+	"command.restoreNote": "Восстановить из архива",
+	"command.checkArchiveRules": "Проверить правила архивации",
+	"ribbon.syncNow": "Синхронизировать",
+	"menu.archive": "Архивировать (archivistbot)",
+	"menu.archiveMany": "Архивировать заметки: {count} (archivistbot)",
+	"menu.restore": "Восстановить из архива (archivistbot)",
+	"status.awaitingAck": "заметок ждут подтверждения: {count}",
+	"status.leader": "ведущее устройство",
+	"status.passive": "ожидание (ведущее: {device})",
+
+	// ── Review modal ──
+	"review.title": "Проверка новых заметок ({count})",
+	"review.hint": "Примите, измените, отклоните или отложите каждую заметку до записи в хранилище.",
+	"review.deferAll": "Отложить все",
+	"review.apply": "Применить",
+	"review.appendsTo": "Дополняет: {path}",
+	"review.category": "Категория",
+	"review.tags": "Теги",
+	"review.tagsDesc": "Через запятую",
+	"review.action": "Действие",
+	"review.accept": "Принять",
+	"review.reject": "Отклонить (подтвердить без записи)",
+	"review.defer": "Отложить (оставить на сервере)",
+
+	// ── Sync log view ──
+	"syncLog.title": "Журнал синхронизации Archivistbot",
+	"syncLog.empty": "Синхронизаций пока не было.",
+	"syncLog.status.ok": "успешно",
+	"syncLog.status.error": "ошибка",
+	"syncLog.status.cancelled": "отменено",
+	"syncLog.summary": "{time} · {status} · получено {fetched}, записано {written}",
+	"syncLog.times": "Начало {started}, конец {finished}",
+	"syncLog.reconciliation": "Сверка архива: {result}",
+	"syncLog.notRun": "не выполнялась",
+	"syncLog.removed": "удалено {count}",
+	"syncLog.backoff": "Множитель интервала: ×{multiplier}",
+	"syncLog.error": "Ошибка: {error}",
+	"syncLog.created": "Созданы ({count})",
+	"syncLog.appended": "Дополнены ({count})",
+	"syncLog.deduplicated": "Пропущены как дубликаты ({count})",
+	"syncLog.review": "Проверка: отклонено {rejected}, отложено {deferred}",
+	"syncLog.writeErrors": "Ошибки записи ({count})",
+
+	// ── Template preview ──
+	"templatePreview.title": "Предпросмотр шаблонов",
+	"templatePreview.note": "Новая заметка",
+	"templatePreview.append": "Дополнение",
+	"templatePreview.template": "Шаблон: {path}",
+	"templatePreview.builtIn": "Встроенный макет",
+	"templatePreview.invalid": "Шаблон с ошибками — заметки записываются по встроенному макету.",
+
+	// ── Rule parsing (settings text areas) ──
+	"parse.expected": "Строка {line}: ожидается «{format}»",
+	"parse.unknownMode": "Строка {line}: неизвестный режим «{mode}»",
+	"parse.headingOnlyInHeadingMode": "Строка {line}: заголовок указывается только в режиме heading",
+	"parse.headingHash": "Строка {line}: заголовок должен начинаться с #",
+	"parse.invalidFolder": "Строка {line}: папка не может содержать «..» или «_archive»",
+	"parse.unknownCondition": "Строка {line}: неизвестное условие «{condition}»",
+	"parse.unknownAction": "Строка {line}: неизвестное действие «{action}»",
+
+	"settings.language": "Язык",
+	"settings.languageDesc": "Язык разделов заметок, categories.md и сообщений плагина",
+	"settings.languageAuto": "Как в Obsidian",
+	"settings.serverUrl": "Адрес сервера",
+	"settings.serverUrlDesc": "API-адрес сервера",
+	"settings.authToken": "Токен авторизации",
+	"settings.authTokenDesc": "Токен от Telegram-бота (/start или /newtoken)",
+	"settings.authTokenPlaceholder": "Вставьте токен из Telegram...",
+	"settings.connect": "Подключить",
+	"settings.connectDesc": "Проверить токен и синхронизировать настройки с сервером",
+	"settings.connecting": "Подключение...",
+	"settings.syncInterval": "Интервал синхронизации",
+	"settings.syncIntervalDesc": "Секунд между проверками (10-300)",
+	"settings.basePath": "Папка в хранилище",
+	"settings.basePathDesc": "Папка для синхронизированных заметок",
+	"settings.folderMappings": "Папки категорий",
+	"settings.folderMappingsDesc": "Папка хранилища для категории, по одной в строке: «категория: папка». «категория/*: папка» переносит и подкатегории в подпапки.",
+	"settings.folderMappingsPlaceholder": "работа/*: Области/Работа\nидеи: Входящие/Идеи",
+	"settings.datePartition": "Папки по датам",
+	"settings.datePartitionDesc": "Раскладывать заметки (и архив) по подпапкам дат внутри папки категории, по дате создания в вашем часовом поясе",
+	"settings.datePartition.none": "Нет",
+	"settings.datePartition.month": "Год / месяц (2026/02)",
+	"settings.datePartition.week": "Год / неделя (2026/W06)",
+	"settings.categoryIndexes": "Оглавления категорий",
+	"settings.categoryIndexesDesc": "Вести _index.md в папке каждой категории: открытые заметки по месяцам и недавно архивированные",
+	"settings.batchCanvas": "Холсты для разбитых сообщений",
+	"settings.batchCanvasDesc": "Раскладывать заметки из одного сообщения на холсте (в папке _batches)",
+	"settings.autoSync": "Автосинхронизация",
+	"settings.autoSyncDesc": "Синхронизировать заметки по интервалу",
+	"settings.leaderElection": "Один синхронизирующий",
+	"settings.leaderElectionDesc": "Для хранилищ на нескольких устройствах: синхронизирует одно устройство, остальные подхватывают, когда оно замолкает",
+	"settings.reviewIncoming": "Проверять входящие заметки",
+	"settings.reviewIncomingDesc": "Показывать полученные заметки в диалоге, чтобы принять, изменить, отклонить или отложить их перед записью",
+	"settings.fileNamePattern": "Шаблон имени файла",
+	"settings.fileNamePatternDesc": "Токены: {name}, {date:YYYY-MM-DD}, {time}, {category}, {id8}, {batch}",
+	"settings.fileNameUtc": "Всемирное время в именах файлов",
+	"settings.fileNameUtcDesc": "{date} и {time} в UTC. Выключите, чтобы использовать местное время.",
+	"settings.taskFormat": "Формат задач",
+	"settings.taskFormatDesc": "Формат Tasks добавляет тег категории, дату создания (➕) и срок (📅), найденный в тексте задачи",
+	"settings.taskFormatCheckbox": "Чекбоксы",
+	"settings.taskFormatTasks": "Obsidian Tasks",
+	"settings.appendMode": "Размещение дополнений",
+	"settings.appendModeDesc": "Куда добавляются ответы в заметке (для категорий без правила ниже)",
+	"settings.appendMode.end": "В конец",
+	"settings.appendMode.heading": "Под заголовок",
+	"settings.appendMode.prepend": "В начало",
+	"settings.appendMode.callout": "Свёрнутый блок",
+	"settings.appendMode.replyNote": "Отдельная связанная заметка",
+	"settings.appendHeading": "Заголовок дополнений",
+	"settings.appendHeadingDesc": "Заголовок для размещения «под заголовок» (создаётся, если его нет)",
+	"settings.appendRules": "Размещение по категориям",
+	"settings.appendRulesDesc": "Одно правило в строке: «категория: режим», режимы: end, heading [## Заголовок], prepend, callout, reply-note. Правила действуют и на подкатегории.",
+	"settings.appendRulesPlaceholder": "работа/встречи: heading ## Решения\nидеи: reply-note",
+	"settings.archiveRules": "Правила архивации",
+	"settings.archiveRulesDesc": "Одно правило в строке: «категория: условие итог [auto]», условия: tasks-done (все задачи отмечены), idle-30d (нет правок 30 дней). «*» — все категории. Без auto правило спрашивает перед архивацией.",
+	"settings.archiveRulesPlaceholder": "*: tasks-done realized auto\nидеи: idle-30d outdated",
+	"settings.dailyNotes": "Записи в ежедневных заметках",
+	"settings.dailyNotesDesc": "Добавлять каждую синхронизированную заметку (время, ссылка, категория, резюме) в ежедневную заметку её дня",
+	"settings.dailyNotesHeading": "Заголовок в ежедневной заметке",
+	"settings.dailyNotesHeadingDesc": "Записи добавляются под этот заголовок (создаётся, если его нет)",
+	"settings.dailyNotesFolder": "Папка ежедневных заметок",
+	"settings.dailyNotesFolderDesc": "Оставьте пустым, чтобы использовать настройки плагина «Ежедневные заметки»",
+	"settings.dailyNotesFormat": "Формат даты ежедневных заметок",
+	"settings.dailyNotesFormatDesc": "Формат Moment.js для имён ежедневных заметок. Оставьте пустым, чтобы использовать настройки плагина «Ежедневные заметки».",
+	"settings.noteTemplate": "Шаблон заметки",
+	"settings.noteTemplateDesc": "Файл шаблона для текста новых заметок, например templates/note.md. Пусто — встроенный формат.",
+	"settings.appendTemplate": "Шаблон дополнения",
+	"settings.appendTemplateDesc": "Файл шаблона для дополнений к существующим заметкам. Пусто — встроенный разделитель.",
+	"settings.reminders": "Напоминания-дайджесты",
+	"settings.remindersLoading": "Загрузка настроек напоминаний...",
+	"settings.remindersLoadFailed": "Не удалось загрузить настройки напоминаний",
+	"settings.remindersEnabled": "Включить напоминания",
+	"settings.remindersEnabledDesc": "Получать в Telegram сводки неархивированных заметок",
+	"settings.sendTime": "Время отправки",
+	"settings.sendTimeDesc": "Час получения дайджеста (0-23)",
+	"settings.timezone": "Часовой пояс",
+	"settings.timezoneDesc": "Часовой пояс IANA для расписания дайджестов",
+	"settings.weeklyDay": "День недельного дайджеста",
+	"settings.weeklyDayDesc": "День недели для еженедельных напоминаний",
+	"settings.monthlyDay": "День месячного дайджеста",
+	"settings.monthlyDayDesc": "День месяца для ежемесячных напоминаний (1-28)",
+	"settings.status.synced": "Подключено",
+	"settings.status.pending": "Синхронизация...",
+	"settings.status.error": "Ошибка подключения",
+	"settings.status.offline": "Сервер недоступен",
+	"weekday.monday": "Понедельник",
+	"weekday.tuesday": "Вторник",
+	"weekday.wednesday": "Среда",
+	"weekday.thursday": "Четверг",
+	"weekday.friday": "Пятница",
+	"weekday.saturday": "Суббота",
+	"weekday.sunday": "Воскресенье",
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, ru };
+
+let current: Locale = "en";
+
+/**
+ * Switch the language of generated content and UI messages.
+ */
+export function setLocale(locale: Locale): void {
+	current = locale;
+}
+
+export function getLocale(): Locale {
+	return current;
+}
+
+/**
+ * Resolve the language setting. "auto" follows Obsidian's interface
+ * language (stored in localStorage; English when unset).
+ */
+export function resolveLocale(setting: LanguageSetting): Locale {
+	if (setting !== "auto") {
+		return setting;
+	}
+	const language = window.localStorage.getItem("language") ?? "en";
+	return language.startsWith("ru") ? "ru" : "en";
+}
+
+/**
+ * Translate a message, substituting `{var}` placeholders.
+ */
+export function t(key: MessageKey, vars: Record<string, string | number> = {}): string {
+	return CATALOGS[current][key].replace(/\{(\w+)\}/g, (match, name: string) =>
+		name in vars ? String(vars[name]) : match
+	);
+}
+
+/**
+ * A message in every supported language — for recognizing
+ * content generated under another locale.
+ */
+export function allTranslations(key: MessageKey): string[] {
+	return [...new Set(Object.values(CATALOGS).map((catalog) => catalog[key]))];
+}
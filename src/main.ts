@@ -1,28 +1,70 @@
 // src/main.ts
-import { Plugin, Notice, TFile, TFolder, MarkdownView } from "obsidian";
+import { Plugin, Notice, TAbstractFile, TFile, TFolder, MarkdownView, Platform, normalizePath } from "obsidian";
 import {
 	ArchivistBotSettings,
+	DEFAULT_DEVICE_STATE,
 	DEFAULT_SETTINGS,
 	ArchivistBotSettingTab,
 } from "./settings";
+import type { DeviceState } from "./settings";
 import { ArchivistApiClient, RefreshTokenExpiredError } from "./api-client";
 import { NoteWriter } from "./note-writer";
 import { SyncEngine } from "./sync-engine";
 import { NoteArchiver } from "./archiver";
 import { ConfigSync } from "./config-sync";
+import { SyncOutbox } from "./outbox";
+import { SyncProgressNotice } from "./sync-progress";
+import { SyncLog } from "./sync-log";
+import { SyncLogView, VIEW_TYPE_SYNC_LOG } from "./sync-log-view";
+import { ReviewModal } from "./review-modal";
+import { SyncLeaderElection } from "./sync-leader";
+import { NoteIndex } from "./note-index";
+import { PathUpdateQueue } from "./path-updates";
+import { resolveLocale, setLocale, t } from "./i18n";
+import { TemplatePreviewModal } from "./template-preview-modal";
+import { DailyNoteLogger } from "./daily-notes";
+import { CategoryIndexer } from "./category-index";
+import { BatchCanvas } from "./batch-canvas";
+import { ResolutionsManager } from "./resolutions-manager";
+import type { ArchiveResolution } from "./resolutions-manager";
+import { parsePlacementRules } from "./append-placement";
+import { ArchiveRuleEngine, parseArchiveRules } from "./archive-rules";
+import { isArchivedPath, parseFolderMappings, scanArchive } from "./vault-layout";
+import type { DailyNoteOptions } from "./daily-notes";
+import { validateTemplate } from "./note-template";
+import type { TemplateKind } from "./note-template";
+import type { ReviewResult } from "./sync-engine";
+import type { NoteResponse, ReconcileArchivedRequest } from "./types";
 import type { ReminderSettings } from "./types";
 
 export default class ArchivistBotPlugin extends Plugin {
 	settings: ArchivistBotSettings = DEFAULT_SETTINGS;
+	private deviceId!: string;
+	private deviceState: DeviceState = DEFAULT_DEVICE_STATE;
 	private client!: ArchivistApiClient;
 	private writer!: NoteWriter;
 	private syncEngine!: SyncEngine;
 	private archiver!: NoteArchiver;
+	private outbox!: SyncOutbox;
+	private syncLog!: SyncLog;
+	private leaderElection!: SyncLeaderElection;
+	private noteIndex!: NoteIndex;
+	private pathUpdates!: PathUpdateQueue;
+	private dailyNotes!: DailyNoteLogger;
+	private categoryIndex!: CategoryIndexer;
+	private batchCanvas!: BatchCanvas;
+	private resolutions!: ResolutionsManager;
+	private resolutionList: ArchiveResolution[] = [];
+	private archiveRules!: ArchiveRuleEngine;
+	/** Notes typed into in an editor since their last save (user edits) */
+	private editedPaths = new Set<string>();
 	configSync!: ConfigSync;
 	private statusBarEl!: HTMLElement;
 
 	async onload(): Promise<void> {
+		this.deviceId = getDeviceId();
 		await this.loadSettings();
+		setLocale(resolveLocale(this.settings.language));
 
 		this.client = new ArchivistApiClient(
 			() => this.settings,
@@ -34,11 +76,100 @@ export default class ArchivistBotPlugin extends Plugin {
 			this.settings.vaultBasePath
 		);
 
+		// id → file index: follows renames / moves of written notes
+		this.noteIndex = new NoteIndex(this.app);
+		this.writer.setNoteIndex(this.noteIndex);
+		this.writer.setTemplateLoader((kind) => this.readTemplate(kind));
+		this.writer.setFileNamePattern(this.settings.fileNamePattern, this.settings.fileNameUtc);
+		this.writer.setTaskFormat(this.settings.taskFormat);
+		this.writer.setAppendPlacement(
+			{ mode: this.settings.appendMode, heading: this.settings.appendHeading },
+			parsePlacementRules(this.settings.appendPlacementRules).rules,
+		);
+		this.writer.setFolderMappings(parseFolderMappings(this.settings.folderMappings).mappings);
+		this.writer.setDatePartition(this.settings.datePartition);
+
 		this.syncEngine = new SyncEngine(
 			this.client,
 			this.writer,
 			(id) => this.registerInterval(id)
 		);
+		this.syncEngine.setNoteIndex(this.noteIndex);
+
+		this.outbox = new SyncOutbox(
+			this.deviceState.pendingAcks,
+			async (entries) => {
+				this.deviceState.pendingAcks = entries;
+				await this.saveDeviceState();
+			},
+		);
+		this.syncEngine.setOutbox(this.outbox);
+
+		// Renamed / moved notes: report new paths on the next sync cycle.
+		// Moves into or out of _archive/ are handled by reconciliation.
+		this.pathUpdates = new PathUpdateQueue(
+			this.deviceState.pendingPathUpdates,
+			async (updates) => {
+				this.deviceState.pendingPathUpdates = updates;
+				await this.saveDeviceState();
+			},
+		);
+		this.syncEngine.setPathUpdates(this.pathUpdates);
+		this.noteIndex.setRenameCallback((id, oldPath, newPath) => {
+			if (isArchivedPath(this.settings.vaultBasePath, oldPath) || isArchivedPath(this.settings.vaultBasePath, newPath)) {
+				return;
+			}
+			void this.pathUpdates.set(id, newPath);
+		});
+		this.syncEngine.setWatermarkStore({
+			load: () => this.deviceState.syncWatermark,
+			save: async (serverTime) => {
+				this.deviceState.syncWatermark = serverTime;
+				await this.saveDeviceState();
+			},
+		});
+		this.syncEngine.setProgressFactory(() => new SyncProgressNotice());
+
+		this.syncLog = new SyncLog(
+			this.deviceState.syncLog,
+			async (entries) => {
+				this.deviceState.syncLog = entries;
+				await this.saveDeviceState();
+			},
+		);
+		this.syncLog.setChangeCallback(() => {
+			for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_SYNC_LOG)) {
+				if (leaf.view instanceof SyncLogView) {
+					leaf.view.render();
+				}
+			}
+		});
+		this.syncEngine.setSyncLog(this.syncLog);
+
+		// Daily note entries for created notes and appended replies
+		this.dailyNotes = new DailyNoteLogger(this.app, this.dailyNoteOptions());
+		this.syncEngine.setOnNoteWritten(async (note, path, kind) => {
+			if (this.settings.dailyNotes) {
+				await this.dailyNotes.record(note, path, kind);
+			}
+		});
+
+		// Canvas per smart-split batch
+		this.batchCanvas = new BatchCanvas(this.app, this.settings.vaultBasePath);
+		this.syncEngine.setOnBatchWritten(async (batchId, notes) => {
+			if (this.settings.batchCanvas) {
+				await this.batchCanvas.addNotes(batchId, notes);
+			}
+		});
+		this.syncEngine.setReviewer((notes) => this.reviewNotes(notes));
+
+		this.leaderElection = new SyncLeaderElection(
+			this.app.vault,
+			this.settings.vaultBasePath,
+			this.deviceId,
+			`${Platform.isMobile ? "mobile" : "desktop"}-${this.deviceId.slice(0, 4)}`,
+		);
+		this.syncEngine.setLeaderGate(() => this.mayLead());
 
 		this.syncEngine.setArchiveScanner(() => this.scanArchivedPaths());
 		this.syncEngine.setOnServerReachable(() => {
@@ -53,6 +184,57 @@ export default class ArchivistBotPlugin extends Plugin {
 			this.app,
 			this.settings.vaultBasePath
 		);
+		this.archiver.setFolderMappings(parseFolderMappings(this.settings.folderMappings).mappings);
+		this.archiver.setDatePartition(this.settings.datePartition);
+
+		// User-defined resolutions (resolutions.md next to categories.md)
+		this.resolutions = new ResolutionsManager(this.app.vault, this.settings.vaultBasePath);
+		this.archiver.setResolutions(this.resolutions);
+
+		// Trashed notes leave nothing in _archive/: remember their paths
+		// until a reconciliation reported them
+		this.archiver.setTrashHandler((vaultPath) => {
+			if (!this.deviceState.trashedPaths.includes(vaultPath)) {
+				this.deviceState.trashedPaths = [...this.deviceState.trashedPaths, vaultPath];
+				void this.saveDeviceState();
+			}
+			this.syncEngine.requestReconciliation();
+		});
+		// Restored notes drop out of _archive/: report them as active again
+		const noteRestored = (vaultPath: string): void => {
+			if (!this.deviceState.restoredPaths.includes(vaultPath)) {
+				this.deviceState.restoredPaths = [...this.deviceState.restoredPaths, vaultPath];
+				void this.saveDeviceState();
+			}
+			this.syncEngine.requestReconciliation();
+		};
+		this.archiver.setRestoreHandler(noteRestored);
+		this.writer.setRestoreHandler(noteRestored);
+		this.syncEngine.setOnReconciled(async ({ vault_paths, reactivated_paths = [] }) => {
+			const trashed = this.deviceState.trashedPaths.filter((p) => !vault_paths.includes(p));
+			const restored = this.deviceState.restoredPaths.filter(
+				(p) => !reactivated_paths.includes(p) && !vault_paths.includes(p),
+			);
+			if (trashed.length < this.deviceState.trashedPaths.length || restored.length < this.deviceState.restoredPaths.length) {
+				this.deviceState.trashedPaths = trashed;
+				this.deviceState.restoredPaths = restored;
+				await this.saveDeviceState();
+			}
+		});
+
+		// Category index notes (_index.md), updated on write and archive
+		this.categoryIndex = new CategoryIndexer(this.app, this.settings.vaultBasePath);
+		this.categoryIndex.setFolderMappings(parseFolderMappings(this.settings.folderMappings).mappings);
+		this.writer.setCategoryIndex(this.settings.categoryIndexes ? this.categoryIndex : null);
+		this.archiver.setCategoryIndex(this.settings.categoryIndexes ? this.categoryIndex : null);
+
+		// Archive rules: archive completed and idle notes
+		this.archiveRules = new ArchiveRuleEngine(this.app, this.archiver);
+		this.archiveRules.setRules(parseArchiveRules(this.settings.archiveRules).rules);
+		// Auto rules only check the lease: a device that doesn't sync never takes it
+		this.archiveRules.setAutoGate(async () =>
+			!this.settings.leaderElection || this.leaderElection.noOtherLeader()
+		);
 
 		this.configSync = new ConfigSync(
 			this.app.vault,
@@ -69,11 +251,27 @@ export default class ArchivistBotPlugin extends Plugin {
 			this.updateStatusBar();
 		});
 
+		// Update status bar when notes await acknowledgement
+		this.outbox.setChangeCallback(() => {
+			this.updateStatusBar();
+		});
+
+		// Update status bar when the sync leader changes
+		this.leaderElection.setStatusCallback(() => {
+			this.updateStatusBar();
+		});
+
+		// ── Sync log view ──
+		this.registerView(
+			VIEW_TYPE_SYNC_LOG,
+			(leaf) => new SyncLogView(leaf, this.syncLog),
+		);
+
 		// ── Settings Tab ──
 		this.addSettingTab(new ArchivistBotSettingTab(this.app, this));
 
 		// ── Ribbon Icon: Manual Sync ──
-		this.addRibbonIcon("refresh-cw", "Sync now", async () => {
+		this.addRibbonIcon("refresh-cw", t("ribbon.syncNow"), async () => {
 			try {
 				await this.syncEngine.manualSync();
 			} catch {
@@ -86,7 +284,7 @@ export default class ArchivistBotPlugin extends Plugin {
 		// Manual sync notes
 		this.addCommand({
 			id: "sync-now",
-			name: "Sync notes now",
+			name: t("command.syncNow"),
 			callback: async () => {
 				try {
 					await this.syncEngine.manualSync();
@@ -99,7 +297,7 @@ export default class ArchivistBotPlugin extends Plugin {
 		// Sync config (categories + tags)
 		this.addCommand({
 			id: "sync-config",
-			name: "Sync categories and tags",
+			name: t("command.syncConfig"),
 			callback: async () => {
 				try {
 					await this.configSync.manualSync();
@@ -109,19 +307,66 @@ export default class ArchivistBotPlugin extends Plugin {
 			},
 		});
 
+		// Sync log view
+		this.addCommand({
+			id: "open-sync-log",
+			name: t("command.openSyncLog"),
+			callback: () => void this.openSyncLog(),
+		});
+		this.addCommand({
+			id: "clear-sync-log",
+			name: t("command.clearSyncLog"),
+			callback: () => void this.syncLog.clear(),
+		});
+
+		// Template preview
+		this.addCommand({
+			id: "preview-note-template",
+			name: t("command.previewTemplate"),
+			callback: () => void this.previewTemplates(),
+		});
+
+		// Category index notes
+		this.addCommand({
+			id: "rebuild-category-indexes",
+			name: t("command.rebuildIndexes"),
+			callback: async () => {
+				const count = await this.categoryIndex.rebuildAll(await this.archiver.getResolutions());
+				new Notice(t("notice.indexesRebuilt", { count }));
+			},
+		});
+
+		this.addCommand({
+			id: "open-batch-canvas",
+			name: t("command.openBatchCanvas"),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				const batchId: unknown = file
+					? this.app.metadataCache.getFileCache(file)?.frontmatter?.source_batch_id
+					: null;
+				if (typeof batchId !== "string" || !batchId) {
+					return false;
+				}
+				if (!checking) {
+					void this.openBatchCanvas(batchId);
+				}
+				return true;
+			},
+		});
+
 		// Health check
 		this.addCommand({
 			id: "health-check",
-			name: "Check server connection",
+			name: t("command.checkConnection"),
 			callback: async () => {
 				try {
 					const h = await this.client.health();
-					new Notice(`Server ok (v${h.version})`);
+					new Notice(t("notice.serverOk", { version: h.version }));
 				} catch (e) {
 					if (e instanceof RefreshTokenExpiredError) {
-						new Notice("Auth token expired. Use /newtoken in Telegram to get a new one.");
+						new Notice(t("notice.tokenExpired"));
 					} else {
-						new Notice(`Server unreachable - ${String(e)}`);
+						new Notice(t("notice.serverUnreachable", { error: String(e) }));
 					}
 				}
 			},
@@ -130,7 +375,7 @@ export default class ArchivistBotPlugin extends Plugin {
 		// Archive note
 		this.addCommand({
 			id: "archive-note",
-			name: "Archive note",
+			name: t("command.archiveNote"),
 			checkCallback: (checking: boolean) => {
 				const file = this.app.workspace.getActiveFile();
 				if (!file) {
@@ -147,25 +392,89 @@ export default class ArchivistBotPlugin extends Plugin {
 			},
 		});
 
+		// Restore from archive
+		this.addCommand({
+			id: "restore-note",
+			name: t("command.restoreNote"),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.archiver.canRestore(file)) {
+					return false;
+				}
+
+				if (!checking) {
+					void this.archiver.restore(file);
+				}
+				return true;
+			},
+		});
+
+		// Evaluate idle archive rules
+		this.addCommand({
+			id: "check-archive-rules",
+			name: t("command.checkArchiveRules"),
+			callback: () => void this.checkIdleNotes(),
+		});
+
 		// ── Context Menu: Archive (file explorer, tabs, links) ──
 		this.registerEvent(
 			this.app.workspace.on("file-menu", (menu, file) => {
+				if (file instanceof TFolder) {
+					const notes = this.selectedNotes([file]);
+					const count = this.archiver.archivable(notes).length;
+					if (count > 0) {
+						menu.addItem((item) =>
+							item
+								.setTitle(t("menu.archiveMany", { count }))
+								.setIcon("archive")
+								.onClick(() => void this.archiveMany(notes))
+						);
+					}
+					return;
+				}
 				if (!(file instanceof TFile)) {
 					return;
 				}
+				if (this.archiver.canRestore(file)) {
+					menu.addItem((item) =>
+						item
+							.setTitle(t("menu.restore"))
+							.setIcon("archive-restore")
+							.onClick(() => void this.archiver.restore(file))
+					);
+					return;
+				}
 				if (!this.archiver.canArchive(file)) {
 					return;
 				}
 
 				menu.addItem((item) =>
 					item
-						.setTitle("Archive (archivistbot)")
+						.setTitle(t("menu.archive"))
 						.setIcon("archive")
 						.onClick(() => void this.archiver.archive(file))
 				);
 			})
 		);
 
+		// ── Context Menu: Archive (file explorer multi-select) ──
+		this.registerEvent(
+			this.app.workspace.on("files-menu", (menu, files) => {
+				const notes = this.selectedNotes(files);
+				const count = this.archiver.archivable(notes).length;
+				if (count === 0) {
+					return;
+				}
+
+				menu.addItem((item) =>
+					item
+						.setTitle(t("menu.archiveMany", { count }))
+						.setIcon("archive")
+						.onClick(() => void this.archiveMany(notes))
+				);
+			})
+		);
+
 		// ── Context Menu: Archive (editor right-click) ──
 		this.registerEvent(
 			this.app.workspace.on("editor-menu", (menu, _editor, view) => {
@@ -179,7 +488,7 @@ export default class ArchivistBotPlugin extends Plugin {
 				const file = view.file;
 				menu.addItem((item) =>
 					item
-						.setTitle("Archive (archivistbot)")
+						.setTitle(t("menu.archive"))
 						.setIcon("archive")
 						.onClick(() => void this.archiver.archive(file))
 				);
@@ -191,13 +500,43 @@ export default class ArchivistBotPlugin extends Plugin {
 			// Start file watcher always (local-only, no auth needed)
 			this.configSync.startWatching((ref) => this.registerEvent(ref));
 
+			// Index notes by archivist_id (metadata cache is ready here)
+			this.noteIndex.rebuild();
+			this.noteIndex.startWatching((ref) => this.registerEvent(ref));
+
+			// A command per resolution, refreshed when resolutions.md changes
+			void this.resolutions.ensureExists().then(() => this.resolutionsChanged());
+			this.registerEvent(
+				this.app.vault.on("modify", (file) => {
+					if (file.path === this.resolutions.getFilePath()) {
+						void this.resolutionsChanged();
+					} else if (file instanceof TFile && this.editedPaths.delete(file.path)) {
+						// Only the user's own edits: not plugin writes or Obsidian Sync
+						void this.noteModified(file);
+					}
+				})
+			);
+			this.registerEvent(
+				this.app.workspace.on("editor-change", (_editor, info) => {
+					if (info.file) {
+						this.editedPaths.add(info.file.path);
+					}
+				})
+			);
+
+			// Idle rules are checked once per session
+			void this.checkIdleNotes();
+
 			// Only auto-connect if we have a previously successful session
 			// (accessToken present = token was already rotated via connect())
 			if (this.settings.accessToken) {
 				void this.configSync.initialize();
 
 				if (this.settings.autoSync) {
+					// First cycle retries pending acknowledgements before fetching
 					this.startSync();
+				} else if (this.outbox.size() > 0 || this.pathUpdates.size() > 0) {
+					void this.syncEngine.retryPendingAcks();
 				}
 			}
 		});
@@ -205,15 +544,120 @@ export default class ArchivistBotPlugin extends Plugin {
 
 	onunload(): void {
 		this.syncEngine.stop();
+		if (this.settings.leaderElection) {
+			// Let another device take over without waiting for the lease to expire
+			void this.leaderElection.release();
+		}
 		this.configSync.destroy();
 	}
 
 	/**
-	 * Update status bar with sync status.
+	 * Update status bar with sync status and pending acknowledgements.
 	 */
 	private updateStatusBar(): void {
 		const emoji = this.configSync.getStatusEmoji();
-		this.statusBarEl.setText(`${emoji} Archivistbot`);
+		const pending = this.outbox.size();
+		let suffix = pending > 0 ? ` · ${t("status.awaitingAck", { count: pending })}` : "";
+
+		const leader = this.leaderElection.getLeader();
+		if (this.settings.leaderElection && leader) {
+			suffix += this.leaderElection.isLeader()
+				? ` · ${t("status.leader")}`
+				: ` · ${t("status.passive", { device: leader.device_name })}`;
+		}
+
+		this.statusBarEl.setText(`${emoji} Archivistbot${suffix}`);
+	}
+
+	/**
+	 * Reveal the sync log view, creating it in the right sidebar if needed.
+	 */
+	private async openSyncLog(): Promise<void> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_SYNC_LOG)[0];
+		if (!leaf) {
+			const right = workspace.getRightLeaf(false);
+			if (!right) {
+				return;
+			}
+			await right.setViewState({ type: VIEW_TYPE_SYNC_LOG, active: true });
+			leaf = right;
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Open the canvas of a smart-split batch, generating it when missing.
+	 */
+	private async openBatchCanvas(batchId: string): Promise<void> {
+		const existing = this.app.vault.getAbstractFileByPath(this.batchCanvas.canvasPath(batchId));
+		const file = existing instanceof TFile ? existing : await this.batchCanvas.build(batchId);
+		await this.app.workspace.getLeaf(true).openFile(file);
+	}
+
+	/**
+	 * Read the configured template file, null when no template is set.
+	 * Throws when the configured file does not exist.
+	 */
+	private async readTemplate(kind: TemplateKind): Promise<string | null> {
+		const path = kind === "note" ? this.settings.noteTemplatePath : this.settings.appendTemplatePath;
+		if (!path) {
+			return null;
+		}
+		const file = this.app.vault.getAbstractFileByPath(normalizePath(path));
+		if (!(file instanceof TFile)) {
+			throw new Error(`Template not found: ${path}`);
+		}
+		return this.app.vault.cachedRead(file);
+	}
+
+	/**
+	 * Render a sample note through the configured templates and show
+	 * the result together with validation problems.
+	 */
+	private async previewTemplates(): Promise<void> {
+		const sample: NoteResponse = {
+			id: "00000000-0000-0000-0000-000000000000",
+			name: "Weekly planning",
+			content: "Discussed the release schedule and who owns the migration.",
+			category: "work",
+			tags: ["meeting", "planning"],
+			summary: "Release schedule and migration owner",
+			action_items: ["Send the release notes draft", "Book the review meeting"],
+			created_at: new Date().toISOString(),
+		};
+		const rendered = await this.writer.preview(sample, ["Migration checklist"]);
+
+		const sections = [];
+		for (const kind of ["note", "append"] as const) {
+			const path = kind === "note" ? this.settings.noteTemplatePath : this.settings.appendTemplatePath;
+			let errors: string[] = [];
+			try {
+				const template = await this.readTemplate(kind);
+				errors = template === null ? [] : validateTemplate(template, kind);
+			} catch (e) {
+				errors = [e instanceof Error ? e.message : String(e)];
+			}
+			sections.push({
+				title: t(kind === "note" ? "templatePreview.note" : "templatePreview.append"),
+				path: path || null,
+				errors,
+				output: rendered[kind],
+			});
+		}
+		new TemplatePreviewModal(this.app, sections).open();
+	}
+
+	/**
+	 * Review fetched notes in a modal when review mode is enabled,
+	 * otherwise accept all of them unchanged.
+	 */
+	private async reviewNotes(notes: NoteResponse[]): Promise<ReviewResult> {
+		if (!this.settings.reviewIncoming) {
+			return { accepted: notes, rejected: [], deferred: [] };
+		}
+		const categories = await this.configSync.getCategoryNames();
+		return new ReviewModal(this.app, notes, categories).review();
 	}
 
 	startSync(): void {
@@ -239,12 +683,12 @@ export default class ArchivistBotPlugin extends Plugin {
 		try {
 			// Validate connection via health check
 			const h = await this.client.health();
-			new Notice(`Server ok (v${h.version})`);
+			new Notice(t("notice.serverOk", { version: h.version }));
 		} catch (e) {
 			if (e instanceof RefreshTokenExpiredError) {
-				new Notice("Auth token expired. Use /newtoken in Telegram to get a new one.");
+				new Notice(t("notice.tokenExpired"));
 			} else {
-				new Notice(`Server unreachable — ${String(e)}`);
+				new Notice(t("notice.serverUnreachable", { error: String(e) }));
 			}
 			return;
 		}
@@ -287,31 +731,124 @@ export default class ArchivistBotPlugin extends Plugin {
 	}
 
 	/**
-	 * Scan _archive/ folder and return original vault_paths for reconciliation.
-	 * Converts archive paths back to original paths by removing /_archive/ segment.
+	 * resolutions.md was loaded or edited: report invalid rows and
+	 * refresh the resolution commands.
 	 */
-	private async scanArchivedPaths(): Promise<string[]> {
-		const archiveDir = `${this.settings.vaultBasePath}/_archive`;
-		const folder = this.app.vault.getAbstractFileByPath(archiveDir);
-		if (!(folder instanceof TFolder)) {
-			return [];
+	private async resolutionsChanged(): Promise<void> {
+		await this.resolutions.reportErrors();
+		await this.registerResolutionCommands();
+	}
+
+	/**
+	 * Add an "Archive note as …" command per resolution, so each can be
+	 * bound to a hotkey. Commands of removed resolutions become unavailable.
+	 */
+	private async registerResolutionCommands(): Promise<void> {
+		this.resolutionList = await this.archiver.getResolutions();
+		for (const { value, label } of this.resolutionList) {
+			this.addCommand({
+				id: `archive-as-${value}`,
+				name: t("command.archiveAs", { label }),
+				checkCallback: (checking: boolean) => {
+					const file = this.app.workspace.getActiveFile();
+					const resolution = this.resolutionList.find((r) => r.value === value);
+					if (!file || !resolution || !this.archiver.canArchive(file)) {
+						return false;
+					}
+					if (!checking) {
+						void this.archiver.archive(file, { resolution });
+					}
+					return true;
+				},
+			});
+		}
+	}
+
+	/**
+	 * Whether this device may sync: always, unless leader election is on
+	 * and another device holds the lease (takes or renews the lease).
+	 */
+	private async mayLead(): Promise<boolean> {
+		if (!this.settings.leaderElection) {
+			return true;
 		}
+		// Lease outlives a few missed cycles before another device takes over
+		const leaseMs = Math.max(3 * this.settings.syncIntervalSec, LEADER_LEASE_MIN_SEC) * 1000;
+		return this.leaderElection.acquire(leaseMs);
+	}
 
-		const paths: string[] = [];
-		const collectFiles = (f: TFolder): void => {
-			for (const child of f.children) {
-				if (child instanceof TFile && child.extension === "md") {
-					// Convert: VoiceNotes/_archive/work/note.md → VoiceNotes/work/note.md
-					const originalPath = child.path.replace("/_archive/", "/");
-					paths.push(originalPath);
-				} else if (child instanceof TFolder) {
-					collectFiles(child);
+	/**
+	 * Evaluate the tasks-done archive rule of an edited note.
+	 */
+	private async noteModified(file: TFile): Promise<void> {
+		try {
+			if (await this.archiveRules.noteModified(file)) {
+				this.syncEngine.requestReconciliation();
+			}
+		} catch (e) {
+			console.error("[ArchivistBot] Archive rule failed:", e);
+		}
+	}
+
+	/**
+	 * Evaluate idle archive rules over all synced notes.
+	 */
+	private async checkIdleNotes(): Promise<void> {
+		try {
+			if (await this.archiveRules.checkIdle() > 0) {
+				this.syncEngine.requestReconciliation();
+			}
+		} catch (e) {
+			console.error("[ArchivistBot] Archive rule failed:", e);
+		}
+	}
+
+	/**
+	 * Selected notes and the notes inside selected folders
+	 * (the archiver skips those that can't be archived).
+	 */
+	private selectedNotes(selection: TAbstractFile[]): TFile[] {
+		const notes = new Map<string, TFile>();
+		for (const item of selection) {
+			if (item instanceof TFile && item.extension === "md") {
+				notes.set(item.path, item);
+			} else if (item instanceof TFolder) {
+				const prefix = item.isRoot() ? "" : `${item.path}/`;
+				for (const file of this.app.vault.getMarkdownFiles()) {
+					if (file.path.startsWith(prefix)) {
+						notes.set(file.path, file);
+					}
 				}
 			}
-		};
-		collectFiles(folder);
+		}
+		return [...notes.values()];
+	}
 
-		return paths;
+	/**
+	 * Archive several notes with one resolution, then tell the server
+	 * about them in a single reconciliation.
+	 */
+	private async archiveMany(files: TFile[]): Promise<void> {
+		const archived = await this.archiver.archiveMany(files);
+		if (archived > 0) {
+			await this.syncEngine.reconcileArchived();
+		}
+	}
+
+	/**
+	 * Reconciliation payload: original vault_paths of the notes in
+	 * _archive/ with their resolution details, plus the paths of trashed
+	 * notes and of restored notes not reported yet. A note archived again
+	 * since its restore is only reported as archived.
+	 */
+	private async scanArchivedPaths(): Promise<ReconcileArchivedRequest> {
+		const scan = scanArchive(this.app, this.settings.vaultBasePath);
+		const vaultPaths = [...this.deviceState.trashedPaths, ...scan.vault_paths];
+		return {
+			...scan,
+			vault_paths: vaultPaths,
+			reactivated_paths: this.deviceState.restoredPaths.filter((p) => !vaultPaths.includes(p)),
+		};
 	}
 
 	/**
@@ -331,18 +868,102 @@ export default class ArchivistBotPlugin extends Plugin {
 	}
 
 	async loadSettings(): Promise<void> {
-		this.settings = Object.assign(
-			{},
-			DEFAULT_SETTINGS,
-			await this.loadData() as Partial<ArchivistBotSettings>
-		);
+		const data = (await this.loadData() ?? {}) as Partial<ArchivistBotSettings & DeviceState>;
+		const { pendingAcks, pendingPathUpdates, trashedPaths, restoredPaths, syncWatermark, syncLog, ...shared } = data;
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, shared);
+
+		const stored = await this.loadDeviceState();
+		this.deviceState = Object.assign({}, DEFAULT_DEVICE_STATE, stored);
+
+		// Plugin versions before the device file kept the sync state in
+		// data.json: the first device to load it takes it over
+		const legacy = Object.entries({ pendingAcks, pendingPathUpdates, trashedPaths, restoredPaths, syncWatermark, syncLog })
+			.filter(([, value]) => value !== undefined);
+		if (legacy.length > 0) {
+			if (!stored) {
+				this.deviceState = Object.assign({}, DEFAULT_DEVICE_STATE, Object.fromEntries(legacy));
+				await this.saveDeviceState();
+			}
+			await this.saveData(this.settings);
+		}
+	}
+
+	/**
+	 * Path of this device's sync state file, next to data.json.
+	 */
+	private deviceStatePath(): string {
+		const dir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		return normalizePath(`${dir}/device-${this.deviceId}.json`);
+	}
+
+	private async loadDeviceState(): Promise<Partial<DeviceState> | null> {
+		const path = this.deviceStatePath();
+		try {
+			if (!(await this.app.vault.adapter.exists(path))) {
+				return null;
+			}
+			return JSON.parse(await this.app.vault.adapter.read(path)) as Partial<DeviceState>;
+		} catch (e) {
+			console.warn("[ArchivistBot] Failed to read device sync state:", e);
+			return null;
+		}
+	}
+
+	private async saveDeviceState(): Promise<void> {
+		await this.app.vault.adapter.write(this.deviceStatePath(), JSON.stringify(this.deviceState, null, "\t"));
 	}
 
 	async saveSettings(): Promise<void> {
 		await this.saveData(this.settings);
 		// Update all components with new base path
 		this.writer.setBasePath(this.settings.vaultBasePath);
+		this.writer.setFileNamePattern(this.settings.fileNamePattern, this.settings.fileNameUtc);
+		this.writer.setTaskFormat(this.settings.taskFormat);
+		this.writer.setAppendPlacement(
+			{ mode: this.settings.appendMode, heading: this.settings.appendHeading },
+			parsePlacementRules(this.settings.appendPlacementRules).rules,
+		);
+		this.writer.setFolderMappings(parseFolderMappings(this.settings.folderMappings).mappings);
+		this.writer.setDatePartition(this.settings.datePartition);
+		this.dailyNotes.setOptions(this.dailyNoteOptions());
 		this.archiver.setBasePath(this.settings.vaultBasePath);
+		this.archiver.setFolderMappings(parseFolderMappings(this.settings.folderMappings).mappings);
+		this.archiver.setDatePartition(this.settings.datePartition);
+		this.categoryIndex.setBasePath(this.settings.vaultBasePath);
+		this.batchCanvas.setBasePath(this.settings.vaultBasePath);
+		this.resolutions.setBasePath(this.settings.vaultBasePath);
+		this.archiveRules.setRules(parseArchiveRules(this.settings.archiveRules).rules);
+		this.categoryIndex.setFolderMappings(parseFolderMappings(this.settings.folderMappings).mappings);
+		this.writer.setCategoryIndex(this.settings.categoryIndexes ? this.categoryIndex : null);
+		this.archiver.setCategoryIndex(this.settings.categoryIndexes ? this.categoryIndex : null);
 		this.configSync.setBasePath(this.settings.vaultBasePath);
+		this.leaderElection.setBasePath(this.settings.vaultBasePath);
+	}
+
+	private dailyNoteOptions(): DailyNoteOptions {
+		return {
+			heading: this.settings.dailyNotesHeading,
+			folder: this.settings.dailyNotesFolder,
+			format: this.settings.dailyNotesFormat,
+		};
+	}
+}
+
+/** Minimum sync leader lease (seconds). */
+const LEADER_LEASE_MIN_SEC = 120;
+
+/** localStorage key of this device's id (plugin data is shared across devices). */
+const DEVICE_ID_KEY = "archivistbot-device-id";
+
+/**
+ * Stable per-device id for leader election.
+ * Stored in localStorage — data.json is synced between devices and can't be used.
+ */
+function getDeviceId(): string {
+	let id = window.localStorage.getItem(DEVICE_ID_KEY);
+	if (!id) {
+		id = crypto.randomUUID();
+		window.localStorage.setItem(DEVICE_ID_KEY, id);
 	}
+	return id;
 }
@@ -0,0 +1,99 @@
+// src/markdown-sections.ts
+
+/**
+ * Insert lines into the section under a heading, after the section's
+ * last list item (matched by `itemPattern`). The section ends at the
+ * next heading or horizontal rule. When no heading from `headings`
+ * exists, `newHeading` and the lines are added at the end of the content.
+ *
+ * @param headings Accepted heading lines, e.g. ["## Tasks", "## Задачи"]
+ */
+export function insertUnderHeading(
+	content: string,
+	headings: string[],
+	newLines: string[],
+	itemPattern: RegExp,
+	newHeading: string,
+): string {
+	if (newLines.length === 0) {
+		return content;
+	}
+	const lines = content.split("\n");
+	const start = lines.findIndex((line) => headings.includes(line.trim()));
+	if (start === -1) {
+		const body = content.trimEnd();
+		return `${body}${body ? "\n\n" : ""}${newHeading}\n\n${newLines.join("\n")}`;
+	}
+
+	let end = lines.length;
+	for (let i = start + 1; i < lines.length; i++) {
+		if (/^#{1,6}\s/.test(lines[i]) || lines[i].trim() === "---") {
+			end = i;
+			break;
+		}
+	}
+
+	let lastItem = -1;
+	for (let i = start + 1; i < end; i++) {
+		if (itemPattern.test(lines[i])) {
+			lastItem = i;
+		}
+	}
+
+	if (lastItem !== -1) {
+		lines.splice(lastItem + 1, 0, ...newLines);
+	} else {
+		// Empty section: heading, blank line, items, blank line before what follows
+		const following = lines[start + 1];
+		const block = ["", ...newLines];
+		if (following !== undefined && following.trim() !== "") {
+			block.push("");
+		}
+		lines.splice(start + 1, 0, ...block);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Add a block at the end of the section under `heading` (before the next
+ * heading of the same or a higher level). Without such a heading, the
+ * heading and the block are added at the end of the content.
+ */
+export function appendToSection(content: string, heading: string, block: string): string {
+	const lines = content.split("\n");
+	const start = lines.findIndex((line) => line.trim() === heading.trim());
+	if (start === -1) {
+		const body = content.trimEnd();
+		return `${body}${body ? "\n\n" : ""}${heading.trim()}\n\n${block}`;
+	}
+
+	const level = headingLevel(lines[start]);
+	let end = lines.length;
+	for (let i = start + 1; i < lines.length; i++) {
+		const next = headingLevel(lines[i]);
+		if (next > 0 && next <= level) {
+			end = i;
+			break;
+		}
+	}
+
+	// Insert after the section's last non-blank line
+	let last = end - 1;
+	while (last > start && lines[last].trim() === "") {
+		last--;
+	}
+	const insert = ["", ...block.split("\n")];
+	if (end < lines.length) {
+		// One blank line before the next heading
+		lines.splice(last + 1, end - last - 1, ...insert, "");
+	} else {
+		lines.splice(last + 1, 0, ...insert);
+	}
+	return lines.join("\n");
+}
+
+/** Level of an ATX heading line (`## x` → 2), 0 for other lines. */
+function headingLevel(line: string): number {
+	const match = line.match(/^(#{1,6})\s/);
+	return match ? match[1].length : 0;
+}
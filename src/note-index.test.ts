@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from "vitest";
+import { App, TFile } from "obsidian";
+import { NoteIndex } from "./note-index";
+
+function createIndex(): { app: App; index: NoteIndex } {
+	const app = new App();
+	const index = new NoteIndex(app);
+	return { app, index };
+}
+
+describe("NoteIndex", () => {
+	it("indexes files by archivist_id on rebuild", () => {
+		const { app, index } = createIndex();
+		(app.vault as any)._addFile("VoiceNotes/work/a.md", "---\narchivist_id: id-a\n---\n\nA");
+		(app.vault as any)._addFile("VoiceNotes/work/plain.md", "---\ncategory: work\n---\n\nNo id");
+
+		index.rebuild();
+
+		expect(index.getById("id-a")?.path).toBe("VoiceNotes/work/a.md");
+		expect(index.getIdByPath("VoiceNotes/work/a.md")).toBe("id-a");
+		expect(index.getIdByPath("VoiceNotes/work/plain.md")).toBeNull();
+	});
+
+	it("returns null when the indexed file no longer exists", () => {
+		const { index } = createIndex();
+		index.record("id-a", "VoiceNotes/work/gone.md");
+
+		expect(index.getById("id-a")).toBeNull();
+	});
+
+	it("moves an id to its new path on record", () => {
+		const { app, index } = createIndex();
+		(app.vault as any)._addFile("VoiceNotes/new.md", "x");
+		index.record("id-a", "VoiceNotes/old.md");
+
+		index.record("id-a", "VoiceNotes/new.md");
+
+		expect(index.getIdByPath("VoiceNotes/old.md")).toBeNull();
+		expect(index.getById("id-a")).toBeInstanceOf(TFile);
+	});
+
+	it("reports renames of indexed notes", () => {
+		const { app, index } = createIndex();
+		(app.vault as any)._addFile("VoiceNotes/work/a.md", "---\narchivist_id: id-a\n---\n\nA");
+		index.rebuild();
+		index.startWatching(() => {});
+		const onRename = vi.fn();
+		index.setRenameCallback(onRename);
+
+		(app.vault as any)._trigger("rename", new TFile("VoiceNotes/projects/b.md"), "VoiceNotes/work/a.md");
+		(app.vault as any)._trigger("rename", new TFile("Other/x.md"), "Other/plain.md");
+
+		expect(onRename).toHaveBeenCalledTimes(1);
+		expect(onRename).toHaveBeenCalledWith("id-a", "VoiceNotes/work/a.md", "VoiceNotes/projects/b.md");
+		expect(index.getIdByPath("VoiceNotes/projects/b.md")).toBe("id-a");
+	});
+});
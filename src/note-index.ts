@@ -0,0 +1,118 @@
+// src/note-index.ts
+import { App, TFile, type EventRef } from "obsidian";
+
+/** Frontmatter key holding the server note id. */
+export const ARCHIVIST_ID_KEY = "archivist_id";
+
+/**
+ * In-memory index of archivist notes: server note id → vault path.
+ *
+ * Built from the metadata cache (`archivist_id` in frontmatter) and kept
+ * up to date on metadata changes, renames and deletes, so notes can be
+ * found by id after the user renamed or moved them.
+ */
+export class NoteIndex {
+	private pathById = new Map<string, string>();
+	private idByPath = new Map<string, string>();
+	private onRename: ((id: string, oldPath: string, newPath: string) => void) | null = null;
+
+	constructor(private app: App) {}
+
+	/**
+	 * Set callback for renames / moves of indexed notes.
+	 */
+	setRenameCallback(callback: (id: string, oldPath: string, newPath: string) => void): void {
+		this.onRename = callback;
+	}
+
+	/**
+	 * (Re)build the index from all markdown files in the vault.
+	 * Call once the layout is ready (metadata cache is populated).
+	 */
+	rebuild(): void {
+		this.pathById.clear();
+		this.idByPath.clear();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			this.indexFile(file);
+		}
+	}
+
+	/**
+	 * Keep the index in sync with vault changes.
+	 */
+	startWatching(registerEvent: (ref: EventRef) => void): void {
+		registerEvent(
+			this.app.metadataCache.on("changed", (file) => {
+				this.indexFile(file);
+			})
+		);
+		registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				const id = this.idByPath.get(oldPath);
+				if (id && file instanceof TFile) {
+					this.remove(oldPath);
+					this.record(id, file.path);
+					this.onRename?.(id, oldPath, file.path);
+				}
+			})
+		);
+		registerEvent(
+			this.app.vault.on("delete", (file) => {
+				this.remove(file.path);
+			})
+		);
+	}
+
+	/**
+	 * Record a note written by the plugin — available before the
+	 * metadata cache catches up.
+	 */
+	record(id: string, path: string): void {
+		const previous = this.pathById.get(id);
+		if (previous && previous !== path) {
+			this.idByPath.delete(previous);
+		}
+		this.pathById.set(id, path);
+		this.idByPath.set(path, id);
+	}
+
+	/**
+	 * Find the file of a note by its server id.
+	 */
+	getById(id: string): TFile | null {
+		const path = this.pathById.get(id);
+		if (!path) {
+			return null;
+		}
+		const file = this.app.vault.getAbstractFileByPath(path);
+		return file instanceof TFile ? file : null;
+	}
+
+	/**
+	 * Get the server id of the note at `path`, if it's an archivist note.
+	 */
+	getIdByPath(path: string): string | null {
+		return this.idByPath.get(path) ?? null;
+	}
+
+	private indexFile(file: TFile): void {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const id: unknown = fm?.[ARCHIVIST_ID_KEY];
+		if (typeof id === "string" && id) {
+			this.record(id, file.path);
+		} else {
+			this.remove(file.path);
+		}
+	}
+
+	private remove(path: string): void {
+		const id = this.idByPath.get(path);
+		if (!id) {
+			return;
+		}
+		this.idByPath.delete(path);
+		if (this.pathById.get(id) === path) {
+			this.pathById.delete(id);
+		}
+	}
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { moment } from "obsidian";
+import { renderTemplate, validateTemplate } from "./note-template";
+import type { TemplateContext } from "./note-template";
+
+function makeContext(overrides: Partial<TemplateContext> = {}): TemplateContext {
+	return {
+		name: "Test Note",
+		content: "Body text.",
+		summary: "Short summary",
+		category: "work",
+		id: "test-uuid-123",
+		tags: "#meeting #planning",
+		action_items: "- [ ] Call Anna",
+		siblings: "",
+		created: "2026-02-07T10:05:00Z",
+		...overrides,
+	};
+}
+
+describe("renderTemplate", () => {
+	it("substitutes placeholders", () => {
+		const result = renderTemplate("> {{summary}}\n\n{{content}}\n\n{{tags}}", makeContext());
+
+		expect(result).toBe("> Short summary\n\nBody text.\n\n#meeting #planning");
+	});
+
+	it("formats created in local time with default and explicit formats", () => {
+		const result = renderTemplate("{{created}} | {{created:DD.MM.YYYY}}", makeContext());
+
+		const local = moment.utc("2026-02-07T10:05:00Z").local();
+		expect(result).toBe(`${local.format("YYYY-MM-DD HH:mm")} | ${local.format("DD.MM.YYYY")}`);
+	});
+
+	it("drops lines of empty placeholders and collapses blank lines", () => {
+		const result = renderTemplate("{{content}}\n\n## Related\n{{siblings}}\n\n\nEnd", makeContext());
+
+		expect(result).toBe("Body text.\n\n## Related\n\nEnd");
+	});
+
+	it("keeps blank lines inside the note content", () => {
+		const result = renderTemplate("{{content}}", makeContext({ content: "A\n\n\n\nB" }));
+
+		expect(result).toBe("A\n\n\n\nB");
+	});
+
+	it("ignores the template's own frontmatter", () => {
+		const result = renderTemplate("---\ntags: template\n---\n{{content}}", makeContext());
+
+		expect(result).toBe("Body text.");
+	});
+});
+
+describe("validateTemplate", () => {
+	it("accepts a valid template", () => {
+		expect(validateTemplate("{{tags}}\n\n{{content}}\n\n{{created:YYYY}}", "note")).toEqual([]);
+	});
+
+	it("reports unknown placeholders and misplaced formats", () => {
+		const errors = validateTemplate("{{content}} {{author}} {{summary:upper}}", "note");
+
+		expect(errors).toEqual([
+			"Unknown placeholder {{author}}",
+			"Placeholder {{summary}} does not take a format",
+		]);
+	});
+
+	it("reports malformed placeholders", () => {
+		const errors = validateTemplate("{{content}} {{summary", "append");
+
+		expect(errors).toEqual(['Malformed placeholder near "{{summary"']);
+	});
+
+	it("requires {{content}}", () => {
+		expect(validateTemplate("{{summary}}", "append")).toEqual([
+			"Append template must contain {{content}}",
+		]);
+	});
+});
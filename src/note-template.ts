@@ -0,0 +1,102 @@
+// src/note-template.ts
+import { moment } from "obsidian";
+
+/** Template kinds: whole body of a new note, or one appended addition. */
+export type TemplateKind = "note" | "append";
+
+/** Reads the raw text of the configured template, null when none is set. */
+export type TemplateLoader = (kind: TemplateKind) => Promise<string | null>;
+
+/** Values available to `{{placeholder}}` substitution. */
+export interface TemplateContext {
+	name: string;
+	content: string;
+	summary: string;
+	category: string;
+	id: string;
+	/** Hashtag line, e.g. "#meeting #planning" */
+	tags: string;
+	/** Checklist lines, e.g. "- [ ] Call Anna" */
+	action_items: string;
+	/** Wikilink list of sibling notes, e.g. "- [[Other note]]" */
+	siblings: string;
+	/** ISO timestamp, rendered via `{{created}}` / `{{created:format}}` */
+	created: string;
+}
+
+/** Default format of `{{created}}` without an explicit format. */
+const DEFAULT_DATE_FORMAT = "YYYY-MM-DD HH:mm";
+
+/** Placeholders accepted in templates (`created` also takes `:format`). */
+export const TEMPLATE_PLACEHOLDERS: readonly (keyof TemplateContext)[] = [
+	"name", "content", "summary", "category", "id",
+	"tags", "action_items", "siblings", "created",
+];
+
+const PLACEHOLDER = /\{\{\s*([a-z_]+)(?::([^}]*))?\s*\}\}/g;
+
+/**
+ * Render a template: substitute placeholders, drop the template's own
+ * frontmatter (the plugin always generates frontmatter itself) and
+ * remove blank lines left by empty placeholders.
+ */
+export function renderTemplate(template: string, ctx: TemplateContext): string {
+	const values: string[] = [];
+	// Substitute into a skeleton first so blank-line cleanup never
+	// touches the note content itself
+	const skeleton = stripFrontmatter(template)
+		.replace(PLACEHOLDER, (match, key: string, format?: string) => {
+			let value: string;
+			if (key === "created") {
+				value = moment.utc(ctx.created).local().format(format?.trim() || DEFAULT_DATE_FORMAT);
+			} else if ((TEMPLATE_PLACEHOLDERS as readonly string[]).includes(key)) {
+				value = ctx[key as keyof TemplateContext];
+			} else {
+				value = match;
+			}
+			values.push(value);
+			return `\uE000${values.length - 1}\uE000`;
+		})
+		.split("\n")
+		.filter((line) => !/^\uE000\d+\uE000$/.test(line) || values[Number(line.slice(1, -1))] !== "")
+		.join("\n")
+		.replace(/\n{3,}/g, "\n\n");
+
+	return skeleton.replace(/\uE000(\d+)\uE000/g, (_, i: string) => values[Number(i)]);
+}
+
+/**
+ * Check a template for mistakes.
+ * @returns Human-readable problems, empty when the template is usable
+ */
+export function validateTemplate(template: string, kind: TemplateKind): string[] {
+	const errors: string[] = [];
+	const body = stripFrontmatter(template);
+
+	for (const [, key, format] of body.matchAll(PLACEHOLDER)) {
+		if (!(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(key)) {
+			errors.push(`Unknown placeholder {{${key}}}`);
+		} else if (format !== undefined && key !== "created") {
+			errors.push(`Placeholder {{${key}}} does not take a format`);
+		}
+	}
+
+	const malformed = body.replace(PLACEHOLDER, "").match(/\{\{[^\n]{0,20}/);
+	if (malformed) {
+		errors.push(`Malformed placeholder near "${malformed[0]}"`);
+	}
+
+	if (![...body.matchAll(PLACEHOLDER)].some(([, key]) => key === "content")) {
+		errors.push(
+			kind === "note"
+				? "Note template must contain {{content}}"
+				: "Append template must contain {{content}}",
+		);
+	}
+
+	return errors;
+}
+
+function stripFrontmatter(template: string): string {
+	return template.replace(/^---\n[\s\S]*?\n---\n?/, "");
+}
@@ -1,6 +1,8 @@
-import { describe, it, expect } from "vitest";
-import { App, parseYaml } from "obsidian";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { App, Notice, parseYaml } from "obsidian";
 import { NoteWriter } from "./note-writer";
+import { NoteIndex } from "./note-index";
+import { setLocale } from "./i18n";
 import type { NoteResponse } from "./types";
 
 function createWriter(): { app: App; writer: NoteWriter } {
@@ -26,6 +28,10 @@ function makeNote(overrides: Partial<NoteResponse> = {}): NoteResponse {
 }
 
 describe("NoteWriter", () => {
+	beforeEach(() => {
+		setLocale("ru");
+	});
+
 	describe("write (new file)", () => {
 		it("creates file with datetime-stamped path", async () => {
 			const { writer } = createWriter();
@@ -48,6 +54,44 @@ describe("NoteWriter", () => {
 			expect(result).toBeNull();
 		});
 
+		it("adds a counter when a different note has the same file name", async () => {
+			const { writer } = createWriter();
+			await writer.write(makeNote({ id: "first" }));
+
+			const path = await writer.write(makeNote({ id: "second" }));
+
+			expect(path).toBe(`VoiceNotes/work/Test Note${TS} 2.md`);
+		});
+
+		it("skips legacy files without archivist_id at the same path", async () => {
+			const { app, writer } = createWriter();
+			(app.vault as any)._addFile(`VoiceNotes/work/Test Note${TS}.md`, "---\ncategory: work\n---\n\nOld.");
+
+			expect(await writer.write(makeNote())).toBeNull();
+		});
+
+		it("deduplicates by archivist_id when the pattern changed", async () => {
+			const { app, writer } = createWriter();
+			const index = new NoteIndex(app);
+			writer.setNoteIndex(index);
+			await writer.write(makeNote());
+
+			writer.setFileNamePattern("{date:YYYY-MM-DD} {name}", true);
+			const result = await writer.write(makeNote());
+
+			expect(result).toBeNull();
+			expect((app.vault as any)._getFile("VoiceNotes/work/2026-02-07 Test Note.md")).toBeUndefined();
+		});
+
+		it("names files by the configured pattern", async () => {
+			const { writer } = createWriter();
+			writer.setFileNamePattern("{date:YYYY-MM-DD} {name} {id8}", true);
+
+			const path = await writer.write(makeNote());
+
+			expect(path).toBe("VoiceNotes/work/2026-02-07 Test Note test-uui.md");
+		});
+
 		it("creates nested category folders", async () => {
 			const { writer } = createWriter();
 			const note = makeNote({ category: "work/meetings" });
@@ -119,10 +163,13 @@ describe("NoteWriter", () => {
 				created_at: "2026-02-07T16:00:00Z",
 			});
 
+			const restored = vi.fn();
+			writer.setRestoreHandler(restored);
 			const resultPath = await writer.write(appendNote);
 
 			// Should restore to original path
 			expect(resultPath).toBe(originalPath);
+			expect(restored).toHaveBeenCalledWith(originalPath);
 			// File should be at original path, not archive
 			expect((app.vault as any)._getFile(originalPath)).toBeDefined();
 			expect((app.vault as any)._getFile(archivePath)).toBeUndefined();
@@ -131,6 +178,169 @@ describe("NoteWriter", () => {
 			expect(content).toContain("Content after restore.");
 		});
 
+		it("logs the resolution of a restored note to archive_history", async () => {
+			const { app, writer } = createWriter();
+			const originalPath = `VoiceNotes/work/Test Note${TS}.md`;
+			(app.vault as any)._addFile(
+				`VoiceNotes/_archive/work/Test Note${TS}.md`,
+				"---\ncategory: work\nresolution: realized\narchived_at: 2026-02-07T12:00:00\n---\n\nOriginal content.",
+			);
+
+			await writer.write(makeNote({ id: "reply", content: "Reopened.", append_to: originalPath }));
+
+			const content = (app.vault as any)._getFile(originalPath) as string;
+			const fm = parseYaml(content.match(/^---\n([\s\S]*?)\n---/)![1]) as Record<string, unknown>;
+			expect(fm.resolution).toBeUndefined();
+			expect(fm.archive_history).toEqual([
+				{ resolution: "realized", archived_at: "2026-02-07T12:00:00", restored_at: expect.any(String) },
+			]);
+		});
+
+		it("skips an addition that was already appended (same note id)", async () => {
+			const { app, writer } = createWriter();
+			const targetPath = await writer.write(makeNote());
+			const appendNote = makeNote({
+				id: "append-uuid-dup",
+				content: "Appended once.",
+				append_to: targetPath,
+				created_at: "2026-02-07T12:00:00Z",
+			});
+
+			const first = await writer.write(appendNote);
+			const second = await writer.write(appendNote);
+
+			expect(first).toBe(targetPath);
+			expect(second).toBeNull();
+			const content = (app.vault as any)._getFile(targetPath) as string;
+			expect(content.split("Appended once.").length - 1).toBe(1);
+		});
+
+		it("records appended note ids in archivist_appended", async () => {
+			const { app, writer } = createWriter();
+			const targetPath = await writer.write(makeNote());
+
+			await writer.write(makeNote({ id: "a1", content: "One.", append_to: targetPath }));
+			await writer.write(makeNote({ id: "a2", content: "Two.", append_to: targetPath }));
+
+			const content = (app.vault as any)._getFile(targetPath) as string;
+			const fm = parseYaml(content.match(/^---\n([\s\S]*?)\n---/)![1]) as Record<string, unknown>;
+			expect(fm.archivist_appended).toEqual(["a1", "a2"]);
+		});
+
+		it("migrates legacy files: matching Дополнение block is not appended again", async () => {
+			const { app, writer } = createWriter();
+			const targetPath = "VoiceNotes/work/legacy.md";
+			(app.vault as any)._addFile(
+				targetPath,
+				"---\ncategory: work\n---\n\nOriginal.\n\n---\n\n**Дополнение** (2026-02-07 12:00)\n\nLegacy addition.",
+			);
+
+			const result = await writer.write(makeNote({
+				id: "legacy-append",
+				content: "Legacy addition.",
+				append_to: targetPath,
+			}));
+
+			expect(result).toBeNull();
+			const content = (app.vault as any)._getFile(targetPath) as string;
+			expect(content.split("Legacy addition.").length - 1).toBe(1);
+			const fm = parseYaml(content.match(/^---\n([\s\S]*?)\n---/)![1]) as Record<string, unknown>;
+			expect(fm.archivist_appended).toEqual(["legacy-append"]);
+		});
+
+		it("appends a repeated short reply to a file with archivist_appended", async () => {
+			const { app, writer } = createWriter();
+			const targetPath = await writer.write(makeNote());
+
+			await writer.write(makeNote({ id: "reply-1", content: "ok", append_to: targetPath! }));
+			const result = await writer.write(makeNote({ id: "reply-2", content: "ok", append_to: targetPath! }));
+
+			expect(result).toBe(targetPath);
+			const content = (app.vault as any)._getFile(targetPath) as string;
+			expect(content.split("\n\nok").length - 1).toBe(2);
+			const fm = parseYaml(content.match(/^---\n([\s\S]*?)\n---/)![1]) as Record<string, unknown>;
+			expect(fm.archivist_appended).toEqual(["reply-1", "reply-2"]);
+		});
+
+		it("appends to legacy files when the addition is new", async () => {
+			const { app, writer } = createWriter();
+			const targetPath = "VoiceNotes/work/legacy.md";
+			(app.vault as any)._addFile(
+				targetPath,
+				"---\ncategory: work\n---\n\nOriginal.\n\n---\n\n**Дополнение** (2026-02-07 12:00)\n\nLegacy addition.",
+			);
+
+			const result = await writer.write(makeNote({
+				id: "new-append",
+				content: "Fresh addition.",
+				append_to: targetPath,
+			}));
+
+			expect(result).toBe(targetPath);
+			const content = (app.vault as any)._getFile(targetPath) as string;
+			expect(content).toContain("Fresh addition.");
+		});
+
+		it("appends to the parent found by id when the note was renamed", async () => {
+			const { app, writer } = createWriter();
+			const index = new NoteIndex(app);
+			writer.setNoteIndex(index);
+			const originalPath = await writer.write(makeNote({ id: "parent-id" }));
+
+			// User renamed the note — server still knows the old path
+			const renamedPath = "VoiceNotes/projects/Renamed.md";
+			(app.vault as any)._addFile(renamedPath, (app.vault as any)._getFile(originalPath));
+			(app.vault as any).files.delete(originalPath);
+			index.rebuild();
+
+			const result = await writer.write(makeNote({
+				id: "child-id",
+				content: "Follow-up after rename.",
+				append_to: originalPath,
+				parent_note_id: "parent-id",
+			}));
+
+			expect(result).toBe(renamedPath);
+			expect((app.vault as any)._getFile(renamedPath)).toContain("Follow-up after rename.");
+		});
+
+		it("restores a renamed parent from archive by id", async () => {
+			const { app, writer } = createWriter();
+			const index = new NoteIndex(app);
+			writer.setNoteIndex(index);
+			const archivedPath = "VoiceNotes/_archive/projects/Renamed.md";
+			(app.vault as any)._addFile(archivedPath, "---\narchivist_id: parent-id\n---\n\nOriginal.");
+			index.rebuild();
+
+			const result = await writer.write(makeNote({
+				id: "child-id",
+				content: "Follow-up.",
+				append_to: "VoiceNotes/work/Old Name.md",
+				parent_note_id: "parent-id",
+			}));
+
+			expect(result).toBe("VoiceNotes/projects/Renamed.md");
+			expect((app.vault as any)._getFile(archivedPath)).toBeUndefined();
+			expect(index.getById("parent-id")?.path).toBe("VoiceNotes/projects/Renamed.md");
+		});
+
+		it("restores a note archived from a mapped folder by archived_from", async () => {
+			const { app, writer } = createWriter();
+			const originalPath = "Areas/Work/Plan.md";
+			const archivePath = "VoiceNotes/_archive/work/Plan.md";
+			(app.vault as any)._addFile(archivePath, `---\ncategory: work\narchived_from: ${originalPath}\n---\n\nOriginal.`);
+
+			const result = await writer.write(makeNote({
+				id: "child-id",
+				content: "Follow-up.",
+				append_to: originalPath,
+			}));
+
+			expect(result).toBe(originalPath);
+			expect((app.vault as any)._getFile(archivePath)).toBeUndefined();
+			expect((app.vault as any)._getFile(originalPath)).toContain("Follow-up.");
+		});
+
 		it("falls back to new file when not found anywhere", async () => {
 			const { writer } = createWriter();
 			const note = makeNote({
@@ -145,6 +355,39 @@ describe("NoteWriter", () => {
 		});
 	});
 
+	describe("folder layout", () => {
+		it("writes new notes into the mapped folder of their category", async () => {
+			const { writer } = createWriter();
+			writer.setFolderMappings([
+				{ category: "work", folder: "Areas/Work", subcategories: true },
+				{ category: "ideas", folder: "Inbox/Ideas", subcategories: false },
+			]);
+
+			expect(await writer.write(makeNote({ id: "a", category: "work/meetings" })))
+				.toBe(`Areas/Work/meetings/Test Note${TS}.md`);
+			expect(await writer.write(makeNote({ id: "b", category: "ideas/apps" })))
+				.toBe(`VoiceNotes/ideas/apps/Test Note${TS}.md`);
+		});
+
+		it("places new notes in date subfolders", async () => {
+			const { writer } = createWriter();
+			writer.setDatePartition("month");
+			const note = makeNote({ created_at: "2026-02-11T12:00:00Z" });
+
+			expect(await writer.write(note)).toBe("VoiceNotes/work/2026/02/Test Note_20260211_120000.md");
+		});
+
+		it("restores a partitioned archived note by archived_from", async () => {
+			const { app, writer } = createWriter();
+			const originalPath = "VoiceNotes/work/2026/W07/Plan.md";
+			const archivePath = "VoiceNotes/_archive/work/2026/W07/Plan.md";
+			(app.vault as any)._addFile(archivePath, `---\narchived_from: ${originalPath}\n---\n\nOriginal.`);
+
+			expect(await writer.write(makeNote({ id: "child", append_to: originalPath }))).toBe(originalPath);
+			expect((app.vault as any)._getFile(archivePath)).toBeUndefined();
+		});
+	});
+
 	describe("markdown generation", () => {
 		it("includes YAML frontmatter with correct fields", async () => {
 			const { app, writer } = createWriter();
@@ -163,6 +406,7 @@ describe("NoteWriter", () => {
 			expect(fm.summary).toBe("A test note about work");
 			expect(fm.source).toBe("telegram");
 			expect(fm.created).toBe("2026-02-07T10:00:00Z");
+			expect(fm.archivist_id).toBe("test-uuid-123");
 		});
 
 		it("includes synced_at when present", async () => {
@@ -239,6 +483,74 @@ describe("NoteWriter", () => {
 		});
 	});
 
+	describe("templates", () => {
+		beforeEach(() => {
+			setLocale("en");
+			Notice.calls = [];
+		});
+
+		it("renders the body of new notes through the note template", async () => {
+			const { app, writer } = createWriter();
+			writer.setTemplateLoader(async (kind) =>
+				kind === "note" ? "> {{summary}}\n\n{{content}}\n\n{{action_items}}" : null
+			);
+
+			const path = await writer.write(makeNote({ action_items: ["Call Anna"] }));
+
+			const content = (app.vault as any)._getFile(path!) as string;
+			const body = content.replace(/^---\n[\s\S]*?\n---\n\n/, "");
+			expect(body).toBe("> A test note about work\n\nThis is the note content.\n\n- [ ] Call Anna");
+			// Frontmatter is still generated by the plugin
+			expect(content).toContain("archivist_id: test-uuid-123");
+		});
+
+		it("renders additions through the append template", async () => {
+			const { app, writer } = createWriter();
+			writer.setTemplateLoader(async (kind) =>
+				kind === "append" ? "### {{created:DD.MM.YYYY}}\n\n{{content}}" : null
+			);
+			const targetPath = await writer.write(makeNote());
+
+			await writer.write(makeNote({
+				id: "append-id",
+				content: "Extra.",
+				append_to: targetPath,
+				created_at: "2026-02-08T12:00:00Z",
+			}));
+
+			const content = (app.vault as any)._getFile(targetPath!) as string;
+			expect(content).toMatch(/This is the note content\.\n\n### 08\.02\.2026\n\nExtra\.$/);
+		});
+
+		it("falls back to the built-in layout for invalid templates", async () => {
+			const { app, writer } = createWriter();
+			writer.setTemplateLoader(async () => "{{summary}} without content");
+
+			const path = await writer.write(makeNote());
+
+			const content = (app.vault as any)._getFile(path!) as string;
+			expect(content).toContain("#meeting #planning\n\nThis is the note content.");
+			expect(Notice.calls).toHaveLength(1);
+			expect(Notice.calls[0]).toContain("template ignored (New note)");
+		});
+
+		it("falls back to the built-in layout when the template cannot be read", async () => {
+			const { app, writer } = createWriter();
+			writer.setTemplateLoader(async () => {
+				throw new Error("Template not found: missing.md");
+			});
+
+			const path = await writer.write(makeNote());
+			await writer.write(makeNote({ id: "other-id", name: "Other" }));
+
+			expect((app.vault as any)._getFile(path!)).toContain("This is the note content.");
+			// Reported once per session, not for every note
+			expect(Notice.calls).toEqual([
+				"Archivistbot: template ignored (New note), using the built-in layout — Template not found: missing.md",
+			]);
+		});
+	});
+
 	describe("action items", () => {
 		it("includes action_items in frontmatter when present", async () => {
 			const { app, writer } = createWriter();
@@ -295,6 +607,115 @@ describe("NoteWriter", () => {
 		});
 	});
 
+	describe("task format", () => {
+		it("writes action items in Obsidian Tasks format", async () => {
+			const { app, writer } = createWriter();
+			writer.setTaskFormat("tasks");
+
+			const path = await writer.write(makeNote({ action_items: ["Позвонить клиенту завтра"] }));
+
+			const content = (app.vault as any)._getFile(path!) as string;
+			expect(content).toContain("- [ ] Позвонить клиенту завтра #work ➕ 2026-02-07 📅 2026-02-08");
+		});
+
+		it("merges action items of additions into the task section", async () => {
+			const { app, writer } = createWriter();
+			const targetPath = await writer.write(makeNote({ action_items: ["Первая"] }));
+
+			await writer.write(makeNote({
+				id: "append-tasks",
+				content: "Addition text.",
+				action_items: ["Вторая"],
+				append_to: targetPath,
+			}));
+
+			const content = (app.vault as any)._getFile(targetPath!) as string;
+			expect(content).toMatch(/## Задачи\n\n- \[ \] Первая\n- \[ \] Вторая\n/);
+			expect(content.indexOf("- [ ] Вторая")).toBeLessThan(content.indexOf("Addition text."));
+			const fm = parseYaml(content.match(/^---\n([\s\S]*?)\n---/)![1]) as Record<string, unknown>;
+			expect(fm.action_items).toEqual(["Первая", "Вторая"]);
+		});
+	});
+
+	describe("append placement", () => {
+		function frontmatterOf(content: string): Record<string, unknown> {
+			return parseYaml(content.match(/^---\n([\s\S]*?)\n---/)![1]) as Record<string, unknown>;
+		}
+
+		it("inserts additions under the configured heading", async () => {
+			const { app, writer } = createWriter();
+			writer.setAppendPlacement({ mode: "heading", heading: "## Updates" });
+			const targetPath = await writer.write(makeNote({ action_items: ["Первая"] }));
+
+			await writer.write(makeNote({
+				id: "reply-1",
+				content: "Reply text.",
+				action_items: ["Вторая"],
+				append_to: targetPath,
+			}));
+
+			const content = (app.vault as any)._getFile(targetPath!) as string;
+			expect(content).toMatch(/## Updates\n\n\*\*Дополнение\*\* \(2026-02-07 10:00\)\n\nReply text\.$/);
+			expect(content).toMatch(/- \[ \] Первая\n- \[ \] Вторая\n/);
+		});
+
+		it("prepends additions right after the frontmatter", async () => {
+			const { app, writer } = createWriter();
+			writer.setAppendPlacement({ mode: "prepend", heading: "" });
+			const targetPath = await writer.write(makeNote());
+
+			await writer.write(makeNote({ id: "reply-1", content: "Reply text.", append_to: targetPath }));
+
+			const content = (app.vault as any)._getFile(targetPath!) as string;
+			const body = content.replace(/^---\n[\s\S]*?\n---\n\n/, "");
+			expect(body.startsWith("**Дополнение** (2026-02-07 10:00)\n\nReply text.\n\n---\n\n#meeting")).toBe(true);
+		});
+
+		it("wraps additions in a collapsed callout", async () => {
+			const { app, writer } = createWriter();
+			writer.setAppendPlacement({ mode: "callout", heading: "" });
+			const targetPath = await writer.write(makeNote());
+
+			await writer.write(makeNote({
+				id: "reply-1",
+				content: "Line one.\n\nLine two.",
+				append_to: targetPath,
+			}));
+
+			const content = (app.vault as any)._getFile(targetPath!) as string;
+			expect(content.endsWith("> [!note]- Дополнение (2026-02-07 10:00)\n> Line one.\n>\n> Line two.")).toBe(true);
+		});
+
+		it("writes replies as linked notes in reply-note mode", async () => {
+			const { app, writer } = createWriter();
+			writer.setAppendPlacement({ mode: "end", heading: "" }, { work: { mode: "reply-note", heading: "" } });
+			const targetPath = await writer.write(makeNote({ category: "work/meetings" }));
+
+			const replyPath = await writer.write(makeNote({
+				id: "reply-1",
+				name: "Follow-up",
+				category: "work/meetings",
+				content: "Reply text.",
+				action_items: ["Reply task"],
+				created_at: "2026-02-08T09:00:00Z",
+				append_to: targetPath,
+			}));
+
+			expect(replyPath).toBe("VoiceNotes/work/meetings/Follow-up_20260208_090000.md");
+			const reply = (app.vault as any)._getFile(replyPath!) as string;
+			expect(frontmatterOf(reply).parent).toBe(`[[Test Note${TS}]]`);
+			expect(reply).toContain("- [ ] Reply task");
+
+			const parent = (app.vault as any)._getFile(targetPath!) as string;
+			expect(parent).not.toContain("Reply text.");
+			expect(frontmatterOf(parent).replies).toEqual(["[[Follow-up_20260208_090000]]"]);
+			expect(frontmatterOf(parent).archivist_appended).toEqual(["reply-1"]);
+
+			// Re-delivery is skipped
+			expect(await writer.write(makeNote({ id: "reply-1", category: "work/meetings", append_to: targetPath }))).toBeNull();
+		});
+	});
+
 	describe("smart split (sibling wikilinks)", () => {
 		it("adds wikilinks to sibling notes when siblingNames provided", async () => {
 			const { app, writer } = createWriter();
@@ -362,6 +783,79 @@ describe("NoteWriter", () => {
 			expect(content).toContain("- [ ] Купить молоко");
 			expect(content).toContain("- [[Рабочие задачи]]");
 		});
+
+		it("links notes of a batch delivered over several runs", async () => {
+			const { app, writer } = createWriter();
+			const batch = { source_batch_id: "20260209_120000_abcd" };
+			const first = await writer.write(makeNote({ id: "a", name: "First", ...batch }), ["Second"]);
+			const second = await writer.write(makeNote({ id: "b", name: "Second", ...batch }), ["First"]);
+			await writer.write(makeNote({ id: "x", name: "Other", source_batch_id: "other" }));
+
+			// Next run: the third note of the batch arrives alone
+			const third = await writer.write(makeNote({ id: "c", name: "Third", ...batch }));
+			await writer.linkBatchSiblings(batch.source_batch_id, [third!]);
+
+			const read = (path: string | null) => (app.vault as any)._getFile(path) as string;
+			expect(read(first).split("**Связанные заметки:**")[1]).toBe(
+				`\n- [[Second${TS}]]\n- [[Third${TS}]]`,
+			);
+			expect(read(second)).toContain(`- [[First${TS}]]\n- [[Third${TS}]]`);
+			expect(read(third)).toContain(`**Связанные заметки:**\n- [[First${TS}]]\n- [[Second${TS}]]\n`);
+			expect(read(third)).not.toContain("Other");
+		});
+
+		it("links archived notes of a batch without rewriting them", async () => {
+			const { app, writer } = createWriter();
+			const archived = "---\narchivist_id: a\nsource_batch_id: b1\n---\nArchived.";
+			(app.vault as any)._addFile("VoiceNotes/_archive/work/First.md", archived);
+
+			const path = await writer.write(makeNote({ id: "b", name: "Second", source_batch_id: "b1" }));
+			await writer.linkBatchSiblings("b1", [path!]);
+
+			expect((app.vault as any)._getFile("VoiceNotes/_archive/work/First.md")).toBe(archived);
+			expect((app.vault as any)._getFile(path)).toContain("- [[First]]");
+		});
+
+		it("leaves batches without earlier notes unchanged", async () => {
+			const { app, writer } = createWriter();
+			const path = await writer.write(makeNote({ source_batch_id: "b1" }), ["Sibling"]);
+			const before = (app.vault as any)._getFile(path) as string;
+
+			await writer.linkBatchSiblings("b1", [path!]);
+
+			expect((app.vault as any)._getFile(path)).toBe(before);
+		});
+	});
+
+	describe("localization", () => {
+		it("writes note sections in English", async () => {
+			setLocale("en");
+			const { app, writer } = createWriter();
+
+			const path = await writer.write(makeNote({ action_items: ["Call Anna"] }), ["Other note"]);
+
+			const content = (app.vault as any)._getFile(path!) as string;
+			expect(content).toContain("## Tasks");
+			expect(content).toContain("**Related notes:**");
+		});
+
+		it("detects legacy additions written in another language", async () => {
+			setLocale("en");
+			const { app, writer } = createWriter();
+			const targetPath = "VoiceNotes/work/legacy.md";
+			(app.vault as any)._addFile(
+				targetPath,
+				"---\ncategory: work\n---\n\nOriginal.\n\n---\n\n**Дополнение** (2026-02-07 12:00)\n\nLegacy addition.",
+			);
+
+			const result = await writer.write(makeNote({
+				id: "legacy-append",
+				content: "Legacy addition.",
+				append_to: targetPath,
+			}));
+
+			expect(result).toBeNull();
+		});
 	});
 
 	describe("filename sanitization", () => {
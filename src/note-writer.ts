@@ -1,6 +1,30 @@
 // src/note-writer.ts
-import { App, Vault, normalizePath, TFolder, TFile, stringifyYaml } from "obsidian";
+import { App, Notice, Vault, normalizePath, TFolder, TFile, parseYaml, stringifyYaml } from "obsidian";
 import type { NoteResponse } from "./types";
+import { ARCHIVIST_ID_KEY } from "./note-index";
+import type { NoteIndex } from "./note-index";
+import type { CategoryIndexer } from "./category-index";
+import { renderTemplate, validateTemplate } from "./note-template";
+import type { TemplateContext, TemplateKind, TemplateLoader } from "./note-template";
+import { DEFAULT_FILE_NAME_PATTERN, formatFileName } from "./file-name";
+import { allTranslations, t } from "./i18n";
+import { formatTask, mergeTasks } from "./task-format";
+import type { TaskFormat } from "./task-format";
+import { DEFAULT_APPEND_HEADING, placeAddition, placementFor, toCallout } from "./append-placement";
+import type { AppendMode, AppendPlacement } from "./append-placement";
+import { archivedFromPath, categoryFolder, findArchived, isArchivedPath, logRestore, partitionFolder } from "./vault-layout";
+import type { DatePartition, FolderMapping, RestoreHandler } from "./vault-layout";
+
+/** Frontmatter key listing note ids already appended to a file. */
+const APPENDED_IDS_KEY = "archivist_appended";
+
+/**
+ * Separator of legacy appends (before `archivist_appended` existed),
+ * in any language. Used to detect already-applied additions by content.
+ */
+const LEGACY_APPEND_SEPARATOR = new RegExp(
+	`\\n\\n---\\n\\n\\*\\*(?:${allTranslations("note.addition").join("|")})\\*\\* \\([^)\\n]*\\)\\n\\n`,
+);
 
 /**
  * Writes NoteResponse objects to vault as .md files.
@@ -9,9 +33,24 @@ import type { NoteResponse } from "./types";
  *
  * When a reply targets an archived note, restores it from _archive/
  * back to its original location before appending.
+ *
+ * Where an addition goes is configurable per category (see `AppendMode`).
  */
 export class NoteWriter {
 	private vault: Vault;
+	private noteIndex: NoteIndex | null = null;
+	private templateLoader: TemplateLoader | null = null;
+	/** Template problems already reported to the user this session */
+	private templateWarnings = new Set<string>();
+	private fileNamePattern = DEFAULT_FILE_NAME_PATTERN;
+	private fileNameUtc = true;
+	private taskFormat: TaskFormat = "checkbox";
+	private appendPlacement: AppendPlacement = { mode: "end", heading: DEFAULT_APPEND_HEADING };
+	private placementRules: Record<string, AppendPlacement> = {};
+	private folderMappings: FolderMapping[] = [];
+	private datePartition: DatePartition = "none";
+	private categoryIndex: CategoryIndexer | null = null;
+	private onRestored: RestoreHandler | null = null;
 
 	constructor(
 		private app: App,
@@ -20,6 +59,89 @@ export class NoteWriter {
 		this.vault = app.vault;
 	}
 
+	/**
+	 * Set id → file index used to find append targets that were
+	 * renamed or moved since the server learned their path.
+	 */
+	setNoteIndex(index: NoteIndex): void {
+		this.noteIndex = index;
+	}
+
+	/**
+	 * Set category index notes updated after every write (null: none).
+	 */
+	setCategoryIndex(indexer: CategoryIndexer | null): void {
+		this.categoryIndex = indexer;
+	}
+
+	/**
+	 * Set callback invoked after a reply restored its archived parent.
+	 */
+	setRestoreHandler(handler: RestoreHandler): void {
+		this.onRestored = handler;
+	}
+
+	/**
+	 * Set the file name pattern of new notes (see `formatFileName`)
+	 * and whether its date/time tokens use UTC or local time.
+	 */
+	setFileNamePattern(pattern: string, useUtc: boolean): void {
+		this.fileNamePattern = pattern || DEFAULT_FILE_NAME_PATTERN;
+		this.fileNameUtc = useUtc;
+	}
+
+	/**
+	 * Set how action items are rendered (plain checkboxes or Obsidian Tasks format).
+	 */
+	setTaskFormat(format: TaskFormat): void {
+		this.taskFormat = format;
+	}
+
+	/**
+	 * Set category → folder mappings for new notes
+	 * (unmapped categories go to `basePath/category`).
+	 */
+	setFolderMappings(mappings: FolderMapping[]): void {
+		this.folderMappings = mappings;
+	}
+
+	/**
+	 * Set date subfolders of new notes inside their category folder
+	 * (`YYYY/MM`, `YYYY/Www` or none).
+	 */
+	setDatePartition(partition: DatePartition): void {
+		this.datePartition = partition;
+	}
+
+	/**
+	 * Set where additions go: `fallback` for all categories
+	 * without a rule in `rules` (category → placement).
+	 */
+	setAppendPlacement(fallback: AppendPlacement, rules: Record<string, AppendPlacement> = {}): void {
+		this.appendPlacement = fallback;
+		this.placementRules = rules;
+	}
+
+	/**
+	 * Set loader for user templates of new notes and appends.
+	 * Without it (or when a template is missing / invalid)
+	 * the built-in layout is used.
+	 */
+	setTemplateLoader(loader: TemplateLoader): void {
+		this.templateLoader = loader;
+	}
+
+	/**
+	 * Render a note as it would be written (new file and as an addition),
+	 * using the current templates. Nothing is written to the vault.
+	 */
+	async preview(note: NoteResponse, siblingNames?: string[]): Promise<{ note: string; append: string }> {
+		return {
+			note: this.generateMarkdown(note, siblingNames, await this.loadTemplate("note")),
+			append: this.formatAddition(note, await this.loadTemplate("append")),
+		};
+	}
+
 	/**
 	 * Write a note to the vault — either as a new file or appended to an existing one.
 	 *
@@ -39,34 +161,91 @@ export class NoteWriter {
 	}
 
 	/**
-	 * Create a new note file with datetime-stamped filename.
-	 * Format: {sanitized_name}_{YYYYMMDD_HHmmss}.md
+	 * Link notes of a smart-split batch that arrived over several sync runs.
+	 *
+	 * Siblings within one run are linked on write; when the vault already
+	 * holds notes of the batch from earlier runs, the related-notes list of
+	 * every note of the batch (earlier and new) is rewritten to link all others.
+	 * Archived notes of the batch stay linked but are not rewritten.
+	 *
+	 * @param batchId The batch's `source_batch_id`
+	 * @param paths Paths of the notes of the batch created in this run
+	 */
+	async linkBatchSiblings(batchId: string, paths: string[]): Promise<void> {
+		const earlier = this.vault.getMarkdownFiles().filter((file) =>
+			!paths.includes(file.path)
+			&& this.app.metadataCache.getFileCache(file)?.frontmatter?.source_batch_id === batchId
+		);
+		if (earlier.length === 0) {
+			return;
+		}
+
+		const created = paths
+			.map((path) => this.vault.getAbstractFileByPath(path))
+			.filter((file): file is TFile => file instanceof TFile);
+		const batch = [...earlier, ...created];
+		for (const file of batch) {
+			if (isArchivedPath(this.basePath, file.path)) {
+				continue;
+			}
+			const names = batch.filter((other) => other !== file).map((other) => other.basename);
+			const content = await this.vault.read(file);
+			const linked = setRelatedLinks(content, names);
+			if (linked !== content) {
+				await this.vault.modify(file, linked);
+			}
+		}
+	}
+
+	/**
+	 * Create a new note file named by the file name pattern
+	 * (default: {sanitized_name}_{YYYYMMDD_HHmmss}.md).
+	 *
+	 * Deduplication is by `archivist_id`: a note already in the vault
+	 * (even renamed, or named by an older pattern) is skipped.
+	 * A different note at the same path gets a counter suffix.
 	 */
 	private async createNew(note: NoteResponse, siblingNames?: string[]): Promise<string | null> {
-		const dir = normalizePath(`${this.basePath}/${note.category}`);
-		await this.ensureFolder(dir);
+		if (this.noteIndex?.getById(note.id)) {
+			return null;
+		}
 
-		const fileName = this.sanitize(note.name);
-		const timestamp = this.formatTimestamp(note.created_at);
-		const filePath = normalizePath(`${dir}/${fileName}_${timestamp}.md`);
+		const partition = partitionFolder(note.created_at, this.datePartition);
+		const folder = categoryFolder(this.basePath, this.folderMappings, note.category);
+		const dir = partition ? `${folder}/${partition}` : folder;
+		await this.ensureFolder(dir);
 
-		// Deduplication: skip if file already exists
-		if (this.vault.getAbstractFileByPath(filePath)) {
+		const fileName = formatFileName(this.fileNamePattern, note, this.fileNameUtc);
+		const filePath = await this.freePath(dir, fileName, note.id);
+		if (!filePath) {
 			return null;
 		}
 
-		const markdown = this.generateMarkdown(note, siblingNames);
+		const template = await this.loadTemplate("note");
+		const markdown = this.generateMarkdown(note, siblingNames, template);
 		await this.vault.create(filePath, markdown);
+		this.noteIndex?.record(note.id, filePath);
+		await this.updateCategoryIndex(filePath);
 		return filePath;
 	}
 
 	/**
 	 * Append note content to an existing file referenced by `note.append_to`.
 	 *
+	 * The addition is placed by the category's placement mode; in the
+	 * inline modes its action items go into the target's task section.
+	 *
 	 * Resolution order:
 	 * 1. File exists at append_to path → append directly
 	 * 2. File found in _archive/ (was archived) → restore to original path, then append
-	 * 3. File not found anywhere → create as new note
+	 * 3. Parent found by `parent_note_id` in the note index (renamed / moved) → append there
+	 * 4. File not found anywhere → create as new note
+	 *
+	 * Idempotent: appended note ids are recorded in the target's
+	 * `archivist_appended` frontmatter list, re-deliveries are skipped.
+	 *
+	 * @returns Actual target path (the reply note in "reply-note" mode),
+	 *   null if this addition was already applied
 	 */
 	private async appendToExisting(note: NoteResponse): Promise<string | null> {
 		const targetPath = normalizePath(note.append_to!);
@@ -76,14 +255,20 @@ export class NoteWriter {
 		if (!(file instanceof TFile)) {
 			const archivedFile = this.findInArchive(targetPath);
 			if (archivedFile) {
-				// Restore from archive to original location
-				const dir = targetPath.slice(0, targetPath.lastIndexOf("/"));
-				await this.ensureFolder(dir);
-				await this.app.fileManager.renameFile(archivedFile, targetPath);
-				file = this.vault.getAbstractFileByPath(targetPath);
+				file = await this.restoreFromArchive(archivedFile, targetPath);
+			}
+		}
+
+		// Stale path (renamed / moved by the user) — resolve parent by id
+		if (!(file instanceof TFile) && note.parent_note_id) {
+			const byId = this.noteIndex?.getById(note.parent_note_id) ?? null;
+			if (byId && isArchivedPath(this.basePath, byId.path)) {
+				file = await this.restoreFromArchive(byId, archivedFromPath(this.app, this.basePath, byId));
+			} else if (byId) {
 				console.debug(
-					`[ArchivistBot] Restored from archive: ${archivedFile.path} → ${targetPath}`,
+					`[ArchivistBot] Append target moved: ${targetPath} → ${byId.path}`,
 				);
+				file = byId;
 			}
 		}
 
@@ -95,32 +280,195 @@ export class NoteWriter {
 			return this.createNew(note);
 		}
 
-		// Append content
-		const separator = `\n\n---\n\n**Дополнение** (${this.formatHumanDate(note.created_at)})\n\n`;
 		const existing = await this.vault.read(file);
-		await this.vault.modify(file, existing + separator + note.content);
 
-		// Update frontmatter: set updated timestamp
-		await this.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
-			fm.updated = note.created_at;
+		// Deduplication: skip additions that were already applied
+		const appendedIds = readAppendedIds(existing);
+		if (appendedIds?.includes(note.id)) {
+			return null;
+		}
+		if (!appendedIds && hasLegacyAppend(existing, note.content)) {
+			// Migration: the addition was applied before `archivist_appended`
+			// existed — record the id, don't append again. Targets with the
+			// list are deduplicated by id only, so repeated short replies
+			// ("ok") are still appended
+			await this.recordAppendedId(file, note.id);
+			return null;
+		}
+
+		const placement = placementFor(note.category, this.placementRules, this.appendPlacement);
+		if (placement.mode === "reply-note") {
+			return this.createReplyNote(note, file);
+		}
+
+		// Place content; the addition's action items go into the task section
+		const template = await this.loadTemplate("append");
+		const withAddition = placement.mode === "end"
+			? existing + this.formatAddition(note, template)
+			: placeAddition(existing, this.additionBlock(note, template, placement.mode), placement);
+		const merged = mergeTasks(withAddition, this.taskLines(note), t("note.tasks"));
+		await this.vault.modify(file, merged);
+
+		// Update frontmatter: set updated timestamp, record applied addition
+		await this.recordAppendedId(file, note.id, {
+			updated: note.created_at,
+			actionItems: note.action_items ?? [],
+		});
+		await this.updateCategoryIndex(file.path);
+
+		return file.path;
+	}
+
+	/**
+	 * Write a reply as its own note next to the parent ("reply-note" mode).
+	 * The reply links its parent (`parent`), the parent lists its replies
+	 * (`replies`); the reply keeps its own action items.
+	 */
+	private async createReplyNote(note: NoteResponse, parent: TFile): Promise<string | null> {
+		const parentLink = `[[${parent.basename}]]`;
+		let reply = this.noteIndex?.getById(note.id) ?? null;
+
+		if (!reply) {
+			const dir = parent.path.slice(0, parent.path.lastIndexOf("/"));
+			const filePath = await this.freePath(dir, formatFileName(this.fileNamePattern, note, this.fileNameUtc), note.id);
+			if (!filePath) {
+				return null;
+			}
+			const template = await this.loadTemplate("note");
+			const markdown = this.generateMarkdown(note, undefined, template, { parent: parentLink });
+			reply = await this.vault.create(filePath, markdown);
+			this.noteIndex?.record(note.id, filePath);
+		}
+
+		// Recorded last: an interrupted write is completed on re-delivery
+		await this.recordAppendedId(parent, note.id, {
+			updated: note.created_at,
+			reply: `[[${reply.basename}]]`,
+		});
+		await this.updateCategoryIndex(reply.path);
+		return reply.path;
+	}
+
+	/**
+	 * First free path for a new note: `dir/fileName.md`, then with a
+	 * counter suffix when another note holds the name.
+	 * @returns null when the note (or a legacy file without id) is already there
+	 */
+	private async freePath(dir: string, fileName: string, noteId: string): Promise<string | null> {
+		let filePath = normalizePath(`${dir}/${fileName}.md`);
+		for (let counter = 2; ; counter++) {
+			const existing = this.vault.getAbstractFileByPath(filePath);
+			if (!(existing instanceof TFile)) {
+				return filePath;
+			}
+			const existingId = await this.readNoteId(existing);
+			// Same note, or a legacy file (no id) at the exact path → already written
+			if (existingId === noteId || existingId === null) {
+				return null;
+			}
+			filePath = normalizePath(`${dir}/${fileName} ${counter}.md`);
+		}
+	}
+
+	/**
+	 * Refresh the note's entry in its category index.
+	 * Never throws — the note itself is already written.
+	 */
+	private async updateCategoryIndex(path: string): Promise<void> {
+		try {
+			await this.categoryIndex?.noteWritten(path);
+		} catch (e) {
+			console.warn(`[ArchivistBot] Failed to update category index for ${path}:`, e);
+		}
+	}
+
+	/**
+	 * Read `archivist_id` of an existing file, null when it has none.
+	 */
+	private async readNoteId(file: TFile): Promise<string | null> {
+		const indexed = this.noteIndex?.getIdByPath(file.path);
+		if (indexed) {
+			return indexed;
+		}
+		const id = readFrontmatter(await this.vault.read(file))?.[ARCHIVIST_ID_KEY];
+		return typeof id === "string" && id ? id : null;
+	}
+
+	/**
+	 * Move an archived file back to `originalPath` (creating folders);
+	 * its resolution moves to `archive_history`.
+	 */
+	private async restoreFromArchive(archivedFile: TFile, originalPath: string): Promise<TFile | null> {
+		const archivedPath = archivedFile.path;
+		const dir = originalPath.slice(0, originalPath.lastIndexOf("/"));
+		await this.ensureFolder(dir);
+		await this.app.fileManager.renameFile(archivedFile, originalPath);
+
+		const id = this.noteIndex?.getIdByPath(archivedPath);
+		if (id) {
+			this.noteIndex?.record(id, originalPath);
+		}
+
+		console.debug(
+			`[ArchivistBot] Restored from archive: ${archivedPath} → ${originalPath}`,
+		);
+		const restored = this.vault.getAbstractFileByPath(originalPath);
+		if (!(restored instanceof TFile)) {
+			return null;
+		}
+		const restoredAt = new Date().toISOString().slice(0, 19);
+		await this.app.fileManager.processFrontMatter(restored, (fm: Record<string, unknown>) => {
+			logRestore(fm, restoredAt);
 		});
+		this.onRestored?.(originalPath);
+		try {
+			await this.categoryIndex?.noteRestored(restored, archivedPath);
+		} catch (e) {
+			console.warn("[ArchivistBot] Failed to update category index:", e);
+		}
+		return restored;
+	}
 
-		return targetPath;
+	/**
+	 * Add a note id to the target's `archivist_appended` list
+	 * (and set `updated`, extend `action_items` / `replies` when given).
+	 */
+	private async recordAppendedId(
+		file: TFile,
+		noteId: string,
+		changes: { updated?: string; actionItems?: string[]; reply?: string } = {},
+	): Promise<void> {
+		const { updated, actionItems = [], reply } = changes;
+		await this.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
+			if (updated) {
+				fm.updated = updated;
+			}
+			if (actionItems.length > 0) {
+				const existing = Array.isArray(fm.action_items) ? (fm.action_items as unknown[]) : [];
+				fm.action_items = [...existing, ...actionItems];
+			}
+			if (reply) {
+				const replies = Array.isArray(fm.replies) ? (fm.replies as unknown[]) : [];
+				if (!replies.includes(reply)) {
+					fm.replies = [...replies, reply];
+				}
+			}
+			const ids = Array.isArray(fm[APPENDED_IDS_KEY]) ? (fm[APPENDED_IDS_KEY] as unknown[]) : [];
+			if (!ids.includes(noteId)) {
+				fm[APPENDED_IDS_KEY] = [...ids, noteId];
+			}
+		});
 	}
 
 	/**
-	 * Try to find a file in _archive/ that was originally at `originalPath`.
+	 * Try to find a file in _archive/ that was originally at `originalPath`
+	 * (recorded in `archived_from`, or the legacy mirrored path).
 	 *
 	 * originalPath: "VoiceNotes/work/meetings/note.md"
 	 * archive path: "VoiceNotes/_archive/work/meetings/note.md"
 	 */
 	private findInArchive(originalPath: string): TFile | null {
-		// originalPath starts with basePath + "/"
-		const relative = originalPath.slice(this.basePath.length + 1);
-		// relative = "work/meetings/note.md"
-		const archivePath = normalizePath(`${this.basePath}/_archive/${relative}`);
-		const file = this.vault.getAbstractFileByPath(archivePath);
-		return file instanceof TFile ? file : null;
+		return findArchived(this.app, this.basePath, originalPath);
 	}
 
 	/**
@@ -130,19 +478,116 @@ export class NoteWriter {
 		this.basePath = basePath;
 	}
 
+	/**
+	 * Load a user template, null when none is configured or it is invalid.
+	 * A missing or invalid template is reported with a Notice once per
+	 * session, so the user knows it is being ignored.
+	 */
+	private async loadTemplate(kind: TemplateKind): Promise<string | null> {
+		if (!this.templateLoader) {
+			return null;
+		}
+		try {
+			const template = await this.templateLoader(kind);
+			if (template === null) {
+				return null;
+			}
+			const errors = validateTemplate(template, kind);
+			if (errors.length > 0) {
+				console.warn(`[ArchivistBot] Invalid ${kind} template, using default:`, errors);
+				this.warnTemplateIgnored(kind, errors.join("; "));
+				return null;
+			}
+			return template;
+		} catch (e) {
+			console.warn(`[ArchivistBot] Failed to load ${kind} template, using default:`, e);
+			this.warnTemplateIgnored(kind, e instanceof Error ? e.message : String(e));
+			return null;
+		}
+	}
+
+	private warnTemplateIgnored(kind: TemplateKind, error: string): void {
+		const key = `${kind}:${error}`;
+		if (this.templateWarnings.has(key)) {
+			return;
+		}
+		this.templateWarnings.add(key);
+		new Notice(t("notice.templateIgnored", { kind: t(`templatePreview.${kind}`), error }));
+	}
+
+	/**
+	 * Text appended to the end of the target file for an addition
+	 * (leading separator included).
+	 */
+	private formatAddition(note: NoteResponse, template: string | null): string {
+		const block = this.additionBlock(note, template, "end");
+		return template !== null ? `\n\n${block}` : `\n\n---\n\n${block}`;
+	}
+
+	/**
+	 * An addition as a block of text for the given placement mode.
+	 */
+	private additionBlock(note: NoteResponse, template: string | null, mode: AppendMode): string {
+		const date = this.formatHumanDate(note.created_at);
+		// Action items are merged into the task section, not the addition
+		const body = template !== null
+			? renderTemplate(template, { ...this.templateContext(note), action_items: "" }).trim()
+			: note.content;
+		if (mode === "callout") {
+			return toCallout(`${t("note.addition")} (${date})`, body);
+		}
+		return template !== null ? body : `**${t("note.addition")}** (${date})\n\n${body}`;
+	}
+
+	/**
+	 * Action items of a note as task lines in the configured format.
+	 */
+	private taskLines(note: NoteResponse): string[] {
+		return (note.action_items ?? []).map((item) =>
+			formatTask(item, this.taskFormat, note.category, note.created_at)
+		);
+	}
+
+	/**
+	 * Placeholder values for rendering a note through a user template.
+	 */
+	private templateContext(note: NoteResponse, siblingNames?: string[]): TemplateContext {
+		return {
+			name: note.name,
+			content: note.content,
+			summary: note.summary,
+			category: note.category,
+			id: note.id,
+			tags: note.tags.map((t) => `#${t}`).join(" "),
+			action_items: this.taskLines(note).join("\n"),
+			siblings: (siblingNames ?? []).map((name) => `- [[${name}]]`).join("\n"),
+			created: note.created_at,
+		};
+	}
+
 	/**
 	 * Generate markdown content with YAML frontmatter.
+	 * The body follows `template` when given, the built-in layout otherwise.
 	 *
 	 * @param note The note data
 	 * @param siblingNames Names of sibling notes for wikilink cross-references
+	 * @param template Validated user template for the body
+	 * @param extraFrontmatter Additional frontmatter fields (e.g. `parent` of a reply note)
 	 */
-	private generateMarkdown(note: NoteResponse, siblingNames?: string[]): string {
+	private generateMarkdown(
+		note: NoteResponse,
+		siblingNames?: string[],
+		template: string | null = null,
+		extraFrontmatter: Record<string, unknown> = {},
+	): string {
 		const frontmatter: Record<string, unknown> = {
 			category: note.category,
 			tags: note.tags,
 			summary: note.summary,
 			source: "telegram",
 			created: note.created_at,
+			[ARCHIVIST_ID_KEY]: note.id,
+			...extraFrontmatter,
 		};
 
 		if (note.synced_at) {
@@ -162,6 +607,11 @@ export class NoteWriter {
 		const yaml = stringifyYaml(frontmatter).trimEnd();
 		const parts: string[] = [`---\n${yaml}\n---`, ""];
 
+		if (template !== null) {
+			parts.push(renderTemplate(template, this.templateContext(note, siblingNames)).trim());
+			return parts.join("\n");
+		}
+
 		// Add tags as hashtags
 		if (note.tags.length > 0) {
 			parts.push(note.tags.map((t) => `#${t}`).join(" "), "");
@@ -171,15 +621,13 @@ export class NoteWriter {
 
 		// Add action items as checkboxes
 		if (actionItems.length > 0) {
-			parts.push("", "## Задачи", "");
-			for (const item of actionItems) {
-				parts.push(`- [ ] ${item}`);
-			}
+			parts.push("", `## ${t("note.tasks")}`, "");
+			parts.push(...this.taskLines(note));
 		}
 
 		// Add wikilinks to sibling notes (smart split)
 		if (siblingNames && siblingNames.length > 0) {
-			parts.push("", "---", "", "**Связанные заметки:**");
+			parts.push("", "---", "", `**${t("note.related")}**`);
 			for (const name of siblingNames) {
 				parts.push(`- [[${name}]]`);
 			}
@@ -208,19 +656,6 @@ export class NoteWriter {
 		}
 	}
 
-	/**
-	 * Format ISO timestamp as YYYYMMDD_HHmmss for filenames.
-	 * Uses UTC to ensure consistent filenames regardless of timezone.
-	 */
-	private formatTimestamp(isoDate: string): string {
-		const d = new Date(isoDate);
-		const pad = (n: number) => String(n).padStart(2, "0");
-		return (
-			`${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}` +
-			`_${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}`
-		);
-	}
-
 	/**
 	 * Format ISO timestamp as human-readable date for append separator.
 	 * Uses UTC for consistency.
@@ -233,15 +668,59 @@ export class NoteWriter {
 			`${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}`
 		);
 	}
+}
 
-	/**
-	 * Sanitize filename: remove illegal characters, trim, limit length.
-	 */
-	private sanitize(name: string): string {
-		return name
-			.replace(/[\\/:*?"<>|#^[\]]/g, "_")
-			.replace(/\s+/g, " ")
-			.trim()
-			.slice(0, 100);
+/**
+ * Read `archivist_appended` ids from a file's frontmatter.
+ * @returns Ids, or null when the file has no such list (legacy / never appended)
+ */
+function readAppendedIds(content: string): string[] | null {
+	const ids = readFrontmatter(content)?.[APPENDED_IDS_KEY];
+	return Array.isArray(ids) ? ids.map(String) : null;
+}
+
+/**
+ * Parse the YAML frontmatter of file content, null when absent or invalid.
+ */
+export function readFrontmatter(content: string): Record<string, unknown> | null {
+	const match = content.match(/^---\n([\s\S]*?)\n---/);
+	if (!match) {
+		return null;
+	}
+	try {
+		const fm: unknown = parseYaml(match[1]);
+		return fm && typeof fm === "object" ? (fm as Record<string, unknown>) : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Check whether a legacy addition block with the same text already exists.
+ */
+function hasLegacyAppend(content: string, addition: string): boolean {
+	const blocks = content.split(LEGACY_APPEND_SEPARATOR).slice(1);
+	const expected = addition.trim();
+	return blocks.some((block) => block.trim() === expected);
+}
+
+/**
+ * Replace the wikilink list of the related-notes section (heading in any
+ * language) with links to `names`; add the section when the note has none.
+ */
+function setRelatedLinks(content: string, names: string[]): string {
+	const headings = allTranslations("note.related").map((h) => `**${h}**`);
+	const links = names.map((name) => `- [[${name}]]`);
+	const lines = content.split("\n");
+	const start = lines.findIndex((line) => headings.includes(line.trim()));
+	if (start === -1) {
+		return `${content.trimEnd()}\n\n---\n\n**${t("note.related")}**\n${links.join("\n")}\n`;
+	}
+
+	let end = start + 1;
+	while (end < lines.length && /^- \[\[[^\]]*\]\]\s*$/.test(lines[end])) {
+		end++;
 	}
+	lines.splice(start + 1, end - start - 1, ...links);
+	return lines.join("\n");
 }
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest";
+import { SyncOutbox } from "./outbox";
+import type { PendingAck } from "./outbox";
+
+function ack(noteId: string, vaultPath: string | null = `path/${noteId}.md`): PendingAck {
+	return { noteId, vaultPath, writtenAt: "2026-02-07T10:00:00Z" };
+}
+
+describe("SyncOutbox", () => {
+	it("starts with entries loaded from plugin data", () => {
+		const outbox = new SyncOutbox([ack("1"), ack("2")]);
+
+		expect(outbox.size()).toBe(2);
+		expect(outbox.has("1")).toBe(true);
+		expect(outbox.has("3")).toBe(false);
+	});
+
+	it("persists entries on add and remove", async () => {
+		const persist = vi.fn(async () => {});
+		const outbox = new SyncOutbox([], persist);
+
+		await outbox.add([ack("1"), ack("2")]);
+		await outbox.remove(["1"]);
+
+		expect(persist).toHaveBeenCalledTimes(2);
+		expect(persist).toHaveBeenLastCalledWith([ack("2")]);
+	});
+
+	it("replaces entries with the same note id", async () => {
+		const outbox = new SyncOutbox([ack("1", "old.md")]);
+
+		await outbox.add([ack("1", "new.md")]);
+
+		expect(outbox.list()).toEqual([ack("1", "new.md")]);
+	});
+
+	it("skips persisting when nothing changed", async () => {
+		const persist = vi.fn(async () => {});
+		const outbox = new SyncOutbox([ack("1")], persist);
+
+		await outbox.add([]);
+		await outbox.remove(["unknown"]);
+
+		expect(persist).not.toHaveBeenCalled();
+	});
+
+	it("does not mutate the initial array", async () => {
+		const initial = [ack("1")];
+		const outbox = new SyncOutbox(initial);
+
+		await outbox.add([ack("2")]);
+		await outbox.remove(["1"]);
+
+		expect(initial).toEqual([ack("1")]);
+	});
+
+	it("notifies change callback with the new size", async () => {
+		const outbox = new SyncOutbox();
+		const sizes: number[] = [];
+		outbox.setChangeCallback((n) => sizes.push(n));
+
+		await outbox.add([ack("1"), ack("2")]);
+		await outbox.remove(["1", "2"]);
+
+		expect(sizes).toEqual([2, 0]);
+	});
+});
@@ -0,0 +1,101 @@
+// src/outbox.ts
+
+/**
+ * A note that was written to the vault but whose mark-synced
+ * has not been acknowledged by the server yet.
+ */
+export interface PendingAck {
+	noteId: string;
+	/** Vault path reported to the server, null when the write was a dedup skip. */
+	vaultPath: string | null;
+	/** ISO timestamp of the local write. */
+	writtenAt: string;
+}
+
+/** Persists outbox entries (e.g. into plugin data). */
+export type OutboxPersist = (entries: PendingAck[]) => Promise<void>;
+
+/**
+ * Persistent outbox of written-but-unacknowledged notes.
+ *
+ * SyncEngine records every note it writes here *before* calling
+ * mark-synced, and removes entries only after the server confirms.
+ * If mark-synced fails (timeout, 5xx, app closed), the entries survive
+ * restarts and are retried before the next fetch — so notes are never
+ * re-downloaded and replies are never re-appended.
+ */
+export class SyncOutbox {
+	private entries: PendingAck[];
+	private onChange: ((count: number) => void) | null = null;
+
+	/**
+	 * @param initial Entries loaded from plugin data
+	 * @param persist Saves entries after every change (default: in-memory only)
+	 */
+	constructor(
+		initial: PendingAck[] = [],
+		private persist: OutboxPersist = async () => {},
+	) {
+		this.entries = [...initial];
+	}
+
+	/**
+	 * Set callback for outbox size changes (status bar).
+	 */
+	setChangeCallback(callback: (count: number) => void): void {
+		this.onChange = callback;
+	}
+
+	/**
+	 * Number of notes awaiting acknowledgement.
+	 */
+	size(): number {
+		return this.entries.length;
+	}
+
+	/**
+	 * Check if a note was already written and is awaiting acknowledgement.
+	 */
+	has(noteId: string): boolean {
+		return this.entries.some((e) => e.noteId === noteId);
+	}
+
+	/**
+	 * Snapshot of pending entries (oldest first).
+	 */
+	list(): PendingAck[] {
+		return [...this.entries];
+	}
+
+	/**
+	 * Record written notes. Entries with the same note id are replaced.
+	 */
+	async add(acks: PendingAck[]): Promise<void> {
+		if (acks.length === 0) {
+			return;
+		}
+		const ids = new Set(acks.map((a) => a.noteId));
+		this.entries = [...this.entries.filter((e) => !ids.has(e.noteId)), ...acks];
+		await this.save();
+	}
+
+	/**
+	 * Drop acknowledged notes.
+	 */
+	async remove(noteIds: string[]): Promise<void> {
+		const ids = new Set(noteIds);
+		const remaining = this.entries.filter((e) => !ids.has(e.noteId));
+		if (remaining.length === this.entries.length) {
+			return;
+		}
+		this.entries = remaining;
+		await this.save();
+	}
+
+	private async save(): Promise<void> {
+		// Always hand out a fresh array — settings objects may share
+		// array references with DEFAULT_SETTINGS.
+		await this.persist([...this.entries]);
+		this.onChange?.(this.entries.length);
+	}
+}
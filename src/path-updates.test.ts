@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from "vitest";
+import { PathUpdateQueue } from "./path-updates";
+
+describe("PathUpdateQueue", () => {
+	it("keeps only the latest path per note", async () => {
+		const persist = vi.fn(async () => {});
+		const queue = new PathUpdateQueue({}, persist);
+
+		await queue.set("1", "a.md");
+		await queue.set("1", "b.md");
+
+		expect(queue.list()).toEqual({ "1": "b.md" });
+		expect(persist).toHaveBeenLastCalledWith({ "1": "b.md" });
+	});
+
+	it("skips persist when the path is unchanged", async () => {
+		const persist = vi.fn(async () => {});
+		const queue = new PathUpdateQueue({ "1": "a.md" }, persist);
+
+		await queue.set("1", "a.md");
+
+		expect(persist).not.toHaveBeenCalled();
+	});
+
+	it("keeps entries renamed again after they were reported", async () => {
+		const queue = new PathUpdateQueue({ "1": "a.md", "2": "c.md" });
+		const reported = queue.list();
+		await queue.set("1", "b.md");
+
+		await queue.remove(reported);
+
+		expect(queue.list()).toEqual({ "1": "b.md" });
+	});
+});
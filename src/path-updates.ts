@@ -0,0 +1,74 @@
+// src/path-updates.ts
+
+/** Persists pending path updates (e.g. into plugin data). */
+export type PathUpdatesPersist = (updates: Record<string, string>) => Promise<void>;
+
+/**
+ * Persistent queue of vault path changes not yet reported to the server.
+ *
+ * The server learns a note's vault path once, via mark-synced. When the
+ * user renames or moves an archivist note, the new path is queued here
+ * (note id → latest path) and pushed to the server on the next sync
+ * cycle, so later replies with `append_to` find the note.
+ */
+export class PathUpdateQueue {
+	private updates: Record<string, string>;
+
+	/**
+	 * @param initial Updates loaded from plugin data
+	 * @param persist Saves updates after every change (default: in-memory only)
+	 */
+	constructor(
+		initial: Record<string, string> = {},
+		private persist: PathUpdatesPersist = async () => {},
+	) {
+		this.updates = { ...initial };
+	}
+
+	/**
+	 * Number of notes whose new path is not reported yet.
+	 */
+	size(): number {
+		return Object.keys(this.updates).length;
+	}
+
+	/**
+	 * Snapshot of pending updates: note id → vault path.
+	 */
+	list(): Record<string, string> {
+		return { ...this.updates };
+	}
+
+	/**
+	 * Queue the new path of a note. A later rename replaces an earlier one.
+	 */
+	async set(noteId: string, vaultPath: string): Promise<void> {
+		if (this.updates[noteId] === vaultPath) {
+			return;
+		}
+		this.updates = { ...this.updates, [noteId]: vaultPath };
+		await this.save();
+	}
+
+	/**
+	 * Drop reported updates. An entry renamed again after it was
+	 * reported keeps its newer path.
+	 */
+	async remove(reported: Record<string, string>): Promise<void> {
+		const remaining: Record<string, string> = {};
+		for (const [noteId, vaultPath] of Object.entries(this.updates)) {
+			if (reported[noteId] !== vaultPath) {
+				remaining[noteId] = vaultPath;
+			}
+		}
+		if (Object.keys(remaining).length === this.size()) {
+			return;
+		}
+		this.updates = remaining;
+		await this.save();
+	}
+
+	private async save(): Promise<void> {
+		await this.persist({ ...this.updates });
+	}
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Notice, Vault } from "obsidian";
+import { ResolutionsManager } from "./resolutions-manager";
+import { setLocale } from "./i18n";
+
+function createManager(): { vault: Vault; manager: ResolutionsManager } {
+	const vault = new Vault();
+	const manager = new ResolutionsManager(vault, "VoiceNotes");
+	return { vault, manager };
+}
+
+describe("ResolutionsManager", () => {
+	beforeEach(() => {
+		setLocale("en");
+	});
+
+	it("creates resolutions.md with the default resolutions", async () => {
+		const { vault, manager } = createManager();
+
+		await manager.ensureExists();
+
+		const content = (vault as any)._getFile("VoiceNotes/resolutions.md") as string;
+		expect(content).toContain("| Resolution | Label | Icon | Folder | Trash |");
+		expect(content).toContain("| realized | Realized | check-circle-2 |  |  |");
+		expect((await manager.read()).map((r) => r.value)).toEqual(["realized", "dropped", "outdated"]);
+	});
+
+	it("does not overwrite an existing file", async () => {
+		const { vault, manager } = createManager();
+		(vault as any)._addFile("VoiceNotes/resolutions.md", "custom content");
+
+		await manager.ensureExists();
+
+		expect((vault as any)._getFile("VoiceNotes/resolutions.md")).toBe("custom content");
+	});
+
+	it("parses label, icon, folder and trash columns", async () => {
+		const { vault, manager } = createManager();
+		(vault as any)._addFile("VoiceNotes/resolutions.md", [
+			"| Итог | Название | Иконка | Папка | Корзина |",
+			"|---|---|---|---|---|",
+			"| delegated | Delegated | send |  |  |",
+			"| duplicate |  |  | /duplicates/ |  |",
+			"| junk | Junk | trash-2 |  | yes |",
+		].join("\n"));
+
+		expect(await manager.read()).toEqual([
+			{ value: "delegated", label: "Delegated", icon: "send", folder: "", trash: false },
+			{ value: "duplicate", label: "duplicate", icon: "archive", folder: "duplicates", trash: false },
+			{ value: "junk", label: "Junk", icon: "trash-2", folder: "", trash: true },
+		]);
+	});
+
+	it("skips invalid and duplicate values", async () => {
+		const { vault, manager } = createManager();
+		(vault as any)._addFile("VoiceNotes/resolutions.md", [
+			"| Resolution | Label |",
+			"|---|---|",
+			"| merged | Merged |",
+			"| merged | Again |",
+			"| not valid | Spaces |",
+			"| escape | Escape | archive | ../outside |",
+		].join("\n"));
+
+		expect((await manager.read()).map((r) => r.label)).toEqual(["Merged"]);
+	});
+
+	it("reports invalid rows only when asked", async () => {
+		const { vault, manager } = createManager();
+		(vault as any)._addFile("VoiceNotes/resolutions.md", [
+			"| Resolution | Label |",
+			"|---|---|",
+			"| merged | Merged |",
+			"| not valid | Spaces |",
+		].join("\n"));
+		Notice.calls = [];
+
+		await manager.read();
+		expect(Notice.calls).toEqual([]);
+
+		await manager.reportErrors();
+		expect(Notice.calls).toEqual(["⚠️ Invalid or duplicate resolution \"not valid\" in resolutions.md — skipped"]);
+	});
+
+	it("falls back to the defaults when the file defines none", async () => {
+		const { vault, manager } = createManager();
+		(vault as any)._addFile("VoiceNotes/resolutions.md", "| Resolution |\n|---|\n");
+
+		expect((await manager.read()).map((r) => r.value)).toEqual(["realized", "dropped", "outdated"]);
+	});
+});
@@ -0,0 +1,183 @@
+// src/resolutions-manager.ts
+import { Vault, TFile, normalizePath, Notice } from "obsidian";
+import { t } from "./i18n";
+
+export const RESOLUTIONS_FILENAME = "resolutions.md";
+
+/** Icon of resolutions without one. */
+const DEFAULT_ICON = "archive";
+
+/**
+ * A way to close a note: the `resolution` written to its frontmatter
+ * and what happens to the note.
+ */
+export interface ArchiveResolution {
+	/** Frontmatter value, e.g. "realized" */
+	value: string;
+	/** Button and notice text */
+	label: string;
+	/** Lucide icon name */
+	icon: string;
+	/** Archive subfolder (relative to `_archive/`) instead of the note's category, "" for the category */
+	folder: string;
+	/** Move the note to the trash instead of the archive */
+	trash: boolean;
+}
+
+/** Default resolutions, labels in the current language. */
+export function defaultResolutions(): ArchiveResolution[] {
+	return [
+		{ value: "realized", label: t("resolution.realized"), icon: "check-circle-2", folder: "", trash: false },
+		{ value: "dropped", label: t("resolution.dropped"), icon: "x-circle", folder: "", trash: false },
+		{ value: "outdated", label: t("resolution.outdated"), icon: "clock", folder: "", trash: false },
+	];
+}
+
+/**
+ * Manages resolutions.md (next to categories.md): the archive resolutions
+ * offered when archiving. Local to the vault, not synced with the server.
+ */
+export class ResolutionsManager {
+	private filePath: string;
+
+	constructor(
+		private vault: Vault,
+		private basePath: string
+	) {
+		this.filePath = normalizePath(`${basePath}/${RESOLUTIONS_FILENAME}`);
+	}
+
+	/**
+	 * Update base path when settings change.
+	 */
+	setBasePath(basePath: string): void {
+		this.basePath = basePath;
+		this.filePath = normalizePath(`${basePath}/${RESOLUTIONS_FILENAME}`);
+	}
+
+	/**
+	 * Get the file path for resolutions.md.
+	 */
+	getFilePath(): string {
+		return this.filePath;
+	}
+
+	/**
+	 * Create the resolutions file with the defaults if not exists.
+	 */
+	async ensureExists(): Promise<void> {
+		if (this.vault.getAbstractFileByPath(this.filePath) instanceof TFile) {
+			return;
+		}
+
+		const baseFolder = this.vault.getAbstractFileByPath(this.basePath);
+		if (!baseFolder) {
+			await this.vault.createFolder(this.basePath);
+		}
+
+		await this.vault.create(this.filePath, this.formatAsMarkdown(defaultResolutions()));
+	}
+
+	/**
+	 * Read and parse resolutions from file, the defaults when the file
+	 * is missing or defines none.
+	 */
+	async read(): Promise<ArchiveResolution[]> {
+		const file = this.vault.getAbstractFileByPath(this.filePath);
+		if (!(file instanceof TFile)) {
+			return defaultResolutions();
+		}
+
+		const { resolutions } = this.parseMarkdown(await this.vault.read(file));
+		return resolutions.length > 0 ? resolutions : defaultResolutions();
+	}
+
+	/**
+	 * Show a notice per invalid row. Called when the file is loaded or
+	 * modified, so reading resolutions while archiving stays quiet.
+	 */
+	async reportErrors(): Promise<void> {
+		const file = this.vault.getAbstractFileByPath(this.filePath);
+		if (!(file instanceof TFile)) {
+			return;
+		}
+
+		for (const error of this.parseMarkdown(await this.vault.read(file)).errors) {
+			new Notice(error);
+		}
+	}
+
+	/**
+	 * Parse the markdown table: value, label, icon, folder, trash.
+	 * Only the value is required; the header row is recognized by the
+	 * separator row below it, so localized column titles work. Invalid
+	 * rows are skipped and described in `errors`.
+	 */
+	private parseMarkdown(content: string): { resolutions: ArchiveResolution[]; errors: string[] } {
+		const resolutions: ArchiveResolution[] = [];
+		const errors: string[] = [];
+		const lines = content.split("\n");
+
+		for (const [index, line] of lines.entries()) {
+			const trimmed = line.trim();
+			if (!trimmed.startsWith("|") || isSeparatorRow(trimmed) || isSeparatorRow(lines[index + 1] ?? "")) {
+				continue;
+			}
+
+			const [value = "", label = "", icon = "", folder = "", trash = ""] = trimmed
+				.split("|")
+				.slice(1, -1)
+				.map((p) => p.trim());
+			if (!value) {
+				continue;
+			}
+			if (!/^[\w-]+$/.test(value) || resolutions.some((r) => r.value === value)) {
+				errors.push(t("resolutions.invalidValue", { value }));
+				continue;
+			}
+			const cleanFolder = normalizePath(folder).replace(/^\/+|\/+$/g, "");
+			if (cleanFolder.split("/").includes("..")) {
+				errors.push(t("resolutions.invalidFolder", { value, folder }));
+				continue;
+			}
+
+			resolutions.push({
+				value,
+				label: label || value,
+				icon: icon || DEFAULT_ICON,
+				folder: cleanFolder,
+				trash: /^(yes|true|x|да)$/i.test(trash),
+			});
+		}
+
+		return { resolutions, errors };
+	}
+
+	/**
+	 * Format resolutions as markdown table, header and legend in the current language.
+	 */
+	private formatAsMarkdown(resolutions: ArchiveResolution[]): string {
+		const lines = [
+			t("resolutions.header"),
+			"|------------|-------|------|--------|-------|",
+		];
+
+		for (const r of resolutions) {
+			lines.push(`| ${r.value} | ${r.label} | ${r.icon} | ${r.folder} | ${r.trash ? "yes" : ""} |`);
+		}
+
+		lines.push("");
+		lines.push("---");
+		lines.push("");
+		lines.push(t("resolutions.legend"));
+
+		return lines.join("\n") + "\n";
+	}
+}
+
+/**
+ * Check for a table separator row: |---|---| or | :--- | ---: |
+ */
+function isSeparatorRow(line: string): boolean {
+	return /^\|(\s*:?-+:?\s*\|)+$/.test(line.trim());
+}
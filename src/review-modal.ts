@@ -0,0 +1,168 @@
+// src/review-modal.ts
+import { App, Modal, Setting } from "obsidian";
+import type { NoteResponse } from "./types";
+import type { ReviewResult } from "./sync-engine";
+import { t } from "./i18n";
+
+type ReviewAction = "accept" | "reject" | "defer";
+
+interface ReviewItem {
+	note: NoteResponse;
+	action: ReviewAction;
+	category: string;
+	tags: string[];
+}
+
+/**
+ * Modal for reviewing incoming notes before they are written.
+ *
+ * Per note the user can accept (optionally changing category and tags),
+ * reject (acknowledge to the server without writing) or defer
+ * (leave unsynced). Closing the modal without applying defers everything.
+ * Deferred notes are not offered again until the next manual sync or a
+ * restart of the plugin; accepted notes whose write fails are retried
+ * without reopening the modal.
+ */
+export class ReviewModal extends Modal {
+	private resolve: ((value: ReviewResult) => void) | null = null;
+	private items: ReviewItem[];
+
+	constructor(
+		app: App,
+		notes: NoteResponse[],
+		private categories: string[],
+	) {
+		super(app);
+		this.items = notes.map((note) => ({
+			note,
+			action: "accept",
+			category: note.category,
+			tags: [...note.tags],
+		}));
+	}
+
+	review(): Promise<ReviewResult> {
+		return new Promise((resolve) => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.addClass("archivistbot-review-modal");
+
+		contentEl.createEl("h3", { text: t("review.title", { count: this.items.length }) });
+		contentEl.createEl("p", {
+			text: t("review.hint"),
+			cls: "archivistbot-archive-hint",
+		});
+
+		const listEl = contentEl.createDiv({ cls: "archivistbot-review-list" });
+		for (const item of this.items) {
+			this.renderItem(listEl, item);
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText(t("review.deferAll")).onClick(() => {
+					this.finish(this.items.map((i) => ({ ...i, action: "defer" as const })));
+				})
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText(t("review.apply"))
+					.setCta()
+					.onClick(() => this.finish(this.items))
+			);
+	}
+
+	private renderItem(parent: HTMLElement, item: ReviewItem): void {
+		const { note } = item;
+		const card = parent.createDiv({ cls: "archivistbot-review-item" });
+
+		card.createEl("h4", { text: note.name });
+		card.createDiv({ text: note.summary, cls: "archivistbot-review-summary" });
+
+		const actionItems = note.action_items ?? [];
+		if (actionItems.length > 0) {
+			const list = card.createEl("ul", { cls: "archivistbot-review-actions" });
+			for (const actionItem of actionItems) {
+				list.createEl("li", { text: actionItem });
+			}
+		}
+
+		if (note.append_to) {
+			card.createDiv({
+				text: t("review.appendsTo", { path: note.append_to }),
+				cls: "archivistbot-review-append",
+			});
+		}
+
+		new Setting(card)
+			.setName(t("review.category"))
+			.addDropdown((dropdown) => {
+				const options = new Set([note.category, ...this.categories]);
+				for (const name of options) {
+					dropdown.addOption(name, name);
+				}
+				dropdown.setValue(item.category);
+				dropdown.onChange((value) => {
+					item.category = value;
+				});
+			});
+
+		new Setting(card)
+			.setName(t("review.tags"))
+			.setDesc(t("review.tagsDesc"))
+			.addText((text) =>
+				text.setValue(item.tags.join(", ")).onChange((value) => {
+					item.tags = value
+						.split(",")
+						.map((tag) => tag.trim().replace(/^#/, ""))
+						.filter((tag) => tag.length > 0);
+				})
+			);
+
+		new Setting(card)
+			.setName(t("review.action"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("accept", t("review.accept"))
+					.addOption("reject", t("review.reject"))
+					.addOption("defer", t("review.defer"))
+					.setValue(item.action)
+					.onChange((value) => {
+						item.action = value as ReviewAction;
+						card.toggleClass("archivistbot-review-skipped", value !== "accept");
+					})
+			);
+	}
+
+	private finish(items: ReviewItem[]): void {
+		const result: ReviewResult = { accepted: [], rejected: [], deferred: [] };
+		for (const item of items) {
+			if (item.action === "accept") {
+				result.accepted.push({ ...item.note, category: item.category, tags: item.tags });
+			} else if (item.action === "reject") {
+				result.rejected.push(item.note.id);
+			} else {
+				result.deferred.push(item.note.id);
+			}
+		}
+		this.resolve?.(result);
+		this.resolve = null;
+		this.close();
+	}
+
+	onClose(): void {
+		// Closed without applying — defer everything
+		this.resolve?.({
+			accepted: [],
+			rejected: [],
+			deferred: this.items.map((i) => i.note.id),
+		});
+		this.resolve = null;
+		this.contentEl.empty();
+	}
+}
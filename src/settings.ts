@@ -2,6 +2,18 @@
 import { App, Notice, PluginSettingTab, Setting } from "obsidian";
 import type ArchivistBotPlugin from "./main";
 import type { ReminderSettings } from "./types";
+import type { PendingAck } from "./outbox";
+import type { SyncRunRecord } from "./sync-log";
+import { DEFAULT_FILE_NAME_PATTERN, validateFileNamePattern } from "./file-name";
+import { resolveLocale, setLocale, t } from "./i18n";
+import type { LanguageSetting } from "./i18n";
+import type { TaskFormat } from "./task-format";
+import { DEFAULT_DAILY_NOTE_FORMAT } from "./daily-notes";
+import { DEFAULT_APPEND_HEADING, parsePlacementRules } from "./append-placement";
+import { parseArchiveRules } from "./archive-rules";
+import type { AppendMode } from "./append-placement";
+import { parseFolderMappings } from "./vault-layout";
+import type { DatePartition } from "./vault-layout";
 
 export interface ArchivistBotSettings {
 	endpoint: string;
@@ -10,9 +22,52 @@ export interface ArchivistBotSettings {
 	accessTokenExpiresAt: number; // unix timestamp ms, 0 = not set
 	syncIntervalSec: number;
 	vaultBasePath: string;        // root folder for notes in vault
+	folderMappings: string;       // category → folder routes, one "category[/*]: folder" per line
+	datePartition: DatePartition; // date subfolders in category folders and the archive
+	categoryIndexes: boolean;     // maintain an _index.md note in each category folder
+	batchCanvas: boolean;         // generate a .canvas per smart-split batch
 	autoSync: boolean;
+	language: LanguageSetting;    // generated note sections + UI messages, "auto" = Obsidian's language
+	reviewIncoming: boolean;      // review fetched notes in a modal before writing
+	leaderElection: boolean;      // only one device (lease holder) syncs a shared vault
+	fileNamePattern: string;      // file name of new notes, tokens: {name} {date:FMT} {time} {category} {id8} {batch}
+	fileNameUtc: boolean;         // format {date} / {time} in UTC (true) or local time
+	taskFormat: TaskFormat;       // action items as plain checkboxes or Obsidian Tasks lines
+	noteTemplatePath: string;     // vault path of the new-note body template, "" = built-in
+	appendTemplatePath: string;   // vault path of the addition template, "" = built-in
+	appendMode: AppendMode;       // where replies go in the target note (categories without a rule)
+	appendHeading: string;        // heading of the "heading" append mode
+	appendPlacementRules: string; // per-category append modes, one "category: mode [heading]" per line
+	archiveRules: string;         // archive rules, one "category: condition resolution [auto]" per line
+	dailyNotes: boolean;          // list synced notes in the daily note of their day
+	dailyNotesHeading: string;    // heading the daily note entries go under
+	dailyNotesFolder: string;     // daily notes folder, "" = core Daily notes plugin setting
+	dailyNotesFormat: string;     // daily note name format, "" = core Daily notes plugin setting
 }
 
+/**
+ * Sync state of this device. Kept in a per-device file next to data.json:
+ * data.json is synced between devices, and a passive device saving its
+ * settings must not overwrite the leader's outbox or watermark.
+ */
+export interface DeviceState {
+	pendingAcks: PendingAck[];    // written notes awaiting mark-synced (outbox)
+	pendingPathUpdates: Record<string, string>; // note id → new vault path, not yet reported
+	trashedPaths: string[];       // vault paths of notes trashed by a resolution, not yet reconciled
+	restoredPaths: string[];      // vault paths of notes restored from the archive, not yet reconciled
+	syncWatermark: string;        // server_time of last fully synced backlog, "" = none
+	syncLog: SyncRunRecord[];     // recent sync runs (bounded ring buffer)
+}
+
+export const DEFAULT_DEVICE_STATE: DeviceState = {
+	pendingAcks: [],
+	pendingPathUpdates: {},
+	trashedPaths: [],
+	restoredPaths: [],
+	syncWatermark: "",
+	syncLog: [],
+};
+
 export const DEFAULT_SETTINGS: ArchivistBotSettings = {
 	endpoint: "http://localhost:8000",
 	refreshToken: "",
@@ -20,7 +75,27 @@ export const DEFAULT_SETTINGS: ArchivistBotSettings = {
 	accessTokenExpiresAt: 0,
 	syncIntervalSec: 60,
 	vaultBasePath: "VoiceNotes",
+	folderMappings: "",
+	datePartition: "none",
+	categoryIndexes: false,
+	batchCanvas: false,
 	autoSync: true,
+	language: "auto",
+	reviewIncoming: false,
+	leaderElection: false,
+	fileNamePattern: DEFAULT_FILE_NAME_PATTERN,
+	fileNameUtc: true,
+	taskFormat: "checkbox",
+	noteTemplatePath: "",
+	appendTemplatePath: "",
+	appendMode: "end",
+	appendHeading: DEFAULT_APPEND_HEADING,
+	appendPlacementRules: "",
+	archiveRules: "",
+	dailyNotes: false,
+	dailyNotesHeading: "## Voice notes",
+	dailyNotesFolder: "",
+	dailyNotesFormat: "",
 };
 
 export class ArchivistBotSettingTab extends PluginSettingTab {
@@ -41,8 +116,25 @@ export class ArchivistBotSettingTab extends PluginSettingTab {
 		this.updateConnectionStatus();
 
 		new Setting(containerEl)
-			.setName("Server URL")
-			.setDesc("API endpoint for the server")
+			.setName(t("settings.language"))
+			.setDesc(t("settings.languageDesc"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("auto", t("settings.languageAuto"))
+					.addOption("en", "English")
+					.addOption("ru", "Русский")
+					.setValue(this.plugin.settings.language)
+					.onChange(async (value) => {
+						this.plugin.settings.language = value as LanguageSetting;
+						setLocale(resolveLocale(this.plugin.settings.language));
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.serverUrl"))
+			.setDesc(t("settings.serverUrlDesc"))
 			.addText((text) =>
 				text
 					.setPlaceholder("https://example.com")
@@ -54,14 +146,14 @@ export class ArchivistBotSettingTab extends PluginSettingTab {
 			);
 
 		new Setting(containerEl)
-			.setName("Auth token")
-			.setDesc("Token from Telegram bot (/start or /newtoken)")
+			.setName(t("settings.authToken"))
+			.setDesc(t("settings.authTokenDesc"))
 			.addText((text) => {
 				// Show placeholder if already connected (token was rotated internally),
 				// show actual value only if freshly pasted and not yet connected
 				const hasSession = !!this.plugin.settings.accessToken;
 				text
-					.setPlaceholder("Paste token from Telegram...")
+					.setPlaceholder(t("settings.authTokenPlaceholder"))
 					.setValue(hasSession ? "" : this.plugin.settings.refreshToken)
 					.onChange(async (value) => {
 						// Strip all whitespace — Telegram may insert line breaks in long tokens
@@ -79,34 +171,34 @@ export class ArchivistBotSettingTab extends PluginSettingTab {
 
 		// ── Connect button ──
 		new Setting(containerEl)
-			.setName("Connect")
-			.setDesc("Validate token and sync configuration with server")
+			.setName(t("settings.connect"))
+			.setDesc(t("settings.connectDesc"))
 			.addButton((btn) =>
 				btn
-					.setButtonText("Connect")
+					.setButtonText(t("settings.connect"))
 					.setCta()
 					.onClick(async () => {
 						if (!this.plugin.settings.refreshToken) {
-							new Notice("Paste an auth token first");
+							new Notice(t("notice.pasteToken"));
 							return;
 						}
 
-						btn.setButtonText("Connecting...");
+						btn.setButtonText(t("settings.connecting"));
 						btn.setDisabled(true);
 
 						try {
 							await this.plugin.connect();
 							this.updateConnectionStatus();
 						} finally {
-							btn.setButtonText("Connect");
+							btn.setButtonText(t("settings.connect"));
 							btn.setDisabled(false);
 						}
 					})
 			);
 
 		new Setting(containerEl)
-			.setName("Sync interval")
-			.setDesc("Seconds between sync checks (10-300)")
+			.setName(t("settings.syncInterval"))
+			.setDesc(t("settings.syncIntervalDesc"))
 			.addSlider((slider) =>
 				slider
 					.setLimits(10, 300, 10)
@@ -120,8 +212,8 @@ export class ArchivistBotSettingTab extends PluginSettingTab {
 			);
 
 		new Setting(containerEl)
-			.setName("Vault base path")
-			.setDesc("Folder for synced notes")
+			.setName(t("settings.basePath"))
+			.setDesc(t("settings.basePathDesc"))
 			.addText((text) =>
 				text
 					.setPlaceholder("Notes")
@@ -132,9 +224,63 @@ export class ArchivistBotSettingTab extends PluginSettingTab {
 					})
 			);
 
+		const mappingsSetting = new Setting(containerEl)
+			.setName(t("settings.folderMappings"))
+			.setDesc(t("settings.folderMappingsDesc"));
+		const mappingsErrorEl = mappingsSetting.descEl.createDiv({ cls: "archivistbot-setting-error" });
+		mappingsSetting.addTextArea((area) =>
+			area
+				.setPlaceholder(t("settings.folderMappingsPlaceholder"))
+				.setValue(this.plugin.settings.folderMappings)
+				.onChange(async (value) => {
+					const { errors } = parseFolderMappings(value);
+					mappingsErrorEl.setText(errors.join("; "));
+					if (errors.length > 0) {
+						return;
+					}
+					this.plugin.settings.folderMappings = value;
+					await this.plugin.saveSettings();
+				})
+		);
+
+		new Setting(containerEl)
+			.setName(t("settings.datePartition"))
+			.setDesc(t("settings.datePartitionDesc"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("none", t("settings.datePartition.none"))
+					.addOption("month", t("settings.datePartition.month"))
+					.addOption("week", t("settings.datePartition.week"))
+					.setValue(this.plugin.settings.datePartition)
+					.onChange(async (value) => {
+						this.plugin.settings.datePartition = value as DatePartition;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.categoryIndexes"))
+			.setDesc(t("settings.categoryIndexesDesc"))
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.categoryIndexes).onChange(async (value) => {
+					this.plugin.settings.categoryIndexes = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.batchCanvas"))
+			.setDesc(t("settings.batchCanvasDesc"))
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.batchCanvas).onChange(async (value) => {
+					this.plugin.settings.batchCanvas = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
 		new Setting(containerEl)
-			.setName("Auto sync")
-			.setDesc("Automatically sync notes on interval")
+			.setName(t("settings.autoSync"))
+			.setDesc(t("settings.autoSyncDesc"))
 			.addToggle((toggle) =>
 				toggle.setValue(this.plugin.settings.autoSync).onChange(async (value) => {
 					this.plugin.settings.autoSync = value;
@@ -147,6 +293,214 @@ export class ArchivistBotSettingTab extends PluginSettingTab {
 				})
 			);
 
+		new Setting(containerEl)
+			.setName(t("settings.leaderElection"))
+			.setDesc(t("settings.leaderElectionDesc"))
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.leaderElection).onChange(async (value) => {
+					this.plugin.settings.leaderElection = value;
+					await this.plugin.saveSettings();
+					this.plugin.restartSync();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.reviewIncoming"))
+			.setDesc(t("settings.reviewIncomingDesc"))
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.reviewIncoming).onChange(async (value) => {
+					this.plugin.settings.reviewIncoming = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		const patternSetting = new Setting(containerEl)
+			.setName(t("settings.fileNamePattern"))
+			.setDesc(t("settings.fileNamePatternDesc"));
+		const patternErrorEl = patternSetting.descEl.createDiv({ cls: "archivistbot-setting-error" });
+		patternSetting.addText((text) =>
+			text
+				.setPlaceholder(DEFAULT_FILE_NAME_PATTERN)
+				.setValue(this.plugin.settings.fileNamePattern)
+				.onChange(async (value) => {
+					const pattern = value.trim() || DEFAULT_FILE_NAME_PATTERN;
+					const errors = validateFileNamePattern(pattern);
+					patternErrorEl.setText(errors.join("; "));
+					if (errors.length > 0) {
+						return;
+					}
+					this.plugin.settings.fileNamePattern = pattern;
+					await this.plugin.saveSettings();
+				})
+		);
+
+		new Setting(containerEl)
+			.setName(t("settings.fileNameUtc"))
+			.setDesc(t("settings.fileNameUtcDesc"))
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.fileNameUtc).onChange(async (value) => {
+					this.plugin.settings.fileNameUtc = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.taskFormat"))
+			.setDesc(t("settings.taskFormatDesc"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("checkbox", t("settings.taskFormatCheckbox"))
+					.addOption("tasks", t("settings.taskFormatTasks"))
+					.setValue(this.plugin.settings.taskFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.taskFormat = value as TaskFormat;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.noteTemplate"))
+			.setDesc(t("settings.noteTemplateDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder("templates/note.md")
+					.setValue(this.plugin.settings.noteTemplatePath)
+					.onChange(async (value) => {
+						this.plugin.settings.noteTemplatePath = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.appendTemplate"))
+			.setDesc(t("settings.appendTemplateDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder("templates/addition.md")
+					.setValue(this.plugin.settings.appendTemplatePath)
+					.onChange(async (value) => {
+						this.plugin.settings.appendTemplatePath = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.appendMode"))
+			.setDesc(t("settings.appendModeDesc"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("end", t("settings.appendMode.end"))
+					.addOption("heading", t("settings.appendMode.heading"))
+					.addOption("prepend", t("settings.appendMode.prepend"))
+					.addOption("callout", t("settings.appendMode.callout"))
+					.addOption("reply-note", t("settings.appendMode.replyNote"))
+					.setValue(this.plugin.settings.appendMode)
+					.onChange(async (value) => {
+						this.plugin.settings.appendMode = value as AppendMode;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.appendHeading"))
+			.setDesc(t("settings.appendHeadingDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_APPEND_HEADING)
+					.setValue(this.plugin.settings.appendHeading)
+					.onChange(async (value) => {
+						this.plugin.settings.appendHeading = value.trim() || DEFAULT_APPEND_HEADING;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const rulesSetting = new Setting(containerEl)
+			.setName(t("settings.appendRules"))
+			.setDesc(t("settings.appendRulesDesc"));
+		const rulesErrorEl = rulesSetting.descEl.createDiv({ cls: "archivistbot-setting-error" });
+		rulesSetting.addTextArea((area) =>
+			area
+				.setPlaceholder(t("settings.appendRulesPlaceholder"))
+				.setValue(this.plugin.settings.appendPlacementRules)
+				.onChange(async (value) => {
+					const { errors } = parsePlacementRules(value);
+					rulesErrorEl.setText(errors.join("; "));
+					if (errors.length > 0) {
+						return;
+					}
+					this.plugin.settings.appendPlacementRules = value;
+					await this.plugin.saveSettings();
+				})
+		);
+
+		const archiveRulesSetting = new Setting(containerEl)
+			.setName(t("settings.archiveRules"))
+			.setDesc(t("settings.archiveRulesDesc"));
+		const archiveRulesErrorEl = archiveRulesSetting.descEl.createDiv({ cls: "archivistbot-setting-error" });
+		archiveRulesSetting.addTextArea((area) =>
+			area
+				.setPlaceholder(t("settings.archiveRulesPlaceholder"))
+				.setValue(this.plugin.settings.archiveRules)
+				.onChange(async (value) => {
+					const { errors } = parseArchiveRules(value);
+					archiveRulesErrorEl.setText(errors.join("; "));
+					if (errors.length > 0) {
+						return;
+					}
+					this.plugin.settings.archiveRules = value;
+					await this.plugin.saveSettings();
+				})
+		);
+
+		new Setting(containerEl)
+			.setName(t("settings.dailyNotes"))
+			.setDesc(t("settings.dailyNotesDesc"))
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.dailyNotes).onChange(async (value) => {
+					this.plugin.settings.dailyNotes = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.dailyNotesHeading"))
+			.setDesc(t("settings.dailyNotesHeadingDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.dailyNotesHeading)
+					.setValue(this.plugin.settings.dailyNotesHeading)
+					.onChange(async (value) => {
+						this.plugin.settings.dailyNotesHeading = value.trim() || DEFAULT_SETTINGS.dailyNotesHeading;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.dailyNotesFolder"))
+			.setDesc(t("settings.dailyNotesFolderDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder("Daily")
+					.setValue(this.plugin.settings.dailyNotesFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.dailyNotesFolder = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.dailyNotesFormat"))
+			.setDesc(t("settings.dailyNotesFormatDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_DAILY_NOTE_FORMAT)
+					.setValue(this.plugin.settings.dailyNotesFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.dailyNotesFormat = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
 		// ── Digest Reminders (server-side settings) ──
 		if (this.plugin.settings.accessToken) {
 			this.renderReminderSettings(containerEl);
@@ -158,9 +512,9 @@ export class ArchivistBotSettingTab extends PluginSettingTab {
 	 * Loads current values from server, saves changes via PATCH.
 	 */
 	private renderReminderSettings(containerEl: HTMLElement): void {
-		new Setting(containerEl).setName("Digest reminders").setHeading();
+		new Setting(containerEl).setName(t("settings.reminders")).setHeading();
 
-		const loadingEl = containerEl.createDiv({ text: "Loading reminder settings..." });
+		const loadingEl = containerEl.createDiv({ text: t("settings.remindersLoading") });
 
 		// Load settings from server asynchronously
 		void this.plugin.getUserSettings().then(async (response) => {
@@ -189,13 +543,13 @@ export class ArchivistBotSettingTab extends PluginSettingTab {
 					await this.plugin.updateUserSettings({ reminders: { ...reminders, ...patch } as ReminderSettings });
 					Object.assign(reminders, patch);
 				} catch (e) {
-					new Notice(`Failed to save reminder settings: ${String(e)}`);
+					new Notice(t("notice.reminderSaveFailed", { error: String(e) }));
 				}
 			};
 
 			new Setting(containerEl)
-				.setName("Enable digest reminders")
-				.setDesc("Receive periodic summaries of unarchived notes in Telegram")
+				.setName(t("settings.remindersEnabled"))
+				.setDesc(t("settings.remindersEnabledDesc"))
 				.addToggle((toggle) =>
 					toggle.setValue(reminders.enabled).onChange(async (value) => {
 						await saveReminder({ enabled: value });
@@ -203,8 +557,8 @@ export class ArchivistBotSettingTab extends PluginSettingTab {
 				);
 
 			new Setting(containerEl)
-				.setName("Send time")
-				.setDesc("Hour of day to receive digests (0-23)")
+				.setName(t("settings.sendTime"))
+				.setDesc(t("settings.sendTimeDesc"))
 				.addDropdown((dropdown) => {
 					for (let h = 0; h < 24; h++) {
 						const label = `${h.toString().padStart(2, "0")}:00`;
@@ -217,9 +571,8 @@ export class ArchivistBotSettingTab extends PluginSettingTab {
 				});
 
 			new Setting(containerEl)
-				.setName("Timezone")
-			// eslint-disable-next-line obsidianmd/ui/sentence-case -- IANA is a proper noun
-			.setDesc("IANA timezone for digest scheduling")
+				.setName(t("settings.timezone"))
+			.setDesc(t("settings.timezoneDesc"))
 			.addText((text) =>
 				text
 					// eslint-disable-next-line obsidianmd/ui/sentence-case -- timezone identifier, not UI text
@@ -231,18 +584,18 @@ export class ArchivistBotSettingTab extends PluginSettingTab {
 				);
 
 			const weekDays: { value: ReminderSettings["weekly_day"]; label: string }[] = [
-				{ value: "monday", label: "Monday" },
-				{ value: "tuesday", label: "Tuesday" },
-				{ value: "wednesday", label: "Wednesday" },
-				{ value: "thursday", label: "Thursday" },
-				{ value: "friday", label: "Friday" },
-				{ value: "saturday", label: "Saturday" },
-				{ value: "sunday", label: "Sunday" },
+				{ value: "monday", label: t("weekday.monday") },
+				{ value: "tuesday", label: t("weekday.tuesday") },
+				{ value: "wednesday", label: t("weekday.wednesday") },
+				{ value: "thursday", label: t("weekday.thursday") },
+				{ value: "friday", label: t("weekday.friday") },
+				{ value: "saturday", label: t("weekday.saturday") },
+				{ value: "sunday", label: t("weekday.sunday") },
 			];
 
 			new Setting(containerEl)
-				.setName("Weekly digest day")
-				.setDesc("Day of week for weekly reminders")
+				.setName(t("settings.weeklyDay"))
+				.setDesc(t("settings.weeklyDayDesc"))
 				.addDropdown((dropdown) => {
 					for (const { value, label } of weekDays) {
 						dropdown.addOption(value, label);
@@ -254,8 +607,8 @@ export class ArchivistBotSettingTab extends PluginSettingTab {
 				});
 
 			new Setting(containerEl)
-				.setName("Monthly digest day")
-				.setDesc("Day of month for monthly reminders (1-28)")
+				.setName(t("settings.monthlyDay"))
+				.setDesc(t("settings.monthlyDayDesc"))
 				.addSlider((slider) =>
 					slider
 						.setLimits(1, 28, 1)
@@ -266,7 +619,7 @@ export class ArchivistBotSettingTab extends PluginSettingTab {
 						})
 				);
 		}).catch((e) => {
-			loadingEl.setText("Failed to load reminder settings");
+			loadingEl.setText(t("settings.remindersLoadFailed"));
 			console.error("[ArchivistBot] Failed to load reminder settings:", e);
 		});
 	}
@@ -284,10 +637,10 @@ export class ArchivistBotSettingTab extends PluginSettingTab {
 		const status = this.plugin.configSync.getStatus();
 
 		const labels: Record<string, string> = {
-			synced: "Connected",
-			pending: "Syncing...",
-			error: "Connection error",
-			offline: "Server unreachable",
+			synced: t("settings.status.synced"),
+			pending: t("settings.status.pending"),
+			error: t("settings.status.error"),
+			offline: t("settings.status.offline"),
 		};
 
 		const label = labels[status] ?? status;
@@ -1,8 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import type { ArchivistApiClient } from "./api-client";
 import type { NoteWriter } from "./note-writer";
+import type { NoteIndex } from "./note-index";
 import type { NoteResponse, SyncResponse, MarkSyncedResponse } from "./types";
-import { SyncEngine, buildBatchSiblings } from "./sync-engine";
+import { SyncEngine, buildBatchSiblings, orderParentsFirst } from "./sync-engine";
+import type { SyncProgress } from "./sync-engine";
+import { SyncOutbox } from "./outbox";
+import { PathUpdateQueue } from "./path-updates";
+import { SyncLog } from "./sync-log";
 
 function makeNote(id: string): NoteResponse {
 	return {
@@ -40,6 +45,9 @@ function createEngine(opts: {
 			markSyncedIds.push([...ids]);
 			return { synced_count: ids.length };
 		}),
+		updateVaultPaths: vi.fn(async (paths: Record<string, string>) => ({
+			updated: Object.keys(paths).length,
+		})),
 	} as unknown as ArchivistApiClient;
 
 	const writer = {
@@ -49,6 +57,7 @@ function createEngine(opts: {
 			}
 			return writeResults[writeIdx++] ?? null;
 		}),
+		linkBatchSiblings: vi.fn(async () => {}),
 	} as unknown as NoteWriter;
 
 	const engine = new SyncEngine(client, writer, () => {});
@@ -198,6 +207,636 @@ describe("SyncEngine", () => {
 		});
 	});
 
+	describe("outbox", () => {
+		it("keeps written notes in outbox when markSynced fails", async () => {
+			const notes = [makeNote("1"), makeNote("2")];
+			const { engine } = createEngine({ notes });
+			const client = (engine as unknown as { client: ArchivistApiClient }).client;
+			vi.mocked(client.markSynced).mockRejectedValueOnce(new Error("server 500"));
+			const outbox = new SyncOutbox();
+			engine.setOutbox(outbox);
+
+			await expect(engine.sync()).rejects.toThrow("server 500");
+
+			expect(outbox.list().map((a) => a.noteId)).toEqual(["1", "2"]);
+			expect(outbox.list()[0].vaultPath).toBe("path/Note 1.md");
+		});
+
+		it("acknowledges pending notes before fetching", async () => {
+			const { engine, markSyncedIds } = createEngine({ notes: [] });
+			const client = (engine as unknown as { client: ArchivistApiClient }).client;
+			const outbox = new SyncOutbox([
+				{ noteId: "old", vaultPath: "path/old.md", writtenAt: "2026-02-07T10:00:00Z" },
+			]);
+			engine.setOutbox(outbox);
+
+			await engine.sync();
+
+			expect(markSyncedIds).toEqual([["old"]]);
+			expect(client.markSynced).toHaveBeenCalledWith(["old"], { "old": "path/old.md" });
+			expect(outbox.size()).toBe(0);
+		});
+
+		it("does not fetch when pending acknowledgement fails", async () => {
+			const { engine } = createEngine({ notes: [makeNote("1")] });
+			const client = (engine as unknown as { client: ArchivistApiClient }).client;
+			vi.mocked(client.markSynced).mockRejectedValueOnce(new Error("timeout"));
+			engine.setOutbox(new SyncOutbox([
+				{ noteId: "old", vaultPath: null, writtenAt: "2026-02-07T10:00:00Z" },
+			]));
+
+			await expect(engine.sync()).rejects.toThrow("timeout");
+
+			expect(client.fetchUnsynced).not.toHaveBeenCalled();
+		});
+
+		it("retryPendingAcks flushes outbox without fetching", async () => {
+			const { engine, markSyncedIds } = createEngine({ notes: [makeNote("1")] });
+			const client = (engine as unknown as { client: ArchivistApiClient }).client;
+			engine.setOutbox(new SyncOutbox([
+				{ noteId: "old", vaultPath: null, writtenAt: "2026-02-07T10:00:00Z" },
+			]));
+
+			await engine.retryPendingAcks();
+
+			expect(markSyncedIds).toEqual([["old"]]);
+			expect(client.fetchUnsynced).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("path updates", () => {
+		it("reports renamed note paths after acknowledging the outbox", async () => {
+			const { engine } = createEngine({ notes: [] });
+			const client = (engine as unknown as { client: ArchivistApiClient }).client;
+			engine.setOutbox(new SyncOutbox([
+				{ noteId: "1", vaultPath: "path/old.md", writtenAt: "2026-02-07T10:00:00Z" },
+			]));
+			const queue = new PathUpdateQueue({ "1": "path/renamed.md" });
+			engine.setPathUpdates(queue);
+
+			await engine.sync();
+
+			expect(client.updateVaultPaths).toHaveBeenCalledWith({ "1": "path/renamed.md" });
+			expect(vi.mocked(client.markSynced).mock.invocationCallOrder[0])
+				.toBeLessThan(vi.mocked(client.updateVaultPaths).mock.invocationCallOrder[0]);
+			expect(queue.size()).toBe(0);
+		});
+
+		it("keeps path updates and still writes notes when the server call fails", async () => {
+			const { engine, markSyncedIds } = createEngine({ notes: [makeNote("2")] });
+			const client = (engine as unknown as { client: ArchivistApiClient }).client;
+			const writer = (engine as unknown as { writer: NoteWriter }).writer;
+			vi.mocked(client.updateVaultPaths).mockRejectedValueOnce(new Error("server 500"));
+			const queue = new PathUpdateQueue({ "1": "path/renamed.md" });
+			engine.setPathUpdates(queue);
+			const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+			expect(await engine.sync()).toBe(1);
+
+			expect(queue.list()).toEqual({ "1": "path/renamed.md" });
+			expect(writer.write).toHaveBeenCalledTimes(1);
+			expect(markSyncedIds).toEqual([["2"]]);
+			error.mockRestore();
+		});
+
+		it("stops reporting path updates for the session on 404", async () => {
+			const { engine } = createEngine({ notes: [] });
+			const client = (engine as unknown as { client: ArchivistApiClient }).client;
+			vi.mocked(client.updateVaultPaths).mockRejectedValue(new Error("Request failed, status 404"));
+			const queue = new PathUpdateQueue({ "1": "path/renamed.md" });
+			engine.setPathUpdates(queue);
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+			await engine.sync();
+			await engine.sync();
+
+			expect(client.updateVaultPaths).toHaveBeenCalledTimes(1);
+			expect(client.fetchUnsynced).toHaveBeenCalledTimes(2);
+			expect(queue.size()).toBe(1);
+			warn.mockRestore();
+		});
+
+		it("does not call the server when nothing was renamed", async () => {
+			const { engine } = createEngine({ notes: [] });
+			const client = (engine as unknown as { client: ArchivistApiClient }).client;
+
+			await engine.sync();
+
+			expect(client.updateVaultPaths).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("note-written handler", () => {
+		it("reports created and appended notes, not dedup skips", async () => {
+			const reply = { ...makeNote("3"), append_to: "path/Note 1.md" };
+			const { engine } = createEngine({
+				notes: [makeNote("1"), makeNote("2"), reply],
+				writeResults: ["path/Note 1.md", null, "path/Note 1.md"],
+			});
+			const handler = vi.fn(async () => {});
+			engine.setOnNoteWritten(handler);
+
+			await engine.sync();
+
+			expect(handler.mock.calls.map(([note, path, kind]) => [note.id, path, kind])).toEqual([
+				["1", "path/Note 1.md", "created"],
+				["3", "path/Note 1.md", "appended"],
+			]);
+		});
+
+		it("still acknowledges the note when the handler fails", async () => {
+			const { engine, markSyncedIds } = createEngine({ notes: [makeNote("1")] });
+			engine.setOnNoteWritten(async () => {
+				throw new Error("daily note locked");
+			});
+			vi.spyOn(console, "error").mockImplementation(() => {});
+
+			await engine.sync();
+
+			expect(markSyncedIds).toEqual([["1"]]);
+		});
+	});
+
+	describe("replies in the same page", () => {
+		const reply = (id: string, parent: string): NoteResponse => ({ ...makeNote(id), parent_note_id: parent });
+
+		it("writes the parent first and appends the reply to its new file", async () => {
+			const { engine, markSyncedIds } = createEngine({
+				notes: [reply("2", "1"), makeNote("1")],
+				writeResults: ["path/Note 1.md", "path/Note 1.md"],
+			});
+			const writer = (engine as unknown as { writer: NoteWriter }).writer;
+			const client = (engine as unknown as { client: ArchivistApiClient }).client;
+
+			await engine.sync();
+
+			const written = vi.mocked(writer.write).mock.calls.map(([note]) => [note.id, note.append_to]);
+			expect(written).toEqual([["1", undefined], ["2", "path/Note 1.md"]]);
+			expect(markSyncedIds).toEqual([["1", "2"]]);
+			expect(client.markSynced).toHaveBeenCalledWith(["1", "2"], {
+				"1": "path/Note 1.md",
+				"2": "path/Note 1.md",
+			});
+		});
+
+		it("keeps the server's append_to of replies", async () => {
+			const { engine } = createEngine({
+				notes: [makeNote("1"), { ...reply("2", "1"), append_to: "path/Moved.md" }],
+			});
+			const writer = (engine as unknown as { writer: NoteWriter }).writer;
+
+			await engine.sync();
+
+			expect(vi.mocked(writer.write).mock.calls[1][0].append_to).toBe("path/Moved.md");
+		});
+
+		it("leaves the reply unsynced when its parent fails to write", async () => {
+			const { engine, markSyncedIds } = createEngine({
+				notes: [makeNote("1"), reply("2", "1"), makeNote("3")],
+				writeErrors: new Map([["1", new Error("disk full")]]),
+				writeResults: ["path/Note 3.md"],
+			});
+			vi.spyOn(console, "error").mockImplementation(() => {});
+
+			await engine.sync();
+
+			expect(markSyncedIds).toEqual([["3"]]);
+		});
+	});
+
+	describe("replies to earlier pages and existing notes", () => {
+		const reply = (id: string, parent: string): NoteResponse => ({ ...makeNote(id), parent_note_id: parent });
+
+		it("appends a reply to a parent written in an earlier page of the run", async () => {
+			const client = {
+				fetchUnsynced: vi.fn()
+					.mockResolvedValueOnce({ notes: [makeNote("1")], server_time: "T1", next_cursor: "c1" })
+					.mockResolvedValueOnce({ notes: [reply("2", "1")], server_time: "T1", next_cursor: null }),
+				markSynced: vi.fn(async (ids: string[]) => ({ synced_count: ids.length })),
+			} as unknown as ArchivistApiClient;
+			const writer = {
+				write: vi.fn(async () => "path/Note 1.md"),
+			} as unknown as NoteWriter;
+			const engine = new SyncEngine(client, writer, () => {});
+
+			await engine.sync();
+
+			expect(vi.mocked(writer.write).mock.calls[1][0].append_to).toBe("path/Note 1.md");
+		});
+
+		it("appends a reply to a parent that is already in the vault", async () => {
+			const { engine } = createEngine({
+				notes: [makeNote("1"), reply("2", "1"), reply("3", "0")],
+				writeResults: [null, "path/Existing.md", "path/Old.md"],
+			});
+			const files: Record<string, string> = { "1": "path/Existing.md", "0": "path/Old.md" };
+			engine.setNoteIndex({
+				getById: (id: string) => (files[id] ? { path: files[id] } : null),
+			} as unknown as NoteIndex);
+			const writer = (engine as unknown as { writer: NoteWriter }).writer;
+
+			await engine.sync();
+
+			const written = vi.mocked(writer.write).mock.calls.map(([note]) => [note.id, note.append_to]);
+			expect(written).toEqual([["1", undefined], ["2", "path/Existing.md"], ["3", "path/Old.md"]]);
+		});
+	});
+
+	describe("batch sibling backfill", () => {
+		it("links created notes of each batch with earlier runs", async () => {
+			const { engine } = createEngine({
+				notes: [{ ...makeNote("1"), source_batch_id: "b1" }, makeNote("2")],
+			});
+			const writer = (engine as unknown as { writer: NoteWriter }).writer;
+
+			await engine.sync();
+
+			expect(writer.linkBatchSiblings).toHaveBeenCalledTimes(1);
+			expect(writer.linkBatchSiblings).toHaveBeenCalledWith("b1", ["path/Note 1.md"]);
+		});
+	});
+
+	describe("batch-written handler", () => {
+		it("groups created notes by batch after the page is written", async () => {
+			const inBatch = (id: string, batch: string) => ({ ...makeNote(id), source_batch_id: batch });
+			const { engine } = createEngine({
+				notes: [inBatch("1", "b1"), inBatch("2", "b1"), inBatch("3", "b2"), makeNote("4")],
+			});
+			const handler = vi.fn(async () => {});
+			engine.setOnBatchWritten(handler);
+
+			await engine.sync();
+
+			expect(handler.mock.calls.map(([batch, notes]) => [batch, notes.map((n) => n.path)])).toEqual([
+				["b1", ["path/Note 1.md", "path/Note 2.md"]],
+				["b2", ["path/Note 3.md"]],
+			]);
+		});
+
+		it("still acknowledges the batch when the handler fails", async () => {
+			const { engine, markSyncedIds } = createEngine({
+				notes: [{ ...makeNote("1"), source_batch_id: "b1" }],
+			});
+			engine.setOnBatchWritten(async () => {
+				throw new Error("canvas locked");
+			});
+			vi.spyOn(console, "error").mockImplementation(() => {});
+
+			await engine.sync();
+
+			expect(markSyncedIds).toEqual([["1"]]);
+		});
+	});
+
+	describe("paging", () => {
+		function pagedClient(pages: SyncResponse[]): ArchivistApiClient {
+			let idx = 0;
+			return {
+				fetchUnsynced: vi.fn(async () => pages[idx++]),
+				markSynced: vi.fn(async (ids: string[]) => ({ synced_count: ids.length })),
+			} as unknown as ArchivistApiClient;
+		}
+
+		function okWriter(): NoteWriter {
+			return {
+				write: vi.fn(async (note: NoteResponse) => `path/${note.id}.md`),
+			} as unknown as NoteWriter;
+		}
+
+		it("follows next_cursor until the backlog is drained", async () => {
+			const client = pagedClient([
+				{ notes: [makeNote("1"), makeNote("2")], server_time: "T1", next_cursor: "c1" },
+				{ notes: [makeNote("3")], server_time: "T2", next_cursor: null },
+			]);
+			const engine = new SyncEngine(client, okWriter(), () => {});
+
+			const count = await engine.sync();
+
+			expect(count).toBe(3);
+			expect(client.fetchUnsynced).toHaveBeenCalledTimes(2);
+			expect(vi.mocked(client.fetchUnsynced).mock.calls[1][0]).toMatchObject({ cursor: "c1" });
+			// Each page is acknowledged before the next one is fetched
+			expect(vi.mocked(client.markSynced).mock.calls.map((c) => c[0])).toEqual([["1", "2"], ["3"]]);
+		});
+
+		it("sends the persisted watermark and saves the first page's server_time", async () => {
+			const client = pagedClient([
+				{ notes: [makeNote("1")], server_time: "T1", next_cursor: "c1" },
+				{ notes: [], server_time: "T2" },
+			]);
+			const engine = new SyncEngine(client, okWriter(), () => {});
+			const save = vi.fn(async () => {});
+			engine.setWatermarkStore({ load: () => "T0", save });
+
+			await engine.sync();
+
+			expect(vi.mocked(client.fetchUnsynced).mock.calls[0][0]).toMatchObject({ since: "T0" });
+			expect(save).toHaveBeenCalledWith("T1");
+		});
+
+		it("does not advance the watermark when a write failed", async () => {
+			const client = pagedClient([{ notes: [makeNote("1")], server_time: "T1" }]);
+			const writer = {
+				write: vi.fn().mockRejectedValue(new Error("disk full")),
+			} as unknown as NoteWriter;
+			const engine = new SyncEngine(client, writer, () => {});
+			const save = vi.fn(async () => {});
+			engine.setWatermarkStore({ load: () => "", save });
+
+			await engine.sync();
+
+			expect(save).not.toHaveBeenCalled();
+		});
+
+		it("ignores the watermark for full syncs", async () => {
+			const client = pagedClient([{ notes: [], server_time: "T1" }]);
+			const engine = new SyncEngine(client, okWriter(), () => {});
+			engine.setWatermarkStore({ load: () => "T0", save: async () => {} });
+
+			await engine.sync({ full: true });
+
+			expect(vi.mocked(client.fetchUnsynced).mock.calls[0][0]).toMatchObject({ since: undefined });
+		});
+
+		it("acknowledges in chunks of 100", async () => {
+			const notes = Array.from({ length: 150 }, (_, i) => makeNote(String(i)));
+			const client = pagedClient([{ notes, server_time: "T1" }]);
+			const engine = new SyncEngine(client, okWriter(), () => {});
+
+			await engine.sync();
+
+			const chunks = vi.mocked(client.markSynced).mock.calls.map((c) => c[0].length);
+			expect(chunks).toEqual([100, 50]);
+		});
+
+		it("stops after the current page when progress is cancelled", async () => {
+			const client = pagedClient([
+				{ notes: [makeNote("1")], server_time: "T1", next_cursor: "c1" },
+				{ notes: [makeNote("2")], server_time: "T2" },
+			]);
+			const engine = new SyncEngine(client, okWriter(), () => {});
+			const progress: SyncProgress = {
+				update: vi.fn(),
+				isCancelled: () => true,
+				finish: vi.fn(),
+			};
+			engine.setProgressFactory(() => progress);
+			const save = vi.fn(async () => {});
+			engine.setWatermarkStore({ load: () => "", save });
+
+			const count = await engine.sync();
+
+			expect(count).toBe(1);
+			expect(client.fetchUnsynced).toHaveBeenCalledTimes(1);
+			expect(progress.update).toHaveBeenCalledWith(1);
+			expect(progress.finish).toHaveBeenCalled();
+			expect(save).not.toHaveBeenCalled();
+		});
+
+		it("does not report progress for single-page backlogs", async () => {
+			const client = pagedClient([{ notes: [makeNote("1")], server_time: "T1" }]);
+			const engine = new SyncEngine(client, okWriter(), () => {});
+			const factory = vi.fn();
+			engine.setProgressFactory(factory);
+
+			await engine.sync();
+
+			expect(factory).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("sync log", () => {
+		it("records created, appended, deduplicated and failed notes", async () => {
+			const notes = [
+				makeNote("1"),
+				{ ...makeNote("2"), append_to: "path/parent.md" },
+				makeNote("3"),
+				makeNote("4"),
+			];
+			const { engine } = createEngine({
+				notes,
+				writeResults: ["path/1.md", "path/parent.md", null],
+				writeErrors: new Map([["4", new Error("disk full")]]),
+			});
+			const log = new SyncLog();
+			engine.setSyncLog(log);
+
+			await engine.sync();
+
+			const [run] = log.list();
+			expect(run.status).toBe("ok");
+			expect(run.fetched).toBe(4);
+			expect(run.created).toEqual(["path/1.md"]);
+			expect(run.appended).toEqual(["path/parent.md"]);
+			expect(run.deduplicated).toEqual([{ noteId: "3", name: "Note 3" }]);
+			expect(run.writeErrors).toEqual([
+				{ noteId: "4", name: "Note 4", message: "Error: disk full" },
+			]);
+			expect(run.backoffMultiplier).toBe(1);
+			expect(run.finishedAt).not.toBe("");
+		});
+
+		it("records reconciliation removed_count", async () => {
+			const { engine } = createEngine({ notes: [makeNote("1")] });
+			const client = engine as unknown as { client: Record<string, unknown> };
+			client.client.reconcileArchived = vi.fn(async () => ({ removed_count: 2 }));
+			engine.setArchiveScanner(async () => ({ vault_paths: ["VoiceNotes/work/a.md"] }));
+			const log = new SyncLog();
+			engine.setSyncLog(log);
+
+			await engine.sync();
+
+			expect(log.list()[0].removedCount).toBe(2);
+		});
+
+		it("passes the accepted paths to the reconciled handler only on success", async () => {
+			const { engine } = createEngine({ notes: [] });
+			const client = engine as unknown as { client: Record<string, unknown> };
+			const reconcile = vi.fn()
+				.mockRejectedValueOnce(new Error("status 500"))
+				.mockResolvedValue({ removed_count: 1 });
+			client.client.reconcileArchived = reconcile;
+			engine.setArchiveScanner(async () => ({ vault_paths: ["VoiceNotes/work/trashed.md"] }));
+			const reconciled = vi.fn(async () => {});
+			engine.setOnReconciled(reconciled);
+			const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+			engine.requestReconciliation();
+			await engine.sync();
+			expect(reconciled).not.toHaveBeenCalled();
+
+			await engine.sync();
+			expect(reconciled).toHaveBeenCalledWith({ vault_paths: ["VoiceNotes/work/trashed.md"] });
+			error.mockRestore();
+		});
+
+		it("reconciles a requested change without new notes", async () => {
+			const { engine } = createEngine({ notes: [] });
+			const client = engine as unknown as { client: Record<string, unknown> };
+			const reconcile = vi.fn(async () => ({ removed_count: 0 }));
+			client.client.reconcileArchived = reconcile;
+			engine.setArchiveScanner(async () => ({ vault_paths: ["VoiceNotes/work/a.md"] }));
+
+			await engine.sync();
+			engine.requestReconciliation();
+			await engine.sync();
+			await engine.sync();
+
+			expect(reconcile.mock.calls).toEqual([[{ vault_paths: ["VoiceNotes/work/a.md"] }]]);
+		});
+
+		it("reports restored notes even with an empty archive", async () => {
+			const { engine } = createEngine({ notes: [] });
+			const client = engine as unknown as { client: Record<string, unknown> };
+			const reconcile = vi.fn(async () => ({ removed_count: 0 }));
+			client.client.reconcileArchived = reconcile;
+			engine.setArchiveScanner(async () => ({ vault_paths: [], reactivated_paths: ["VoiceNotes/work/a.md"] }));
+
+			engine.requestReconciliation();
+			await engine.sync();
+
+			expect(reconcile).toHaveBeenCalledWith({ vault_paths: [], reactivated_paths: ["VoiceNotes/work/a.md"] });
+		});
+
+		it("does not send an empty archive", async () => {
+			const { engine } = createEngine({ notes: [] });
+			const client = engine as unknown as { client: Record<string, unknown> };
+			const reconcile = vi.fn(async () => ({ removed_count: 0 }));
+			client.client.reconcileArchived = reconcile;
+			engine.setArchiveScanner(async () => ({ vault_paths: [] }));
+
+			engine.requestReconciliation();
+			await engine.sync();
+
+			expect(reconcile).not.toHaveBeenCalled();
+		});
+
+		it("does not record idle runs", async () => {
+			const { engine } = createEngine({ notes: [] });
+			const log = new SyncLog();
+			engine.setSyncLog(log);
+
+			await engine.sync();
+
+			expect(log.list()).toEqual([]);
+		});
+
+		it("records failed runs with error and backoff multiplier", async () => {
+			const client = {
+				fetchUnsynced: vi.fn().mockRejectedValue(new Error("timeout")),
+				markSynced: vi.fn(),
+			} as unknown as ArchivistApiClient;
+			const engine = new SyncEngine(client, { write: vi.fn() } as unknown as NoteWriter, () => {});
+			const log = new SyncLog();
+			engine.setSyncLog(log);
+
+			await expect(engine.sync()).rejects.toThrow("timeout");
+			await expect(engine.sync()).rejects.toThrow("timeout");
+
+			const [latest] = log.list();
+			expect(latest.status).toBe("error");
+			expect(latest.error).toContain("timeout");
+			expect(latest.backoffMultiplier).toBe(4);
+		});
+	});
+
+	describe("review", () => {
+		it("writes accepted notes with edits and acknowledges rejected ones", async () => {
+			const notes = [makeNote("1"), makeNote("2"), makeNote("3")];
+			const { engine, markSyncedIds } = createEngine({ notes });
+			const writer = (engine as unknown as { writer: NoteWriter }).writer;
+			engine.setReviewer(async () => ({
+				accepted: [{ ...notes[0], category: "personal", tags: ["edited"] }],
+				rejected: ["2"],
+				deferred: ["3"],
+			}));
+
+			await engine.sync();
+
+			expect(writer.write).toHaveBeenCalledTimes(1);
+			const written = vi.mocked(writer.write).mock.calls[0][0];
+			expect(written.category).toBe("personal");
+			expect(written.tags).toEqual(["edited"]);
+			// Deferred "3" stays unsynced on the server
+			expect(markSyncedIds).toEqual([["2", "1"]]);
+		});
+
+		it("skips deferred notes in automatic syncs until a manual (full) sync", async () => {
+			const notes = [makeNote("1")];
+			const { engine } = createEngine({ notes });
+			const reviewer = vi.fn()
+				.mockResolvedValueOnce({ accepted: [], rejected: [], deferred: ["1"] })
+				.mockResolvedValue({ accepted: [], rejected: [], deferred: ["1"] });
+			engine.setReviewer(reviewer);
+
+			await engine.sync();
+			await engine.sync();
+			expect(reviewer).toHaveBeenCalledTimes(1);
+
+			await engine.sync({ full: true });
+			expect(reviewer).toHaveBeenCalledTimes(2);
+		});
+
+		it("retries accepted notes whose write failed without reviewing them again", async () => {
+			const notes = [makeNote("1")];
+			const { engine, markSyncedIds } = createEngine({ notes });
+			const writer = (engine as unknown as { writer: NoteWriter }).writer;
+			vi.mocked(writer.write).mockRejectedValueOnce(new Error("disk full"));
+			const reviewer = vi.fn(async () => ({
+				accepted: [{ ...notes[0], category: "personal" }],
+				rejected: [],
+				deferred: [],
+			}));
+			engine.setReviewer(reviewer);
+			const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+			await engine.sync();
+			await engine.sync();
+
+			expect(reviewer).toHaveBeenCalledTimes(1);
+			expect(writer.write).toHaveBeenCalledTimes(2);
+			expect(vi.mocked(writer.write).mock.calls[1][0].category).toBe("personal");
+			expect(markSyncedIds).toEqual([["1"]]);
+			error.mockRestore();
+		});
+
+		it("does not advance the watermark past deferred notes", async () => {
+			const { engine } = createEngine({ notes: [makeNote("1")] });
+			engine.setReviewer(async () => ({ accepted: [], rejected: [], deferred: ["1"] }));
+			const save = vi.fn(async () => {});
+			engine.setWatermarkStore({ load: () => "", save });
+
+			await engine.sync();
+
+			expect(save).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("leader gate", () => {
+		it("skips sync entirely on passive devices", async () => {
+			const { engine } = createEngine({ notes: [makeNote("1")] });
+			const client = (engine as unknown as { client: ArchivistApiClient }).client;
+			engine.setLeaderGate(async () => false);
+
+			const result = await engine.sync();
+
+			expect(result).toBe(-1);
+			expect(client.fetchUnsynced).not.toHaveBeenCalled();
+		});
+
+		it("syncs when the election fails (fail open)", async () => {
+			const { engine, markSyncedIds } = createEngine({ notes: [makeNote("1")] });
+			engine.setLeaderGate(async () => {
+				throw new Error("vault read failed");
+			});
+
+			const result = await engine.sync();
+
+			expect(result).toBe(1);
+			expect(markSyncedIds).toEqual([["1"]]);
+		});
+	});
+
 	describe("consecutiveFailures tracking", () => {
 		it("increments on fetch error", async () => {
 			const client = {
@@ -286,6 +925,7 @@ describe("SyncEngine", () => {
 					writeCalls.push({ note, siblings });
 					return writeResults[writeIdx++] ?? null;
 				}),
+				linkBatchSiblings: vi.fn(async () => {}),
 			} as unknown as NoteWriter;
 
 			const engine = new SyncEngine(client, writer, () => {});
@@ -393,3 +1033,26 @@ describe("buildBatchSiblings", () => {
 		expect(result.has("2")).toBe(false);
 	});
 });
+
+describe("orderParentsFirst", () => {
+	it("moves replies after their parents, keeping the order otherwise", () => {
+		const notes: NoteResponse[] = [
+			{ ...makeNote("3"), parent_note_id: "2" },
+			makeNote("1"),
+			{ ...makeNote("2"), parent_note_id: "4" },
+			makeNote("4"),
+			{ ...makeNote("5"), parent_note_id: "elsewhere" },
+		];
+
+		expect(orderParentsFirst(notes).map((n) => n.id)).toEqual(["4", "2", "3", "1", "5"]);
+	});
+
+	it("does not loop on cyclic parents", () => {
+		const notes: NoteResponse[] = [
+			{ ...makeNote("1"), parent_note_id: "2" },
+			{ ...makeNote("2"), parent_note_id: "1" },
+		];
+
+		expect(orderParentsFirst(notes).map((n) => n.id)).toEqual(["2", "1"]);
+	});
+});
@@ -1,9 +1,16 @@
 // src/sync-engine.ts
 import { Notice } from "obsidian";
-import { RefreshTokenExpiredError } from "./api-client";
+import { RefreshTokenExpiredError, extractHttpStatus } from "./api-client";
 import type { ArchivistApiClient } from "./api-client";
 import type { NoteWriter } from "./note-writer";
-import type { NoteResponse } from "./types";
+import type { NoteIndex } from "./note-index";
+import { SyncOutbox } from "./outbox";
+import type { PendingAck } from "./outbox";
+import { PathUpdateQueue } from "./path-updates";
+import { SyncLog } from "./sync-log";
+import type { SyncRunRecord } from "./sync-log";
+import type { NoteResponse, ReconcileArchivedRequest } from "./types";
+import { t } from "./i18n";
 
 /** Max consecutive failures before stopping backoff growth. */
 const MAX_BACKOFF_MULTIPLIER = 5;
@@ -16,12 +23,73 @@ const MAX_BACKOFF_MULTIPLIER = 5;
 /** Cooldown after manual sync to prevent button spam (ms). */
 const MANUAL_SYNC_COOLDOWN_MS = 2_000;
 
-/** Callback that returns vault_paths of archived notes (files in _archive/). */
-export type ArchiveScanner = () => Promise<string[]>;
+/** Notes requested per GET /v1/notes/unsynced page. */
+const UNSYNCED_PAGE_SIZE = 50;
+
+/** Max note ids per POST /v1/notes/mark-synced request. */
+const MARK_SYNCED_CHUNK_SIZE = 100;
+
+/**
+ * Callback that returns the reconciliation payload: vault_paths of archived
+ * notes (files in _archive/) with their resolution details.
+ */
+export type ArchiveScanner = () => Promise<ReconcileArchivedRequest>;
+
+/** Called with the payload the server accepted in an archive reconciliation. */
+export type ReconciledHandler = (payload: ReconcileArchivedRequest) => Promise<void>;
 
 /** Called when SyncEngine successfully reaches the server after being offline. */
 export type OnServerReachable = () => void;
 
+/**
+ * Outcome of reviewing fetched notes before they are written.
+ * Every reviewed note id must appear in exactly one list.
+ */
+export interface ReviewResult {
+	/** Notes to write, possibly edited (category, tags) */
+	accepted: NoteResponse[];
+	/** Note ids to acknowledge without writing */
+	rejected: string[];
+	/** Note ids to leave unsynced on the server */
+	deferred: string[];
+}
+
+/** Lets the user accept, edit, reject or defer notes before they are written. */
+export type NoteReviewer = (notes: NoteResponse[]) => Promise<ReviewResult>;
+
+/**
+ * Decides whether this device may sync (cross-device leader election).
+ * Resolves false when another device is the sync leader.
+ */
+export type LeaderGate = () => Promise<boolean>;
+
+/**
+ * Called after a note was written to the vault (not for dedup skips).
+ * Failures are logged and never affect the sync of the note.
+ */
+export type NoteWrittenHandler = (note: NoteResponse, path: string, kind: "created" | "appended") => Promise<void>;
+
+/**
+ * Called after a page was written with the newly created notes of each
+ * smart-split batch (same `source_batch_id`). Failures are logged.
+ */
+export type BatchWrittenHandler = (batchId: string, notes: { note: NoteResponse; path: string }[]) => Promise<void>;
+
+/** Persists the `server_time` watermark of the last fully processed backlog. */
+export interface WatermarkStore {
+	load(): string;
+	save(serverTime: string): Promise<void>;
+}
+
+/** Progress reporter for long (multi-page) backlogs. */
+export interface SyncProgress {
+	/** Called after each page with the total number of fetched notes. */
+	update(fetched: number): void;
+	/** True once the user asked to stop; checked between pages. */
+	isCancelled(): boolean;
+	finish(): void;
+}
+
 export class SyncEngine {
 	private intervalId: number | null = null;
 	private syncing = false;
@@ -29,7 +97,28 @@ export class SyncEngine {
 	private baseIntervalSec = 60;
 	private lastManualSyncAt = 0;
 	private archiveScanner: ArchiveScanner | null = null;
+	private noteIndex: NoteIndex | null = null;
 	private onServerReachable: OnServerReachable | null = null;
+	private outbox = new SyncOutbox();
+	private pathUpdates = new PathUpdateQueue();
+	/** The server has no vault-paths endpoint (404): stop reporting this session */
+	private pathUpdatesUnsupported = false;
+	private watermarkStore: WatermarkStore | null = null;
+	private progressFactory: (() => SyncProgress) | null = null;
+	private syncLog = new SyncLog();
+	private reviewer: NoteReviewer | null = null;
+	/** Notes deferred in review — skipped by automatic syncs until a manual sync. */
+	private deferredIds = new Set<string>();
+	/** Notes accepted in review but not written yet — retried without asking again. */
+	private acceptedInReview = new Map<string, NoteResponse>();
+	private leaderGate: LeaderGate | null = null;
+	/** True when the last sync was skipped because another device leads. */
+	private passive = false;
+	private onNoteWritten: NoteWrittenHandler | null = null;
+	private onBatchWritten: BatchWrittenHandler | null = null;
+	/** Reconcile on the next cycle even without new notes (archive changed locally). */
+	private reconcileRequested = false;
+	private onReconciled: ReconciledHandler | null = null;
 
 	constructor(
 		private client: ArchivistApiClient,
@@ -45,6 +134,30 @@ export class SyncEngine {
 		this.archiveScanner = scanner;
 	}
 
+	/**
+	 * Set id → file index used to find the parent of a reply that was
+	 * written in an earlier sync or is already in the vault.
+	 */
+	setNoteIndex(index: NoteIndex): void {
+		this.noteIndex = index;
+	}
+
+	/**
+	 * Set callback invoked after the server accepted a reconciliation,
+	 * e.g. to forget reported paths of trashed notes.
+	 */
+	setOnReconciled(handler: ReconciledHandler): void {
+		this.onReconciled = handler;
+	}
+
+	/**
+	 * Reconcile archived notes on the next sync cycle even when no notes
+	 * arrive — e.g. after an archive rule archived a note.
+	 */
+	requestReconciliation(): void {
+		this.reconcileRequested = true;
+	}
+
 	/**
 	 * Set callback invoked when server becomes reachable after failures.
 	 * Used to re-initialize config sync after offline → online transition.
@@ -53,6 +166,76 @@ export class SyncEngine {
 		this.onServerReachable = callback;
 	}
 
+	/**
+	 * Set persistent outbox for written-but-unacknowledged notes.
+	 * Without it, pending acknowledgements are kept in memory only.
+	 */
+	setOutbox(outbox: SyncOutbox): void {
+		this.outbox = outbox;
+	}
+
+	/**
+	 * Set persistent queue of renamed / moved note paths.
+	 * Without it, path updates are kept in memory only.
+	 */
+	setPathUpdates(queue: PathUpdateQueue): void {
+		this.pathUpdates = queue;
+	}
+
+	/**
+	 * Set store for the incremental-fetch watermark.
+	 * When set, fetches request only notes available after the last
+	 * fully processed backlog (`since` = previous `server_time`).
+	 */
+	setWatermarkStore(store: WatermarkStore): void {
+		this.watermarkStore = store;
+	}
+
+	/**
+	 * Set factory for progress reporting on multi-page backlogs.
+	 */
+	setProgressFactory(factory: () => SyncProgress): void {
+		this.progressFactory = factory;
+	}
+
+	/**
+	 * Set sync log that records the details of every run.
+	 */
+	setSyncLog(log: SyncLog): void {
+		this.syncLog = log;
+	}
+
+	/**
+	 * Set reviewer called with each fetched page before writing.
+	 * Without a reviewer, all notes are written immediately.
+	 */
+	setReviewer(reviewer: NoteReviewer | null): void {
+		this.reviewer = reviewer;
+	}
+
+	/**
+	 * Set leader gate checked before every sync.
+	 * Passive devices skip syncing entirely (no fetch, no writes).
+	 */
+	setLeaderGate(gate: LeaderGate | null): void {
+		this.leaderGate = gate;
+		this.passive = false;
+	}
+
+	/**
+	 * Set handler called after each written note (daily note entries).
+	 */
+	setOnNoteWritten(handler: NoteWrittenHandler | null): void {
+		this.onNoteWritten = handler;
+	}
+
+	/**
+	 * Set handler called with the created notes of each batch (batch canvases).
+	 */
+	setOnBatchWritten(handler: BatchWrittenHandler | null): void {
+		this.onBatchWritten = handler;
+	}
+
 	/**
 	 * Start periodic sync.
 	 * @param intervalSec Interval between syncs in seconds
@@ -90,11 +273,7 @@ export class SyncEngine {
 			this.intervalId = null;
 		}
 
-		const multiplier = Math.min(
-			2 ** this.consecutiveFailures,
-			2 ** MAX_BACKOFF_MULTIPLIER,
-		);
-		const intervalMs = this.baseIntervalSec * multiplier * 1000;
+		const intervalMs = this.baseIntervalSec * this.backoffMultiplier() * 1000;
 
 		this.intervalId = window.setInterval(
 			() => void this.syncAndSchedule(),
@@ -103,6 +282,16 @@ export class SyncEngine {
 		this.registerInterval(this.intervalId);
 	}
 
+	/**
+	 * Current interval multiplier: 2^failures, capped at 2^MAX_BACKOFF_MULTIPLIER.
+	 */
+	private backoffMultiplier(): number {
+		return Math.min(
+			2 ** this.consecutiveFailures,
+			2 ** MAX_BACKOFF_MULTIPLIER,
+		);
+	}
+
 	/**
 	 * Stop periodic sync.
 	 */
@@ -116,70 +305,126 @@ export class SyncEngine {
 	/**
 	 * Perform a single sync operation.
 	 * Does NOT manage intervals — caller is responsible for scheduling.
+	 *
+	 * The backlog is fetched page by page (`UNSYNCED_PAGE_SIZE` notes each);
+	 * every page is written and acknowledged before the next one is requested.
+	 *
+	 * @param options.full Ignore the persisted watermark and request the whole backlog
 	 * @returns Number of notes written (0 = nothing new, -1 = skipped/guard)
 	 */
-	async sync(): Promise<number> {
+	async sync(options: { full?: boolean } = {}): Promise<number> {
 		if (this.syncing) {
 			return -1; // Guard against overlapping syncs
 		}
 		this.syncing = true;
 
-		try {
-			const response = await this.client.fetchUnsynced();
-			const notes = response.notes;
-
-			if (notes.length === 0) {
-				// Success — reset backoff, notify listener
-				this.consecutiveFailures = 0;
-				this.onServerReachable?.();
-				return 0;
-			}
+		if (this.leaderGate && !(await this.checkLeader(this.leaderGate))) {
+			this.syncing = false;
+			return -1; // Another device is the sync leader
+		}
 
-			const written: string[] = [];
-			const syncedIds: string[] = [];
-			const vaultPaths: Record<string, string> = {};
+		let progress: SyncProgress | null = null;
+		const run: SyncRunRecord = {
+			startedAt: new Date().toISOString(),
+			finishedAt: "",
+			status: "ok",
+			fetched: 0,
+			created: [],
+			appended: [],
+			deduplicated: [],
+			rejected: [],
+			deferred: [],
+			writeErrors: [],
+			removedCount: null,
+			backoffMultiplier: 1,
+		};
 
-			// Build sibling map for smart-split notes (same source_batch_id)
-			const batchSiblings = buildBatchSiblings(notes);
+		try {
+			// Acknowledge notes written in a previous cycle first —
+			// otherwise the server would hand them out again.
+			await this.flushOutbox();
+			if (this.pathUpdates.size() > 0) {
+				await this.reportPathUpdates();
+			}
 
-			for (const note of notes) {
-				try {
-					const siblings = batchSiblings.get(note.id);
-					const path = await this.writer.write(note, siblings);
-					if (path) {
-						written.push(path);
-						vaultPaths[note.id] = path;
+			const since = options.full ? undefined : this.watermarkStore?.load() || undefined;
+			if (options.full) {
+				// Manual sync offers previously deferred notes again
+				this.deferredIds.clear();
+			}
+			let cursor: string | undefined;
+			let serverTime: string | null = null;
+			let fetched = 0;
+			let written = 0;
+			let incomplete = 0;
+			let cancelled = false;
+			// Paths of the notes of this run (null: dedup skip), for replies in later pages
+			const pathById = new Map<string, string | null>();
+
+			do {
+				const response = await this.client.fetchUnsynced({
+					cursor,
+					limit: UNSYNCED_PAGE_SIZE,
+					since,
+				});
+				// Watermark = server time when the backlog walk started
+				serverTime ??= response.server_time;
+				fetched += response.notes.length;
+
+				const page = await this.writePage(response.notes, run, pathById);
+				written += page.written;
+				incomplete += page.incomplete;
+
+				cursor = response.next_cursor ?? undefined;
+				if (cursor) {
+					// Long backlog — show progress with cancel
+					progress ??= this.progressFactory?.() ?? null;
+					progress?.update(fetched);
+					if (progress?.isCancelled()) {
+						cancelled = true;
 					}
-					// Mark as synced: either written (path) or dedup (null)
-					syncedIds.push(note.id);
-				} catch (writeErr) {
-					// write() failed for this note — do NOT mark as synced
-					// so it will be retried on next sync
-					console.error(
-						`[ArchivistBot] Failed to write note ${note.id}:`,
-						writeErr,
-					);
 				}
+			} while (cursor && !cancelled);
+
+			// Advance watermark only after the whole backlog was written —
+			// failed or deferred notes must stay reachable for the next cycle.
+			if (serverTime && !cancelled && incomplete === 0) {
+				await this.watermarkStore?.save(serverTime);
+			}
+
+			run.fetched = fetched;
+			if (cancelled) {
+				run.status = "cancelled";
+				new Notice(t("notice.syncCancelled", { count: fetched }));
 			}
 
-			if (syncedIds.length > 0) {
-				await this.client.markSynced(syncedIds, vaultPaths);
+			if (fetched === 0) {
+				if (this.reconcileRequested) {
+					run.removedCount = await this.reconcileArchived();
+				}
+				// Success — reset backoff, notify listener
+				this.consecutiveFailures = 0;
+				this.onServerReachable?.();
+				return 0;
 			}
 
-			if (written.length > 0) {
-				new Notice(`Archivistbot: synced ${written.length} note(s)`);
+			if (written > 0) {
+				new Notice(t("notice.synced", { count: written }));
 			}
 
 			// Reconcile archived notes with server (removes from digest inbox)
-			await this.reconcileArchived();
+			run.removedCount = await this.reconcileArchived();
 
 			// Success — reset backoff, notify listener
 			this.consecutiveFailures = 0;
 			this.onServerReachable?.();
-			return written.length;
+			return written;
 		} catch (e) {
+			run.status = "error";
+			run.error = String(e);
+
 			if (e instanceof RefreshTokenExpiredError) {
-				new Notice("Auth token expired. Use /newtoken in Telegram to get a new one.");
+				new Notice(t("notice.tokenExpired"));
 				this.stop();
 				return -1;
 			}
@@ -190,6 +435,275 @@ export class SyncEngine {
 				e,
 			);
 			throw e;
+		} finally {
+			progress?.finish();
+			run.finishedAt = new Date().toISOString();
+			run.backoffMultiplier = this.backoffMultiplier();
+			await this.recordRun(run);
+			this.syncing = false;
+		}
+	}
+
+	/**
+	 * Ask the leader gate whether this device may sync.
+	 * Fails open: if the election itself errors, sync proceeds.
+	 */
+	private async checkLeader(gate: LeaderGate): Promise<boolean> {
+		try {
+			this.passive = !(await gate());
+		} catch (e) {
+			console.error("[ArchivistBot] leader election failed:", e);
+			this.passive = false;
+		}
+		return !this.passive;
+	}
+
+	/**
+	 * Append a run to the sync log. Never throws — logging must not break sync.
+	 * Idle runs (nothing fetched or reconciled) are not recorded, so the
+	 * 60-second cycle does not push useful runs out of the log.
+	 */
+	private async recordRun(run: SyncRunRecord): Promise<void> {
+		if (run.status === "ok" && run.fetched === 0 && !run.removedCount) {
+			return;
+		}
+		try {
+			await this.syncLog.add(run);
+		} catch (e) {
+			console.error("[ArchivistBot] Failed to record sync run:", e);
+		}
+	}
+
+	/**
+	 * Run the note-written handler. Never throws — the note is already written.
+	 */
+	private async notifyWritten(note: NoteResponse, path: string, kind: "created" | "appended"): Promise<void> {
+		try {
+			await this.onNoteWritten?.(note, path, kind);
+		} catch (e) {
+			console.error(`[ArchivistBot] Note-written handler failed for ${note.id}:`, e);
+		}
+	}
+
+	/**
+	 * Write one page of notes to the vault and acknowledge them.
+	 * Per-note outcomes are recorded into `run`, written paths into `pathById`.
+	 * @returns Count of written files and of notes left unsynced (write failed or deferred)
+	 */
+	private async writePage(
+		notes: NoteResponse[],
+		run: SyncRunRecord,
+		pathById: Map<string, string | null>,
+	): Promise<{ written: number; incomplete: number }> {
+		if (notes.length === 0) {
+			return { written: 0, incomplete: 0 };
+		}
+
+		let written = 0;
+		let incomplete = 0;
+		const acks: PendingAck[] = [];
+
+		// Deferred notes stay unsynced — count them as not done so the
+		// watermark does not move past them.
+		const pending = notes.filter((n) => !this.deferredIds.has(n.id));
+		incomplete += notes.length - pending.length;
+
+		if (this.reviewer) {
+			// Each note is reviewed at most once per session: notes accepted
+			// earlier (write failed, parent missing) keep the user's edits
+			notes = pending.flatMap((n) => this.acceptedInReview.get(n.id) ?? []);
+			const unreviewed = pending.filter((n) => !this.acceptedInReview.has(n.id));
+			if (unreviewed.length > 0) {
+				const review = await this.reviewer(unreviewed);
+				for (const id of review.deferred) {
+					this.deferredIds.add(id);
+				}
+				incomplete += review.deferred.length;
+				for (const id of review.rejected) {
+					acks.push({ noteId: id, vaultPath: null, writtenAt: new Date().toISOString() });
+				}
+				for (const note of review.accepted) {
+					this.acceptedInReview.set(note.id, note);
+				}
+				run.rejected.push(...review.rejected);
+				run.deferred.push(...review.deferred);
+				notes = [...notes, ...review.accepted];
+			}
+		} else {
+			notes = pending;
+		}
+
+		// Parents before their replies: a reply whose parent arrives in the
+		// same run is appended to the parent's freshly written file
+		notes = orderParentsFirst(notes);
+
+		// Build sibling map for smart-split notes (same source_batch_id)
+		const batchSiblings = buildBatchSiblings(notes);
+		const createdInBatch = new Map<string, { note: NoteResponse; path: string }[]>();
+
+		for (let note of notes) {
+			const parentId = note.parent_note_id;
+			if (!note.append_to && parentId) {
+				if (notes.some((n) => n.id === parentId) && !pathById.has(parentId)) {
+					// Parent failed to write — retry both on the next sync
+					incomplete++;
+					continue;
+				}
+				// Written in this run, or already in the vault (dedup skip, earlier sync)
+				const parentPath = pathById.get(parentId) ?? this.noteIndex?.getById(parentId)?.path;
+				if (parentPath) {
+					note = { ...note, append_to: parentPath };
+				}
+			}
+			try {
+				const siblings = batchSiblings.get(note.id);
+				const path = await this.writer.write(note, siblings);
+				pathById.set(note.id, path);
+				if (!path) {
+					run.deduplicated.push({ noteId: note.id, name: note.name });
+				} else if (note.append_to) {
+					written++;
+					run.appended.push(path);
+				} else {
+					written++;
+					run.created.push(path);
+					if (note.source_batch_id) {
+						const group = createdInBatch.get(note.source_batch_id) ?? [];
+						group.push({ note, path });
+						createdInBatch.set(note.source_batch_id, group);
+					}
+				}
+				// Mark as synced: either written (path) or dedup (null)
+				acks.push({
+					noteId: note.id,
+					vaultPath: path,
+					writtenAt: new Date().toISOString(),
+				});
+				this.acceptedInReview.delete(note.id);
+				if (path && this.onNoteWritten) {
+					await this.notifyWritten(note, path, note.append_to ? "appended" : "created");
+				}
+			} catch (writeErr) {
+				// write() failed for this note — do NOT mark as synced
+				// so it will be retried on next sync
+				incomplete++;
+				run.writeErrors.push({
+					noteId: note.id,
+					name: note.name,
+					message: String(writeErr),
+				});
+				console.error(
+					`[ArchivistBot] Failed to write note ${note.id}:`,
+					writeErr,
+				);
+			}
+		}
+
+		// Link new notes with notes of the same batch from earlier runs
+		for (const [batchId, group] of createdInBatch) {
+			try {
+				await this.writer.linkBatchSiblings(batchId, group.map(({ path }) => path));
+			} catch (e) {
+				console.error(`[ArchivistBot] Failed to link siblings of batch ${batchId}:`, e);
+			}
+		}
+
+		if (this.onBatchWritten) {
+			for (const [batchId, group] of createdInBatch) {
+				try {
+					await this.onBatchWritten(batchId, group);
+				} catch (e) {
+					console.error(`[ArchivistBot] Batch-written handler failed for ${batchId}:`, e);
+				}
+			}
+		}
+
+		// Persist before mark-synced: if the POST fails, the outbox
+		// retries it on the next cycle (or after restart).
+		await this.outbox.add(acks);
+		await this.flushOutbox();
+
+		return { written, incomplete };
+	}
+
+	/**
+	 * Acknowledge all notes in the outbox via mark-synced,
+	 * in chunks of `MARK_SYNCED_CHUNK_SIZE`.
+	 * Entries are removed only after the server confirms their chunk.
+	 * Throws on network/server errors — entries stay for the next attempt.
+	 */
+	private async flushOutbox(): Promise<void> {
+		const pending = this.outbox.list();
+
+		for (let i = 0; i < pending.length; i += MARK_SYNCED_CHUNK_SIZE) {
+			const chunk = pending.slice(i, i + MARK_SYNCED_CHUNK_SIZE);
+			const noteIds = chunk.map((p) => p.noteId);
+			const vaultPaths: Record<string, string> = {};
+			for (const { noteId, vaultPath } of chunk) {
+				if (vaultPath) {
+					vaultPaths[noteId] = vaultPath;
+				}
+			}
+
+			await this.client.markSynced(noteIds, vaultPaths);
+			await this.outbox.remove(noteIds);
+		}
+	}
+
+	/**
+	 * Report renamed / moved note paths, in chunks of `MARK_SYNCED_CHUNK_SIZE`.
+	 * Runs after the outbox flush, so a renamed note's new path
+	 * overrides the one sent with its mark-synced.
+	 * Throws on network/server errors — updates stay for the next attempt.
+	 */
+	private async flushPathUpdates(): Promise<void> {
+		const entries = Object.entries(this.pathUpdates.list());
+
+		for (let i = 0; i < entries.length; i += MARK_SYNCED_CHUNK_SIZE) {
+			const chunk = Object.fromEntries(entries.slice(i, i + MARK_SYNCED_CHUNK_SIZE));
+			await this.client.updateVaultPaths(chunk);
+			await this.pathUpdates.remove(chunk);
+		}
+	}
+
+	/**
+	 * Report queued path updates. Non-critical: failures are logged and the
+	 * updates stay queued; a server without the endpoint (404) is not asked
+	 * again until restart.
+	 */
+	private async reportPathUpdates(): Promise<void> {
+		if (this.pathUpdatesUnsupported) {
+			return;
+		}
+		try {
+			await this.flushPathUpdates();
+		} catch (e) {
+			if (e instanceof RefreshTokenExpiredError) {
+				throw e;
+			}
+			if (extractHttpStatus(e) === 404) {
+				this.pathUpdatesUnsupported = true;
+				console.warn("[ArchivistBot] Server does not accept path updates, keeping them queued");
+				return;
+			}
+			console.error("[ArchivistBot] path update failed:", e);
+		}
+	}
+
+	/**
+	 * Retry pending acknowledgements and path updates without fetching new notes.
+	 * Called on startup when auto sync is disabled.
+	 */
+	async retryPendingAcks(): Promise<void> {
+		if (this.syncing) {
+			return;
+		}
+		this.syncing = true;
+		try {
+			await this.flushOutbox();
+			await this.reportPathUpdates();
+		} catch (e) {
+			console.error("[ArchivistBot] Failed to acknowledge pending notes:", e);
 		} finally {
 			this.syncing = false;
 		}
@@ -197,22 +711,31 @@ export class SyncEngine {
 
 	/**
 	 * Reconcile archived notes with server.
-	 * Scans _archive/ folder and tells server which vault_paths are archived,
-	 * so they can be removed from digest inbox.
+	 * Scans _archive/ folder and tells server which vault_paths are archived
+	 * and how they were resolved, so they can be removed from digest inbox.
+	 * Also run right after bulk archiving.
+	 * @returns removed_count from the server, null if not run or failed
 	 */
-	private async reconcileArchived(): Promise<void> {
+	async reconcileArchived(): Promise<number | null> {
 		if (!this.archiveScanner) {
-			return;
+			return null;
 		}
 
+		const requested = this.reconcileRequested;
+		this.reconcileRequested = false;
 		try {
-			const archivedPaths = await this.archiveScanner();
-			if (archivedPaths.length > 0) {
-				await this.client.reconcileArchived(archivedPaths);
+			const payload = await this.archiveScanner();
+			if (payload.vault_paths.length === 0 && !payload.reactivated_paths?.length) {
+				return 0;
 			}
+			const result = await this.client.reconcileArchived(payload);
+			await this.onReconciled?.(payload);
+			return result.removed_count;
 		} catch (e) {
 			// Non-critical — log and continue, don't break sync
 			console.error("[ArchivistBot] archive reconciliation failed:", e);
+			this.reconcileRequested ||= requested;
+			return null;
 		}
 	}
 
@@ -227,25 +750,49 @@ export class SyncEngine {
 		}
 
 		if (this.syncing) {
-			new Notice("Archivistbot: sync already in progress");
+			new Notice(t("notice.syncInProgress"));
 			return;
 		}
 
 		this.lastManualSyncAt = now;
 
 		try {
-			const count = await this.sync();
+			// Full fetch: manual sync also recovers notes hidden by the watermark
+			const count = await this.sync({ full: true });
 			// sync() already shows notice when notes were written (count > 0)
 			if (count === 0) {
-				new Notice("Archivistbot: no new notes");
+				new Notice(t("notice.noNewNotes"));
+			} else if (count === -1 && this.passive) {
+				new Notice(t("notice.notLeader"));
 			}
 		} catch (e) {
-			new Notice(`Archivistbot: sync failed — ${String(e)}`);
+			new Notice(t("notice.syncFailed", { error: String(e) }));
 			throw e;
 		}
 	}
 }
 
+/**
+ * Order notes so that each reply follows its parent when both are in
+ * `notes` (by `parent_note_id`); otherwise the server order is kept.
+ */
+export function orderParentsFirst(notes: NoteResponse[]): NoteResponse[] {
+	const byId = new Map(notes.map((note) => [note.id, note]));
+	const ordered: NoteResponse[] = [];
+	const visited = new Set<string>();
+
+	const visit = (note: NoteResponse) => {
+		if (visited.has(note.id)) return;
+		visited.add(note.id);
+		const parent = note.parent_note_id ? byId.get(note.parent_note_id) : undefined;
+		if (parent) visit(parent);
+		ordered.push(note);
+	};
+	notes.forEach(visit);
+
+	return ordered;
+}
+
 /**
  * Build a map: note.id → sibling note names (excluding self).
  *
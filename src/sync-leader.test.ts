@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from "vitest";
+import { Vault, parseYaml } from "obsidian";
+import { SyncLeaderElection } from "./sync-leader";
+
+const LOCK_PATH = "VoiceNotes/sync_leader.md";
+const LEASE_MS = 180_000;
+const NOW = Date.parse("2026-02-07T10:00:00Z");
+
+function createElection(vault: Vault, deviceId: string): SyncLeaderElection {
+	const election = new SyncLeaderElection(vault, "VoiceNotes", deviceId, `${deviceId}-name`);
+	election.setConfirmDelay(0);
+	return election;
+}
+
+function readLease(vault: Vault): Record<string, unknown> {
+	const content = (vault as any)._getFile(LOCK_PATH) as string;
+	return parseYaml(content.match(/^---\n([\s\S]*?)\n---/)![1]) as Record<string, unknown>;
+}
+
+describe("SyncLeaderElection", () => {
+	it("takes the lease when no lock file exists", async () => {
+		const vault = new Vault();
+		const election = createElection(vault, "phone");
+
+		const leader = await election.acquire(LEASE_MS, NOW);
+
+		expect(leader).toBe(true);
+		expect(election.isLeader()).toBe(true);
+		const lease = readLease(vault);
+		expect(lease.device_id).toBe("phone");
+		expect(new Date(lease.expires as string).getTime()).toBe(NOW + LEASE_MS);
+	});
+
+	it("stays passive while another device holds a valid lease", async () => {
+		const vault = new Vault();
+		await createElection(vault, "desktop").acquire(LEASE_MS, NOW);
+		const phone = createElection(vault, "phone");
+
+		const leader = await phone.acquire(LEASE_MS, NOW + 60_000);
+
+		expect(leader).toBe(false);
+		expect(phone.getLeader()?.device_name).toBe("desktop-name");
+		expect(readLease(vault).device_id).toBe("desktop");
+	});
+
+	it("checks for another leader without touching the lease", async () => {
+		const vault = new Vault();
+		const phone = createElection(vault, "phone");
+		expect(await phone.noOtherLeader(NOW)).toBe(true);
+		expect((vault as any)._getFile(LOCK_PATH)).toBeUndefined();
+
+		await createElection(vault, "desktop").acquire(LEASE_MS, NOW);
+		expect(await phone.noOtherLeader(NOW + 60_000)).toBe(false);
+		expect(await phone.noOtherLeader(NOW + LEASE_MS + 1)).toBe(true);
+		expect(readLease(vault).device_id).toBe("desktop");
+	});
+
+	it("takes over once the lease expired", async () => {
+		const vault = new Vault();
+		await createElection(vault, "desktop").acquire(LEASE_MS, NOW);
+		const phone = createElection(vault, "phone");
+
+		const leader = await phone.acquire(LEASE_MS, NOW + LEASE_MS + 1);
+
+		expect(leader).toBe(true);
+		expect(readLease(vault).device_id).toBe("phone");
+	});
+
+	it("stays passive when another device's write wins the takeover", async () => {
+		const vault = new Vault();
+		const phone = createElection(vault, "phone");
+		phone.setConfirmDelay(20);
+		vi.stubGlobal("window", globalThis);
+
+		const pending = phone.acquire(LEASE_MS, NOW);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		(vault as any)._addFile(LOCK_PATH, [
+			"---",
+			"device_id: desktop",
+			"device_name: desktop-name",
+			`expires: ${new Date(NOW + LEASE_MS).toISOString()}`,
+			"---",
+		].join("\n"));
+
+		expect(await pending).toBe(false);
+		expect(phone.isLeader()).toBe(false);
+		expect(phone.getLeader()?.device_name).toBe("desktop-name");
+		vi.unstubAllGlobals();
+	});
+
+	it("renews its own lease", async () => {
+		const vault = new Vault();
+		const desktop = createElection(vault, "desktop");
+		await desktop.acquire(LEASE_MS, NOW);
+
+		await desktop.acquire(LEASE_MS, NOW + 60_000);
+
+		expect(new Date(readLease(vault).expires as string).getTime()).toBe(NOW + 60_000 + LEASE_MS);
+	});
+
+	it("release lets another device take over immediately", async () => {
+		const vault = new Vault();
+		const desktop = createElection(vault, "desktop");
+		await desktop.acquire(LEASE_MS, NOW);
+
+		await desktop.release(NOW + 1_000);
+		const leader = await createElection(vault, "phone").acquire(LEASE_MS, NOW + 2_000);
+
+		expect(leader).toBe(true);
+	});
+
+	it("release does not touch another device's lease", async () => {
+		const vault = new Vault();
+		await createElection(vault, "desktop").acquire(LEASE_MS, NOW);
+
+		await createElection(vault, "phone").release(NOW + 1_000);
+
+		expect(new Date(readLease(vault).expires as string).getTime()).toBe(NOW + LEASE_MS);
+	});
+
+	it("notifies status callback when the leader changes", async () => {
+		const vault = new Vault();
+		const phone = createElection(vault, "phone");
+		const onChange = vi.fn();
+		phone.setStatusCallback(onChange);
+
+		await phone.acquire(LEASE_MS, NOW);
+		await phone.acquire(LEASE_MS, NOW + 1_000);
+
+		expect(onChange).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,225 @@
+// src/sync-leader.ts
+import { Vault, TFile, normalizePath, parseYaml, stringifyYaml } from "obsidian";
+
+export const LOCK_FILENAME = "sync_leader.md";
+
+/**
+ * Wait before reading a newly taken lease back: long enough for a
+ * competing device's write to arrive through Obsidian Sync.
+ */
+const CONFIRM_DELAY_MS = 5_000;
+
+/** Contents of the lock file. */
+export interface LeaderLease {
+	device_id: string;
+	device_name: string;
+	/** Last time the leader renewed the lease (ISO) */
+	heartbeat: string;
+	/** Lease end (ISO); other devices may take over after it */
+	expires: string;
+}
+
+/**
+ * Cross-device sync leader election via a lease file in the vault.
+ *
+ * Vaults shared through Obsidian Sync run the plugin on several devices.
+ * Only the device holding a non-expired lease in `sync_leader.md`
+ * (under the base path) syncs; the others stay passive and take over
+ * once the lease expires (leader offline, plugin disabled, app closed).
+ * The leader renews the lease on every sync cycle. A device taking the
+ * lease reads it back after a delay and stays passive when another
+ * device's write won (both took the same expired lease).
+ */
+export class SyncLeaderElection {
+	private filePath: string;
+	private current: LeaderLease | null = null;
+	private onChange: (() => void) | null = null;
+	private confirmDelayMs = CONFIRM_DELAY_MS;
+
+	constructor(
+		private vault: Vault,
+		private basePath: string,
+		private deviceId: string,
+		private deviceName: string,
+	) {
+		this.filePath = normalizePath(`${basePath}/${LOCK_FILENAME}`);
+	}
+
+	/**
+	 * Update base path when settings change.
+	 */
+	setBasePath(basePath: string): void {
+		this.basePath = basePath;
+		this.filePath = normalizePath(`${basePath}/${LOCK_FILENAME}`);
+	}
+
+	/**
+	 * Get the file path of the lock file.
+	 */
+	getFilePath(): string {
+		return this.filePath;
+	}
+
+	/**
+	 * Set callback for leader changes (status bar).
+	 */
+	setStatusCallback(callback: () => void): void {
+		this.onChange = callback;
+	}
+
+	/**
+	 * Set the wait before a taken lease is read back (tests: 0).
+	 */
+	setConfirmDelay(ms: number): void {
+		this.confirmDelayMs = ms;
+	}
+
+	/**
+	 * Last known lease (null = not checked yet or no leader).
+	 */
+	getLeader(): LeaderLease | null {
+		return this.current;
+	}
+
+	/**
+	 * True if this device held the lease at the last check.
+	 */
+	isLeader(): boolean {
+		return this.current?.device_id === this.deviceId;
+	}
+
+	/**
+	 * Acquire or renew the lease.
+	 *
+	 * @param leaseMs How long the lease stays valid without renewal
+	 * @returns true if this device is the leader and may sync
+	 */
+	async acquire(leaseMs: number, now: number = Date.now()): Promise<boolean> {
+		const lease = await this.read();
+
+		if (
+			lease &&
+			lease.device_id !== this.deviceId &&
+			new Date(lease.expires).getTime() > now
+		) {
+			// Another device holds a valid lease — stay passive
+			this.setCurrent(lease);
+			return false;
+		}
+
+		// Free, expired or ours — take / renew it
+		const renewing = lease?.device_id === this.deviceId && new Date(lease.expires).getTime() > now;
+		const renewed: LeaderLease = {
+			device_id: this.deviceId,
+			device_name: this.deviceName,
+			heartbeat: new Date(now).toISOString(),
+			expires: new Date(now + leaseMs).toISOString(),
+		};
+		await this.write(renewed);
+
+		if (!renewing) {
+			// Taking over: another device may have taken the same lease
+			if (this.confirmDelayMs > 0) {
+				await new Promise((resolve) => window.setTimeout(resolve, this.confirmDelayMs));
+			}
+			const confirmed = await this.read();
+			if (confirmed?.device_id !== this.deviceId) {
+				this.setCurrent(confirmed);
+				return false;
+			}
+		}
+
+		this.setCurrent(renewed);
+		return true;
+	}
+
+	/**
+	 * Read-only check for work only one device should do (auto archive
+	 * rules): true when this device holds the lease or no other device
+	 * holds a valid one. Never takes or renews the lease.
+	 */
+	async noOtherLeader(now: number = Date.now()): Promise<boolean> {
+		const lease = await this.read();
+		return !lease || lease.device_id === this.deviceId || new Date(lease.expires).getTime() <= now;
+	}
+
+	/**
+	 * Give up the lease so another device can take over immediately.
+	 * Call from plugin onunload.
+	 */
+	async release(now: number = Date.now()): Promise<void> {
+		const lease = await this.read();
+		if (lease?.device_id !== this.deviceId) {
+			return;
+		}
+		await this.write({ ...lease, expires: new Date(now).toISOString() });
+		this.setCurrent(null);
+	}
+
+	private setCurrent(lease: LeaderLease | null): void {
+		const changed =
+			this.current?.device_id !== lease?.device_id ||
+			this.current?.device_name !== lease?.device_name;
+		this.current = lease;
+		if (changed) {
+			this.onChange?.();
+		}
+	}
+
+	/**
+	 * Read the lease from the lock file's YAML frontmatter.
+	 * Missing or malformed file = no leader.
+	 */
+	private async read(): Promise<LeaderLease | null> {
+		const file = this.vault.getAbstractFileByPath(this.filePath);
+		if (!(file instanceof TFile)) {
+			return null;
+		}
+
+		const content = await this.vault.read(file);
+		const match = content.match(/^---\n([\s\S]*?)\n---/);
+		if (!match) {
+			return null;
+		}
+
+		try {
+			const parsed = parseYaml(match[1]) as Partial<LeaderLease> | null;
+			if (!parsed?.device_id || !parsed.expires) {
+				return null;
+			}
+			return {
+				device_id: String(parsed.device_id),
+				device_name: String(parsed.device_name ?? parsed.device_id),
+				heartbeat: String(parsed.heartbeat ?? ""),
+				expires: String(parsed.expires),
+			};
+		} catch {
+			console.error("[ArchivistBot] Failed to parse sync_leader.md YAML");
+			return null;
+		}
+	}
+
+	private async write(lease: LeaderLease): Promise<void> {
+		const yaml = stringifyYaml(lease).trimEnd();
+		const content = `---
+${yaml}
+---
+
+# Sync leader
+
+Auto-managed by ArchivistBot. Only the device listed above syncs notes;
+other devices take over when its lease expires. Do not edit.
+`;
+
+		const file = this.vault.getAbstractFileByPath(this.filePath);
+		if (file instanceof TFile) {
+			await this.vault.modify(file, content);
+			return;
+		}
+
+		if (!this.vault.getAbstractFileByPath(this.basePath)) {
+			await this.vault.createFolder(this.basePath);
+		}
+		await this.vault.create(this.filePath, content);
+	}
+}
@@ -0,0 +1,146 @@
+// src/sync-log-view.ts
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import type { SyncLog, SyncRunRecord } from "./sync-log";
+import { t } from "./i18n";
+
+export const VIEW_TYPE_SYNC_LOG = "archivistbot-sync-log";
+
+/**
+ * Sidebar view listing recorded sync runs, newest first.
+ * Written and appended paths link to the vault files.
+ */
+export class SyncLogView extends ItemView {
+	constructor(
+		leaf: WorkspaceLeaf,
+		private log: SyncLog,
+	) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_SYNC_LOG;
+	}
+
+	getDisplayText(): string {
+		return t("syncLog.title");
+	}
+
+	getIcon(): string {
+		return "history";
+	}
+
+	async onOpen(): Promise<void> {
+		this.render();
+	}
+
+	async onClose(): Promise<void> {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Re-render all entries (called when the log changes).
+	 */
+	render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("archivistbot-sync-log");
+
+		const runs = this.log.list();
+		if (runs.length === 0) {
+			contentEl.createEl("p", {
+				text: t("syncLog.empty"),
+				cls: "archivistbot-sync-log-empty",
+			});
+			return;
+		}
+
+		for (const run of runs) {
+			this.renderRun(contentEl, run);
+		}
+	}
+
+	private renderRun(parent: HTMLElement, run: SyncRunRecord): void {
+		const details = parent.createEl("details", {
+			cls: `archivistbot-sync-run archivistbot-sync-run-${run.status}`,
+		});
+		const written = run.created.length + run.appended.length;
+		details.createEl("summary", {
+			text: t("syncLog.summary", {
+				time: formatTime(run.startedAt),
+				status: t(`syncLog.status.${run.status}`),
+				fetched: run.fetched,
+				written,
+			}),
+		});
+
+		const meta = details.createDiv({ cls: "archivistbot-sync-run-meta" });
+		meta.createDiv({
+			text: t("syncLog.times", { started: formatTime(run.startedAt), finished: formatTime(run.finishedAt) }),
+		});
+		meta.createDiv({
+			text: t("syncLog.reconciliation", {
+				result: run.removedCount === null ? t("syncLog.notRun") : t("syncLog.removed", { count: run.removedCount }),
+			}),
+		});
+		meta.createDiv({ text: t("syncLog.backoff", { multiplier: run.backoffMultiplier }) });
+		if (run.error) {
+			meta.createDiv({ text: t("syncLog.error", { error: run.error }), cls: "archivistbot-sync-run-error" });
+		}
+
+		this.renderPaths(details, "syncLog.created", run.created);
+		this.renderPaths(details, "syncLog.appended", run.appended);
+
+		if (run.deduplicated.length > 0) {
+			details.createEl("h6", { text: t("syncLog.deduplicated", { count: run.deduplicated.length }) });
+			const list = details.createEl("ul");
+			for (const { noteId, name } of run.deduplicated) {
+				list.createEl("li", { text: `${name} (${noteId})` });
+			}
+		}
+
+		if (run.rejected.length > 0 || run.deferred.length > 0) {
+			details.createDiv({
+				cls: "archivistbot-sync-run-meta",
+				text: t("syncLog.review", { rejected: run.rejected.length, deferred: run.deferred.length }),
+			});
+		}
+
+		if (run.writeErrors.length > 0) {
+			details.createEl("h6", { text: t("syncLog.writeErrors", { count: run.writeErrors.length }) });
+			const list = details.createEl("ul", { cls: "archivistbot-sync-run-error" });
+			for (const { noteId, name, message } of run.writeErrors) {
+				list.createEl("li", { text: `${name} (${noteId}): ${message}` });
+			}
+		}
+	}
+
+	private renderPaths(parent: HTMLElement, title: "syncLog.created" | "syncLog.appended", paths: string[]): void {
+		if (paths.length === 0) {
+			return;
+		}
+		parent.createEl("h6", { text: t(title, { count: paths.length }) });
+		const list = parent.createEl("ul");
+		for (const path of paths) {
+			const link = list.createEl("li").createEl("a", { text: path, href: "#" });
+			link.addEventListener("click", (evt) => {
+				evt.preventDefault();
+				void this.app.workspace.openLinkText(path, "", false);
+			});
+		}
+	}
+}
+
+/**
+ * Format ISO timestamp in local time as YYYY-MM-DD HH:mm:ss.
+ */
+function formatTime(isoDate: string): string {
+	if (!isoDate) {
+		return "—";
+	}
+	const d = new Date(isoDate);
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return (
+		`${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ` +
+		`${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`
+	);
+}
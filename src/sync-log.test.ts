@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from "vitest";
+import { SyncLog, MAX_SYNC_LOG_ENTRIES } from "./sync-log";
+import type { SyncRunRecord } from "./sync-log";
+
+function makeRun(startedAt: string): SyncRunRecord {
+	return {
+		startedAt,
+		finishedAt: startedAt,
+		status: "ok",
+		fetched: 0,
+		created: [],
+		appended: [],
+		deduplicated: [],
+		rejected: [],
+		deferred: [],
+		writeErrors: [],
+		removedCount: null,
+		backoffMultiplier: 1,
+	};
+}
+
+describe("SyncLog", () => {
+	it("lists runs newest first", async () => {
+		const log = new SyncLog();
+
+		await log.add(makeRun("1"));
+		await log.add(makeRun("2"));
+
+		expect(log.list().map((r) => r.startedAt)).toEqual(["2", "1"]);
+	});
+
+	it("drops the oldest runs beyond the limit", async () => {
+		const initial = Array.from({ length: MAX_SYNC_LOG_ENTRIES }, (_, i) => makeRun(String(i)));
+		const persist = vi.fn(async () => {});
+		const log = new SyncLog(initial, persist);
+
+		await log.add(makeRun("new"));
+
+		const runs = log.list();
+		expect(runs).toHaveLength(MAX_SYNC_LOG_ENTRIES);
+		expect(runs[0].startedAt).toBe("new");
+		expect(runs[runs.length - 1].startedAt).toBe("1");
+		expect(persist).toHaveBeenCalledTimes(1);
+	});
+
+	it("notifies change callback on add and clear", async () => {
+		const log = new SyncLog();
+		const onChange = vi.fn();
+		log.setChangeCallback(onChange);
+
+		await log.add(makeRun("1"));
+		await log.clear();
+
+		expect(onChange).toHaveBeenCalledTimes(2);
+		expect(log.list()).toEqual([]);
+	});
+});
@@ -0,0 +1,100 @@
+// src/sync-log.ts
+
+/** Max runs kept in the sync log (oldest are dropped first). */
+export const MAX_SYNC_LOG_ENTRIES = 100;
+
+/** A note that was fetched but could not be written. */
+export interface SyncRunNoteError {
+	noteId: string;
+	name: string;
+	message: string;
+}
+
+/** A fetched note skipped by deduplication (write returned null). */
+export interface SyncRunDedup {
+	noteId: string;
+	name: string;
+}
+
+/**
+ * Details of a single SyncEngine run.
+ */
+export interface SyncRunRecord {
+	startedAt: string;
+	finishedAt: string;
+	status: "ok" | "error" | "cancelled";
+	/** Notes returned by the server across all pages */
+	fetched: number;
+	/** Vault paths of newly created notes */
+	created: string[];
+	/** Vault paths of notes that received an addition */
+	appended: string[];
+	deduplicated: SyncRunDedup[];
+	/** Note ids rejected in review (acknowledged without writing) */
+	rejected: string[];
+	/** Note ids deferred in review (left unsynced on the server) */
+	deferred: string[];
+	/** Per-note write failures (retried on next sync) */
+	writeErrors: SyncRunNoteError[];
+	/** removed_count from archive reconciliation, null if not run or failed */
+	removedCount: number | null;
+	/** Backoff multiplier applied to the interval after this run */
+	backoffMultiplier: number;
+	/** Cycle-level error (fetch / mark-synced failure) */
+	error?: string;
+}
+
+/** Persists sync log entries (e.g. into plugin data). */
+export type SyncLogPersist = (entries: SyncRunRecord[]) => Promise<void>;
+
+/**
+ * Bounded, persisted history of sync runs (ring buffer).
+ * Fed by SyncEngine, displayed by SyncLogView.
+ */
+export class SyncLog {
+	private entries: SyncRunRecord[];
+	private onChange: (() => void) | null = null;
+
+	/**
+	 * @param initial Entries loaded from plugin data (oldest first)
+	 * @param persist Saves entries after every change (default: in-memory only)
+	 */
+	constructor(
+		initial: SyncRunRecord[] = [],
+		private persist: SyncLogPersist = async () => {},
+	) {
+		this.entries = initial.slice(-MAX_SYNC_LOG_ENTRIES);
+	}
+
+	/**
+	 * Set callback for new entries (view refresh).
+	 */
+	setChangeCallback(callback: () => void): void {
+		this.onChange = callback;
+	}
+
+	/**
+	 * All runs, newest first.
+	 */
+	list(): SyncRunRecord[] {
+		return [...this.entries].reverse();
+	}
+
+	/**
+	 * Record a finished run, dropping the oldest beyond the limit.
+	 */
+	async add(record: SyncRunRecord): Promise<void> {
+		this.entries = [...this.entries, record].slice(-MAX_SYNC_LOG_ENTRIES);
+		await this.persist([...this.entries]);
+		this.onChange?.();
+	}
+
+	/**
+	 * Remove all entries.
+	 */
+	async clear(): Promise<void> {
+		this.entries = [];
+		await this.persist([]);
+		this.onChange?.();
+	}
+}
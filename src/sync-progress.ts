@@ -0,0 +1,44 @@
+// src/sync-progress.ts
+import { Notice } from "obsidian";
+import type { SyncProgress } from "./sync-engine";
+import { t } from "./i18n";
+
+/**
+ * Persistent Notice shown while SyncEngine walks a multi-page backlog.
+ * Offers a Cancel button — the engine stops after the current page.
+ */
+export class SyncProgressNotice implements SyncProgress {
+	private notice: Notice | null = null;
+	private textEl: HTMLElement | null = null;
+	private cancelled = false;
+
+	update(fetched: number): void {
+		if (!this.notice) {
+			const fragment = document.createDocumentFragment();
+			this.textEl = fragment.createDiv();
+			const btn = fragment.createEl("button", { text: t("notice.cancel") });
+			btn.addEventListener("click", (evt) => {
+				// Keep the notice open — clicking a notice dismisses it by default
+				evt.stopPropagation();
+				this.cancelled = true;
+				btn.disabled = true;
+				this.textEl?.setText(t("notice.syncStopping"));
+			});
+			// Duration 0 = stay until hidden by finish()
+			this.notice = new Notice(fragment, 0);
+		}
+
+		if (!this.cancelled) {
+			this.textEl?.setText(t("notice.syncProgress", { count: fetched }));
+		}
+	}
+
+	isCancelled(): boolean {
+		return this.cancelled;
+	}
+
+	finish(): void {
+		this.notice?.hide();
+		this.notice = null;
+	}
+}
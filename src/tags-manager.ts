@@ -2,7 +2,7 @@
 import { Vault, TFile, normalizePath, parseYaml, stringifyYaml } from "obsidian";
 import type { TagsRegistry } from "./types";
 
-const TAGS_FILENAME = "tags_registry.md";
+export const TAGS_FILENAME = "tags_registry.md";
 
 /**
  * Manages tags_registry.md file in vault.
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { formatTask, mergeTasks, parseDueDate } from "./task-format";
+
+/** Monday, 2026-10-19 (midday: the same local date in every timezone) */
+const REF = "2026-10-19T12:00:00Z";
+
+describe("parseDueDate", () => {
+	it.each([
+		["Send report 2026-11-02", "2026-11-02"],
+		["Pay rent by 01.11", "2026-11-01"],
+		["Renew passport 15.03.2027", "2027-03-15"],
+		["Renew visa 5.3.2027", "2027-03-05"],
+		["Оплатить до 5.11", "2026-11-05"],
+		["Call Anna on October 25", "2026-10-25"],
+		["Book tickets 3 January", "2027-01-03"],
+		["Позвонить 25 октября", "2026-10-25"],
+		["Оплатить счёт до 1 мая", "2027-05-01"],
+		["Позвонить 3 марта", "2027-03-03"],
+		["Buy milk tomorrow", "2026-10-20"],
+		["Prepare slides the day after tomorrow", "2026-10-21"],
+		["Отправить сегодня", "2026-10-19"],
+		["Купить билеты завтра", "2026-10-20"],
+		["Позвонить послезавтра", "2026-10-21"],
+		["Finish draft to Friday", "2026-10-23"],
+		["Сдать отчёт к пятнице", "2026-10-23"],
+		["Встреча в понедельник", "2026-10-19"],
+		["Call the bank on Monday", "2026-10-19"],
+		["Созвон в среду", "2026-10-21"],
+	])("%s → %s", (text, expected) => {
+		expect(parseDueDate(text, REF)).toBe(expected);
+	});
+
+	it.each([
+		"Buy milk",
+		"Maybe 25 maybes",
+		"Takes 1.5 hours",
+		"Update to version 2.10.3",
+		"Costs 1.50.",
+		"Costs 10.05 euro",
+		"Read chapter 10.05",
+		"Купить 3 мартышки",
+		"Прочитать 2 мартовских выпуска",
+		"Найти средство от моли",
+	])("finds no date in %s", (text) => {
+		expect(parseDueDate(text, REF)).toBeNull();
+	});
+});
+
+describe("formatTask", () => {
+	it("renders a plain checkbox", () => {
+		expect(formatTask("Call Anna tomorrow", "checkbox", "work", REF)).toBe("- [ ] Call Anna tomorrow");
+	});
+
+	it("renders Obsidian Tasks format with tag, created and due dates", () => {
+		expect(formatTask("Call Anna tomorrow", "tasks", "work/meetings", REF))
+			.toBe("- [ ] Call Anna tomorrow #work/meetings ➕ 2026-10-19 📅 2026-10-20");
+	});
+
+	it("omits the due date when none is mentioned", () => {
+		expect(formatTask("Call Anna", "tasks", "work", REF)).toBe("- [ ] Call Anna #work ➕ 2026-10-19");
+	});
+});
+
+describe("mergeTasks", () => {
+	it("inserts after the last item of the task section", () => {
+		const content = "Text\n\n## Tasks\n\n- [ ] One\n- [x] Two\n\n---\n\n**Related notes:**\n- [[Other]]";
+
+		const result = mergeTasks(content, ["- [ ] Three"], "Tasks");
+
+		expect(result).toBe("Text\n\n## Tasks\n\n- [ ] One\n- [x] Two\n- [ ] Three\n\n---\n\n**Related notes:**\n- [[Other]]");
+	});
+
+	it("recognizes the section heading in another language", () => {
+		const result = mergeTasks("Text\n\n## Задачи\n\n- [ ] Раз", ["- [ ] Two"], "Tasks");
+
+		expect(result).toBe("Text\n\n## Задачи\n\n- [ ] Раз\n- [ ] Two");
+	});
+
+	it("adds a section when the note has none", () => {
+		expect(mergeTasks("Text\n", ["- [ ] One"], "Tasks")).toBe("Text\n\n## Tasks\n\n- [ ] One");
+	});
+
+	it("leaves content unchanged without tasks", () => {
+		expect(mergeTasks("Text", [], "Tasks")).toBe("Text");
+	});
+});
@@ -0,0 +1,167 @@
+// src/task-format.ts
+import { moment } from "obsidian";
+import { allTranslations } from "./i18n";
+import { insertUnderHeading } from "./markdown-sections";
+
+/** How action items are rendered: plain checkboxes or Obsidian Tasks format. */
+export type TaskFormat = "checkbox" | "tasks";
+
+const DATE_FORMAT = "YYYY-MM-DD";
+
+const EN_WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+/** Russian weekdays in any case ("пятница", "к пятнице"), Sunday first like moment's day(). */
+const RU_WEEKDAYS = [
+	"воскресень[еяю]", "понедельник[аеу]?", "вторник[аеу]?", "сред[аеуы]",
+	"четверг[аеу]?", "пятниц[аеуы]", "суббот[аеуы]",
+];
+
+const EN_MONTHS = [
+	"january", "february", "march", "april", "may", "june",
+	"july", "august", "september", "october", "november", "december",
+];
+/** Russian months in the genitive, as dates are written: "25 октября", "1 мая". */
+const RU_MONTHS = [
+	"января", "февраля", "марта", "апреля", "мая", "июня",
+	"июля", "августа", "сентября", "октября", "ноября", "декабря",
+];
+
+/** Words that mark a short D.MM date as a deadline ("by 01.11", "до 5.11"). */
+const DUE_WORDS = ["by", "until", "till", "before", "on", "due", "до", "к", "ко", "по", "на"];
+
+/** Word boundaries that also work for Cyrillic (no lookbehind: iOS < 16.4). */
+const B = "(?:^|[^\\p{L}])";
+const E = "(?!\\p{L})";
+
+/**
+ * Render one action item as a task line.
+ *
+ * Tasks format: `- [ ] item #category ➕ created 📅 due`, where the due
+ * date is parsed from the item text when it mentions one.
+ *
+ * @param createdAt ISO timestamp of the note (created date, due-date reference)
+ */
+export function formatTask(item: string, format: TaskFormat, category: string, createdAt: string): string {
+	if (format === "checkbox") {
+		return `- [ ] ${item}`;
+	}
+	const created = moment.utc(createdAt).local();
+	const parts = [`- [ ] ${item}`, categoryTag(category), `➕ ${created.format(DATE_FORMAT)}`];
+	const due = parseDueDate(item, createdAt);
+	if (due) {
+		parts.push(`📅 ${due}`);
+	}
+	return parts.join(" ");
+}
+
+/**
+ * Find a due date in task text (English or Russian).
+ *
+ * Understands ISO dates (2026-10-25), D.M.YYYY, D.MM after a deadline
+ * word ("by 01.11", "до 5.11" — a bare "10.05" may be a price or a
+ * version), "25 October" / "October 25" / "25 октября", today /
+ * tomorrow / day after tomorrow (сегодня / завтра / послезавтра) and
+ * weekdays ("to Friday", "к пятнице") — the reference date itself when
+ * it falls on that weekday, the next such weekday otherwise.
+ *
+ * @param reference ISO timestamp the relative phrases are counted from
+ *   (its local date)
+ * @returns YYYY-MM-DD, or null when the text has no date
+ */
+export function parseDueDate(text: string, reference: string): string | null {
+	const ref = moment.utc(reference).local().startOf("day");
+	const lower = text.toLowerCase();
+
+	const iso = lower.match(/\b(\d{4}-\d{2}-\d{2})\b/);
+	if (iso && moment.utc(iso[1], DATE_FORMAT, true).isValid()) {
+		return iso[1];
+	}
+
+	// Not part of a longer number: 1.5, 2.10.3, 12.05.2026.1
+	const dotted = lower.match(/(?:^|[^\d.])(\d{1,2})\.(\d{1,2})\.(\d{4})(?![\d]|\.\d)/)
+		?? lower.match(new RegExp(`${B}(?:${DUE_WORDS.join("|")})\\s+(\\d{1,2})\\.(\\d{2})(?![\\d]|\\.\\d)`, "u"));
+	if (dotted) {
+		const date = upcoming(ref, Number(dotted[2]) - 1, Number(dotted[1]), dotted[3]);
+		if (date) {
+			return date;
+		}
+	}
+
+	const monthName = new RegExp(
+		`${B}(\\d{1,2})\\s+(?:(${EN_MONTHS.join("|")})|(${RU_MONTHS.join("|")}))${E}|` +
+		`${B}(${EN_MONTHS.join("|")})\\s+(\\d{1,2})${E}`,
+		"u",
+	);
+	const named = lower.match(monthName);
+	if (named) {
+		const [day, name] = named[1] ? [named[1], named[2] ?? named[3]] : [named[5], named[4]];
+		const month = monthIndex(name);
+		const date = month === null ? null : upcoming(ref, month, Number(day));
+		if (date) {
+			return date;
+		}
+	}
+
+	const relative: [RegExp, number][] = [
+		[new RegExp(`${B}(day after tomorrow|послезавтра)${E}`, "u"), 2],
+		[new RegExp(`${B}(tomorrow|завтра)${E}`, "u"), 1],
+		[new RegExp(`${B}(today|tonight|сегодня)${E}`, "u"), 0],
+	];
+	for (const [pattern, days] of relative) {
+		if (pattern.test(lower)) {
+			return ref.clone().add(days, "days").format(DATE_FORMAT);
+		}
+	}
+
+	for (let day = 0; day < 7; day++) {
+		const pattern = new RegExp(`${B}(${EN_WEEKDAYS[day]}|${RU_WEEKDAYS[day]})${E}`, "u");
+		if (pattern.test(lower)) {
+			const ahead = (day - ref.day() + 7) % 7;
+			return ref.clone().add(ahead, "days").format(DATE_FORMAT);
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Add task lines to the task section of a note (heading in any language),
+ * after its last item. Without such a section, a new one is added at the end.
+ */
+export function mergeTasks(content: string, taskLines: string[], heading: string): string {
+	return insertUnderHeading(
+		content,
+		allTranslations("note.tasks").map((h) => `## ${h}`),
+		taskLines,
+		/^\s*- \[.\]/,
+		`## ${heading}`,
+	);
+}
+
+/** Category as a tag: `work/meetings` → `#work/meetings`. */
+function categoryTag(category: string): string {
+	return `#${category.trim().replace(/\s+/g, "-")}`;
+}
+
+function monthIndex(name: string): number | null {
+	const en = EN_MONTHS.indexOf(name);
+	if (en !== -1) {
+		return en;
+	}
+	const ru = RU_MONTHS.indexOf(name);
+	return ru === -1 ? null : ru;
+}
+
+/**
+ * Date for day/month (0-based), in `year` or — without a year —
+ * the next occurrence on or after the reference date.
+ */
+function upcoming(ref: moment.Moment, month: number, day: number, year?: string): string | null {
+	const date = moment.utc({ year: year ? Number(year) : ref.year(), month, date: day }).local(true);
+	if (!date.isValid()) {
+		return null;
+	}
+	if (!year && date.isBefore(ref)) {
+		date.add(1, "year");
+	}
+	return date.format(DATE_FORMAT);
+}
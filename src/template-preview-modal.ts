@@ -0,0 +1,56 @@
+// src/template-preview-modal.ts
+import { App, Modal } from "obsidian";
+import { t } from "./i18n";
+
+/** One rendered template shown in the preview. */
+export interface TemplatePreviewSection {
+	title: string;
+	/** Configured template path, null when the built-in layout is used */
+	path: string | null;
+	errors: string[];
+	output: string;
+}
+
+/**
+ * Shows how a sample note renders through the configured
+ * note and append templates, with validation problems.
+ */
+export class TemplatePreviewModal extends Modal {
+	constructor(
+		app: App,
+		private sections: TemplatePreviewSection[],
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.addClass("archivistbot-template-preview");
+		contentEl.createEl("h3", { text: t("templatePreview.title") });
+
+		for (const section of this.sections) {
+			contentEl.createEl("h4", { text: section.title });
+			contentEl.createDiv({
+				text: section.path ? t("templatePreview.template", { path: section.path }) : t("templatePreview.builtIn"),
+				cls: "archivistbot-archive-hint",
+			});
+
+			if (section.errors.length > 0) {
+				const list = contentEl.createEl("ul", { cls: "archivistbot-template-errors" });
+				for (const error of section.errors) {
+					list.createEl("li", { text: error });
+				}
+				contentEl.createDiv({
+					text: t("templatePreview.invalid"),
+					cls: "archivistbot-archive-hint",
+				});
+			}
+
+			contentEl.createEl("pre").createEl("code", { text: section.output });
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
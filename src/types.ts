@@ -9,8 +9,14 @@ import type { components } from "./api-types";
 
 // ── Core schemas ──
 export type HealthResponse = components["schemas"]["HealthResponse"];
-export type NoteResponse = components["schemas"]["NoteResponse"];
-export type SyncResponse = components["schemas"]["SyncResponse"];
+// NoteResponse: `parent_note_id` (server FK of a reply's parent) is not yet in the OpenAPI spec
+export type NoteResponse = components["schemas"]["NoteResponse"] & {
+	parent_note_id?: string | null;
+};
+// SyncResponse: `next_cursor` is set while more pages of the backlog remain
+export type SyncResponse = components["schemas"]["SyncResponse"] & {
+	next_cursor?: string | null;
+};
 export type MarkSyncedRequest = components["schemas"]["MarkSyncedRequest"];
 export type MarkSyncedResponse = components["schemas"]["MarkSyncedResponse"];
 // CategoryItem: make `reminder` optional for backward compat with 2-column categories.md
@@ -23,7 +29,14 @@ export type CategoriesUpdateRequest = components["schemas"]["CategoriesUpdateReq
 export type TagsRegistryResponse = components["schemas"]["TagsRegistryResponse"];
 export type TagsUpdateRequest = components["schemas"]["TagsUpdateRequest"];
 export type ReminderSettings = components["schemas"]["ReminderSettings"];
-export type ReconcileArchivedRequest = components["schemas"]["ReconcileArchivedRequest"];
+// ReconcileArchivedRequest: per-path resolution `details` and `reactivated_paths`
+// are not yet in the OpenAPI spec
+export type ReconcileArchivedRequest = components["schemas"]["ReconcileArchivedRequest"] & {
+	/** vault path (as in `vault_paths`) → how the note was closed */
+	details?: Record<string, ArchivedNoteDetails>;
+	/** vault paths of notes restored from the archive: active again */
+	reactivated_paths?: string[];
+};
 export type ReconcileArchivedResponse = components["schemas"]["ReconcileArchivedResponse"];
 
 // ── Auth (commercial edition) ──
@@ -38,5 +51,34 @@ export type UserSessionsResponse = components["schemas"]["UserSessionsResponse"]
 export type UserDataExport = components["schemas"]["UserDataExport"];
 export type UserDataDeleteResponse = components["schemas"]["UserDataDeleteResponse"];
 
+// ── Paging for GET /v1/notes/unsynced (not yet in OpenAPI spec) ──
+export interface UnsyncedQuery {
+	/** Opaque cursor from the previous page's `next_cursor` */
+	cursor?: string;
+	/** Max notes per page */
+	limit?: number;
+	/** Watermark: only notes that became available after this server_time */
+	since?: string;
+}
+
+// ── Path updates for POST /v1/notes/vault-paths (not yet in OpenAPI spec) ──
+export interface VaultPathsUpdateRequest {
+	/** note id → current vault path */
+	vault_paths: Record<string, string>;
+}
+export interface VaultPathsUpdateResponse {
+	updated: number;
+}
+
+// ── Resolution of an archived note, reported on reconciliation (not yet in OpenAPI spec) ──
+export interface ArchivedNoteDetails {
+	/** Resolution value, e.g. "realized" */
+	resolution?: string;
+	/** Free-text comment written when archiving */
+	resolution_note?: string;
+	/** Follow-up date, YYYY-MM-DD */
+	follow_up?: string;
+}
+
 // TagsRegistry is now inline in TagsRegistryResponse, define as convenience type
 export type TagsRegistry = Record<string, Record<string, number>>;
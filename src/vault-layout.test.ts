@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import { App } from "obsidian";
+import {
+	archiveFolder,
+	archivePrefix,
+	archivedFromPath,
+	categoryFolder,
+	categoryForPath,
+	findArchived,
+	isArchivedPath,
+	logRestore,
+	parseFolderMappings,
+	partitionFolder,
+	scanArchive,
+} from "./vault-layout";
+import { setLocale } from "./i18n";
+
+const { mappings } = parseFolderMappings("work/*: Areas/Work\nideas: Inbox/Ideas\nwork/clients: Clients");
+
+describe("parseFolderMappings", () => {
+	it("parses mappings, /* includes subcategories", () => {
+		expect(mappings).toEqual([
+			{ category: "work", folder: "Areas/Work", subcategories: true },
+			{ category: "ideas", folder: "Inbox/Ideas", subcategories: false },
+			{ category: "work/clients", folder: "Clients", subcategories: false },
+		]);
+	});
+
+	it("reports invalid lines", () => {
+		const { mappings, errors } = parseFolderMappings("# comment\nwork Areas\nideas: ../Ideas\nhealth: VoiceNotes/_archive");
+
+		expect(mappings).toEqual([]);
+		expect(errors).toEqual([
+			'Line 2: expected "category: folder"',
+			'Line 3: folder must not contain ".." or "_archive"',
+			'Line 4: folder must not contain ".." or "_archive"',
+		]);
+	});
+
+	it("reports errors in the plugin language", () => {
+		setLocale("ru");
+		const { errors } = parseFolderMappings("work Areas");
+		setLocale("en");
+
+		expect(errors).toEqual(["Строка 1: ожидается «category: folder»"]);
+	});
+});
+
+describe("categoryFolder / categoryForPath", () => {
+	it("routes categories to the most specific mapping", () => {
+		expect(categoryFolder("VoiceNotes", mappings, "work")).toBe("Areas/Work");
+		expect(categoryFolder("VoiceNotes", mappings, "work/meetings")).toBe("Areas/Work/meetings");
+		expect(categoryFolder("VoiceNotes", mappings, "work/clients")).toBe("Clients");
+		expect(categoryFolder("VoiceNotes", mappings, "ideas/apps")).toBe("VoiceNotes/ideas/apps");
+		expect(categoryFolder("VoiceNotes", mappings, "health")).toBe("VoiceNotes/health");
+	});
+
+	it("maps note paths back to categories", () => {
+		expect(categoryForPath("VoiceNotes", mappings, "Areas/Work/meetings/a.md")).toBe("work/meetings");
+		expect(categoryForPath("VoiceNotes", mappings, "Clients/a.md")).toBe("work/clients");
+		expect(categoryForPath("VoiceNotes", mappings, "Inbox/Ideas/a.md")).toBe("ideas");
+		expect(categoryForPath("VoiceNotes", mappings, "Inbox/Ideas/sub/a.md")).toBeNull();
+		expect(categoryForPath("VoiceNotes", mappings, "VoiceNotes/health/a.md")).toBe("health");
+		expect(categoryForPath("VoiceNotes", mappings, "VoiceNotes/a.md")).toBe("uncategorized");
+		expect(categoryForPath("VoiceNotes", mappings, "Journal/a.md")).toBeNull();
+	});
+});
+
+describe("date partitions", () => {
+	// Midday mid-week: the same local day in every timezone
+	const created = "2026-02-11T12:00:00Z";
+
+	it("formats month and ISO week subfolders", () => {
+		expect(partitionFolder(created, "month")).toBe("2026/02");
+		expect(partitionFolder(created, "week")).toBe("2026/W07");
+		expect(partitionFolder(created, "none")).toBe("");
+	});
+
+	it("ignores date subfolders when resolving the category", () => {
+		expect(categoryForPath("VoiceNotes", mappings, "VoiceNotes/health/2026/02/a.md")).toBe("health");
+		expect(categoryForPath("VoiceNotes", mappings, "Areas/Work/meetings/2026/W07/a.md")).toBe("work/meetings");
+		expect(categoryForPath("VoiceNotes", mappings, "VoiceNotes/2026/02/a.md")).toBe("uncategorized");
+	});
+
+	it("partitions the archive the same way", () => {
+		expect(archiveFolder("VoiceNotes", "work/meetings", "2026/02")).toBe("VoiceNotes/_archive/work/meetings/2026/02");
+		expect(archiveFolder("VoiceNotes", "work/meetings")).toBe("VoiceNotes/_archive/work/meetings");
+	});
+});
+
+describe("archived paths", () => {
+	it("reads archived_from, falling back to the legacy mirrored path", () => {
+		const app = new App();
+		(app.vault as any)._addFile("VoiceNotes/_archive/work/a.md", "---\narchived_from: Areas/Work/a.md\n---\n");
+		(app.vault as any)._addFile("VoiceNotes/_archive/work/b.md", "---\ncategory: work\n---\n");
+
+		expect(archivedFromPath(app, "VoiceNotes", app.vault.getMarkdownFiles()[0])).toBe("Areas/Work/a.md");
+		expect(archivedFromPath(app, "VoiceNotes", app.vault.getMarkdownFiles()[1])).toBe("VoiceNotes/work/b.md");
+		expect(findArchived(app, "VoiceNotes", "Areas/Work/a.md")?.path).toBe("VoiceNotes/_archive/work/a.md");
+		expect(findArchived(app, "VoiceNotes", "VoiceNotes/work/b.md")?.path).toBe("VoiceNotes/_archive/work/b.md");
+		expect(findArchived(app, "VoiceNotes", "VoiceNotes/work/a.md")).toBeNull();
+	});
+
+	it("handles the archive at the vault root", () => {
+		const app = new App();
+		(app.vault as any)._addFile("_archive/work/a.md", "---\ncategory: work\n---\n");
+		(app.vault as any)._addFile("Projects/_archive/b.md", "---\ncategory: work\n---\n");
+
+		expect(categoryForPath("", [], "work/a.md")).toBe("work");
+		expect(categoryForPath("", [], "a.md")).toBe("uncategorized");
+		expect(archivePrefix("")).toBe("_archive/");
+		expect(isArchivedPath("", "_archive/work/a.md")).toBe(true);
+		expect(isArchivedPath("", "Projects/_archive/b.md")).toBe(false);
+		expect(archivedFromPath(app, "", app.vault.getMarkdownFiles()[0])).toBe("work/a.md");
+		expect(findArchived(app, "", "work/a.md")?.path).toBe("_archive/work/a.md");
+		expect(scanArchive(app, "").vault_paths).toEqual(["work/a.md"]);
+	});
+
+	it("collects archived notes with their resolution details", () => {
+		const app = new App();
+		(app.vault as any)._addFile("VoiceNotes/_archive/work/a.md", [
+			"---",
+			"archived_from: Areas/Work/a.md",
+			"resolution: dropped",
+			"resolution_note: Not needed",
+			"follow_up: \"2026-03-01\"",
+			"---",
+		].join("\n"));
+		(app.vault as any)._addFile("VoiceNotes/_archive/work/b.md", "---\ncategory: work\n---\n");
+		(app.vault as any)._addFile("VoiceNotes/work/c.md", "---\nresolution: realized\n---\n");
+
+		expect(scanArchive(app, "VoiceNotes")).toEqual({
+			vault_paths: ["Areas/Work/a.md", "VoiceNotes/work/b.md"],
+			details: {
+				"Areas/Work/a.md": { resolution: "dropped", resolution_note: "Not needed", follow_up: "2026-03-01" },
+			},
+		});
+	});
+});
+
+describe("logRestore", () => {
+	it("moves the archive state into archive_history", () => {
+		const fm: Record<string, unknown> = {
+			category: "work",
+			resolution: "dropped",
+			archived_at: "2026-02-20T10:00:00",
+			archived_from: "VoiceNotes/work/a.md",
+			archive_history: [{ resolution: "realized", archived_at: "2026-01-05T09:00:00", restored_at: "2026-01-06T09:00:00" }],
+		};
+
+		logRestore(fm, "2026-03-01T12:00:00");
+
+		expect(fm).toEqual({
+			category: "work",
+			archive_history: [
+				{ resolution: "realized", archived_at: "2026-01-05T09:00:00", restored_at: "2026-01-06T09:00:00" },
+				{ resolution: "dropped", archived_at: "2026-02-20T10:00:00", restored_at: "2026-03-01T12:00:00" },
+			],
+		});
+	});
+
+	it("adds no history entry for notes without a resolution", () => {
+		const fm: Record<string, unknown> = { category: "work", archived_from: "VoiceNotes/work/a.md" };
+
+		logRestore(fm, "2026-03-01T12:00:00");
+
+		expect(fm).toEqual({ category: "work" });
+	});
+
+	it("keeps the resolution comment and follow-up date in the history", () => {
+		const fm: Record<string, unknown> = {
+			resolution: "outdated",
+			archived_at: "2026-02-20T10:00:00",
+			resolution_note: "Replaced by the new plan",
+			follow_up: "2026-04-01",
+			archived_from: "VoiceNotes/work/a.md",
+		};
+
+		logRestore(fm, "2026-03-01T12:00:00");
+
+		expect(fm).toEqual({
+			archive_history: [{
+				resolution: "outdated",
+				archived_at: "2026-02-20T10:00:00",
+				resolution_note: "Replaced by the new plan",
+				follow_up: "2026-04-01",
+				restored_at: "2026-03-01T12:00:00",
+			}],
+		});
+	});
+});
@@ -0,0 +1,259 @@
+// src/vault-layout.ts
+import { App, TFile, moment, normalizePath } from "obsidian";
+import { t } from "./i18n";
+import type { ArchivedNoteDetails, ReconcileArchivedRequest } from "./types";
+
+/** Frontmatter key of an archived note's path before archiving. */
+export const ARCHIVED_FROM_KEY = "archived_from";
+
+/** Frontmatter key listing earlier archivals of a restored note. */
+export const ARCHIVE_HISTORY_KEY = "archive_history";
+
+/** Frontmatter fields of the current archival, logged to the history on restore. */
+const ARCHIVE_STATE_KEYS = ["resolution", "archived_at", "resolution_note", "follow_up"];
+
+/**
+ * Date subfolders inside category folders, by the note's creation date:
+ * none, `YYYY/MM` (month) or `YYYY/Www` (ISO week).
+ */
+export type DatePartition = "none" | "month" | "week";
+
+/** Trailing date subfolders of either partition layout. */
+const PARTITION_SUFFIX = /\/\d{4}\/(?:\d{2}|W\d{2})$/;
+
+/**
+ * Routes a category (and optionally its subcategories) to a vault folder
+ * instead of `basePath/category`.
+ */
+export interface FolderMapping {
+	category: string;
+	/** Vault folder, may be outside the base path */
+	folder: string;
+	/** Also route subcategories: `work/meetings` → `folder/meetings` */
+	subcategories: boolean;
+}
+
+/**
+ * Parse folder mappings, one `category: folder` per line;
+ * `category/*: folder` includes subcategories:
+ *
+ * ```
+ * work/*: Areas/Work
+ * ideas: Inbox/Ideas
+ * ```
+ *
+ * Blank lines and lines starting with `#` are ignored. Invalid lines are
+ * skipped and reported.
+ */
+export function parseFolderMappings(text: string): { mappings: FolderMapping[]; errors: string[] } {
+	const mappings: FolderMapping[] = [];
+	const errors: string[] = [];
+
+	text.split("\n").forEach((raw, i) => {
+		const line = raw.trim();
+		if (!line || line.startsWith("#")) {
+			return;
+		}
+		const match = line.match(/^([^:]+):\s*(.+)$/);
+		if (!match) {
+			errors.push(t("parse.expected", { line: i + 1, format: "category: folder" }));
+			return;
+		}
+		let category = match[1].trim();
+		const subcategories = category.endsWith("/*");
+		if (subcategories) {
+			category = category.slice(0, -2);
+		}
+		category = category.replace(/^\/+|\/+$/g, "");
+		const folder = normalizePath(match[2].trim()).replace(/^\/+|\/+$/g, "");
+		if (!category || !folder) {
+			errors.push(t("parse.expected", { line: i + 1, format: "category: folder" }));
+			return;
+		}
+		if (folder.split("/").some((part) => part === ".." || part === "_archive")) {
+			errors.push(t("parse.invalidFolder", { line: i + 1 }));
+			return;
+		}
+		mappings.push({ category, folder, subcategories });
+	});
+
+	return { mappings, errors };
+}
+
+/**
+ * Folder for notes of a category: the most specific mapping,
+ * `basePath/category` without one.
+ */
+export function categoryFolder(basePath: string, mappings: FolderMapping[], category: string): string {
+	const parts = category.split("/");
+	for (let n = parts.length; n > 0; n--) {
+		const prefix = parts.slice(0, n).join("/");
+		const mapping = mappings.find((m) => m.category === prefix && (n === parts.length || m.subcategories));
+		if (mapping) {
+			return normalizePath([mapping.folder, ...parts.slice(n)].join("/"));
+		}
+	}
+	return normalizePath(`${basePath}/${category}`);
+}
+
+/**
+ * Date subfolder for a note created at `createdAt` (ISO timestamp),
+ * in local time: "2026/02" (month), "2026/W06" (week), "" (none).
+ */
+export function partitionFolder(createdAt: string, partition: DatePartition): string {
+	const created = moment.utc(createdAt).local();
+	switch (partition) {
+		case "month":
+			return created.format("YYYY/MM");
+		case "week":
+			return created.format("GGGG/[W]WW");
+		default:
+			return "";
+	}
+}
+
+/**
+ * Category of a note by its location (reverse of `categoryFolder`).
+ * Date subfolders (`YYYY/MM`, `YYYY/Www`) are not part of the category.
+ * Notes directly in the base path are "uncategorized".
+ *
+ * @returns null for files outside the base path and all mapped folders
+ */
+export function categoryForPath(basePath: string, mappings: FolderMapping[], path: string): string | null {
+	const dir = (path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "").replace(PARTITION_SUFFIX, "");
+
+	// Longest folder first: nested mapped folders win over their parents
+	const byFolder = [...mappings].sort((a, b) => b.folder.length - a.folder.length);
+	for (const mapping of byFolder) {
+		if (dir === mapping.folder) {
+			return mapping.category;
+		}
+		if (mapping.subcategories && dir.startsWith(mapping.folder + "/")) {
+			return `${mapping.category}/${dir.slice(mapping.folder.length + 1)}`;
+		}
+	}
+
+	const basePrefix = folderPrefix(basePath);
+	if (path.startsWith(basePrefix)) {
+		return dir.slice(basePrefix.length) || "uncategorized";
+	}
+	return null;
+}
+
+/**
+ * Archive folder of a category: `basePath/_archive/category`,
+ * plus the date subfolder when given (partitioned layout).
+ */
+export function archiveFolder(basePath: string, category: string, partition = ""): string {
+	return normalizePath([`${basePath}/_archive/${category}`, partition].filter(Boolean).join("/"));
+}
+
+/**
+ * Path prefix of everything in the archive: "VoiceNotes/_archive/",
+ * or "_archive/" when the base path is the vault root.
+ */
+export function archivePrefix(basePath: string): string {
+	return `${folderPrefix(basePath)}_archive/`;
+}
+
+/** "Folder/" for a folder, "" for the vault root. */
+function folderPrefix(folder: string): string {
+	const normalized = normalizePath(folder);
+	return normalized === "/" ? "" : `${normalized}/`;
+}
+
+/**
+ * Whether `path` lies in the archive of `basePath`.
+ */
+export function isArchivedPath(basePath: string, path: string): boolean {
+	return path.startsWith(archivePrefix(basePath));
+}
+
+/**
+ * Path an archived note had before archiving: its `archived_from`
+ * frontmatter, or — for notes archived before it was recorded — the
+ * archive path without the `_archive/` segment.
+ */
+export function archivedFromPath(app: App, basePath: string, file: TFile): string {
+	const from: unknown = app.metadataCache.getFileCache(file)?.frontmatter?.[ARCHIVED_FROM_KEY];
+	if (typeof from === "string" && from) {
+		return from;
+	}
+	const prefix = archivePrefix(basePath);
+	return file.path.startsWith(prefix)
+		? folderPrefix(basePath) + file.path.slice(prefix.length)
+		: file.path;
+}
+
+/**
+ * Archived notes for reconciliation: the original vault path of every
+ * note in `basePath/_archive/`, with the resolution, comment and
+ * follow-up date from its frontmatter.
+ */
+export function scanArchive(app: App, basePath: string): ReconcileArchivedRequest {
+	const vaultPaths: string[] = [];
+	const details: Record<string, ArchivedNoteDetails> = {};
+	for (const file of app.vault.getMarkdownFiles()) {
+		if (!isArchivedPath(basePath, file.path)) {
+			continue;
+		}
+		const vaultPath = archivedFromPath(app, basePath, file);
+		vaultPaths.push(vaultPath);
+
+		const fm = app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+		const entry: ArchivedNoteDetails = {};
+		for (const key of ["resolution", "resolution_note", "follow_up"] as const) {
+			const value: unknown = fm[key];
+			if (typeof value === "string" && value) {
+				entry[key] = value;
+			}
+		}
+		if (Object.keys(entry).length > 0) {
+			details[vaultPath] = entry;
+		}
+	}
+	return { vault_paths: vaultPaths, details };
+}
+
+/**
+ * Find the archived note that was at `originalPath` before archiving.
+ */
+export function findArchived(app: App, basePath: string, originalPath: string): TFile | null {
+	// Legacy layout: same relative path under _archive/
+	const basePrefix = folderPrefix(basePath);
+	if (originalPath.startsWith(basePrefix)) {
+		const legacy = app.vault.getAbstractFileByPath(archivePrefix(basePath) + originalPath.slice(basePrefix.length));
+		if (legacy instanceof TFile && archivedFromPath(app, basePath, legacy) === originalPath) {
+			return legacy;
+		}
+	}
+
+	return app.vault.getMarkdownFiles().find(
+		(file) => isArchivedPath(basePath, file.path) && archivedFromPath(app, basePath, file) === originalPath,
+	) ?? null;
+}
+
+/** Called with the original vault path of a note restored from the archive. */
+export type RestoreHandler = (vaultPath: string) => void;
+
+/**
+ * Clear the archive state of a restored note's frontmatter: `resolution`,
+ * `archived_at`, `resolution_note` and `follow_up` move to an
+ * `archive_history` entry with `restored_at`, `archived_from` is removed.
+ */
+export function logRestore(fm: Record<string, unknown>, restoredAt: string): void {
+	if (fm.resolution !== undefined) {
+		const entry: Record<string, unknown> = {};
+		for (const key of ARCHIVE_STATE_KEYS) {
+			if (fm[key] !== undefined) {
+				entry[key] = fm[key];
+			}
+		}
+		entry.restored_at = restoredAt;
+		const history: unknown = fm[ARCHIVE_HISTORY_KEY];
+		fm[ARCHIVE_HISTORY_KEY] = [...(Array.isArray(history) ? (history as unknown[]) : []), entry];
+	}
+	for (const key of [...ARCHIVE_STATE_KEYS, ARCHIVED_FROM_KEY]) {
+		delete fm[key];
+	}
+}